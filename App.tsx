@@ -1,10 +1,10 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useSyncExternalStore } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from './db';
-import { Chat, AppConfig, GenConfig, ModalConfig } from './types';
-import { generateImageContentStream, generateChatTitle, enhancePrompt, blobToBase64, optimizeInputImage, createThumbnail, getEffectiveMimeType } from './services/geminiService';
-import { deleteChatWithCleanup, deleteMessagesWithCleanup, deleteImagesIfOrphaned, cleanupOrphanedImages, forceDeleteImages } from './services/cleanupService';
+import { Chat, Message, AppConfig, GenConfig, GenerationSnapshot, ModalConfig, StylePreset, Folder } from './types';
+import { generateChatTitle, enhancePrompt, optimizeInputImage, createThumbnail, getEffectiveMimeType, withRetry, classifyGenerationError, GenerationError, GENERATION_ERROR_MESSAGES } from './services/geminiService';
+import { deleteChatWithCleanup, cleanupOrphanedImages, forceDeleteImages } from './services/cleanupService';
 import { Sidebar } from './components/Sidebar';
 import { ChatView } from './components/ChatView';
 import { GalleryView } from './components/GalleryView';
@@ -12,17 +12,52 @@ import { Lightbox } from './components/Lightbox';
 import { SettingsModal } from './components/SettingsModal';
 import { GlobalModal } from './components/GlobalModal';
 import { PromptHistoryModal } from './components/PromptHistoryModal';
+import { ContextPreviewModal } from './components/ContextPreviewModal';
+import { ProjectReferencesPanel } from './components/ProjectReferencesPanel';
+import { ProjectSettingsModal } from './components/ProjectSettingsModal';
+import { PresetBar } from './components/PresetBar';
+import { PresetEditorModal } from './components/PresetEditorModal';
+import { LineageModal } from './components/LineageModal';
+import { SearchPalette } from './components/SearchPalette';
+import { StorageManagerModal } from './components/StorageManagerModal';
 import { Icon } from './components/Icon';
-import { ASPECT_RATIOS, RESOLUTIONS } from './constants';
+import { ASPECT_RATIOS, RESOLUTIONS, VARIANT_COUNTS } from './constants';
+import { getImageModels, getDefaultModel, getProvider, estimateCostUsd, resolveGenConfig, resolveProjectModel, setCustomModels } from './services/modelRegistry';
+import { pickVariant, discardUnpickedVariants } from './services/variantService';
+import { getActiveBranch, getBranch, setActiveLeaf, advanceActiveLeaf, switchBranch, deleteMessageFromTree } from './services/branchService';
+import { getActivePath, getSiblings } from './services/messageTree';
+import { planContext, buildContents } from './services/contextBuilder';
+import { pinReferenceImages, unpinReferenceImages } from './services/referenceService';
+import { createGeminiUploader, forgetUploads, isStaleFileError } from './services/filesService';
+import { composePrompt, getPresetGenDefaults, deletePreset } from './services/presetService';
+import { TemplateValues, fillTemplate } from './services/templateService';
+import { MaskEditRequest, buildMaskEditPrompt, findEditParent } from './services/maskService';
+import { getGenerationParents } from './services/lineageService';
+import { getGallerySlots, getStorageEstimate, isNearQuota, QUOTA_WARNING_RATIO } from './services/storageService';
+import { createFolder, renameFolder, deleteFolder, setFolderCollapsed, moveProject, moveFolder } from './services/folderService';
+import { exportData, ExportProgress, ExportScope } from './services/importExportService';
+import { PROJECT_PAGE_SIZE, getProjects, getSidebarProjects, countProjects, setProjectArchived, findEmptyProject } from './services/projectService';
+import { enqueueGeneration, abortGeneration, abortChatGenerations, updateJobProgress, updateJobRetry, clearFinishedJobs, isJobActive, setGenerationConcurrency, subscribeJobs, getJobsSnapshot, GenerationJob, JobStatus } from './services/generationQueue';
 import { v4 as uuidv4 } from 'uuid';
 
+// Stable fallback so memoized values don't change while the live query loads
+const NO_MESSAGES: Message[] = [];
+
 const DEFAULT_CONFIG: AppConfig = {
     apiKey: '',
     themeAccent: '#FABB10',
     safetyThreshold: 'BLOCK_MEDIUM_AND_ABOVE',
+    safetyOverrides: {},
     detailedVerbosity: false,
     searchGrounding: false,
+    includeThoughts: true,
+    thinkingLevel: 'auto',
+    thinkingBudget: -1,
     lightMode: false,
+    maxConcurrentJobs: 2,
+    contextTokenBudget: 32000,
+    galleryLimit: 0,
+    customModels: [],
     confirmations: {
         deleteProject: true,
         deleteMessage: true,
@@ -49,25 +84,11 @@ const getEnvApiKey = () => {
 
 const ENV_KEY = getEnvApiKey();
 
-// Helper for cost estimation
-const estimateImageCostUsd = (usage: any, resolution: string, imageCount: number) => {
-    if (!usage) return 0;
-
-    const inputRatePerM = 2; // $2 per 1M input tokens
-    const imageRatePerM = 120; // $120 per 1M image output tokens (approximate for Pro Image)
-
-    const promptCost = (usage.promptTokens / 1_000_000) * inputRatePerM;
-
-    // Fallback estimate if output tokens are low (heuristic)
-    let outputTokens = usage.outputTokens;
-    if ((!outputTokens || outputTokens === 0) && imageCount > 0) {
-        outputTokens = (resolution === '4K' ? 2000 : 1120) * imageCount;
-    }
-
-    const outputCost = (outputTokens / 1_000_000) * imageRatePerM;
+// Queue key of a batch row, so rows of one project run side by side
+const batchJobKey = (chatId: string, rowId: string) => `${chatId}/${rowId}`;
 
-    return promptCost + outputCost;
-};
+// A generation with a request in flight is released after this long without a streamed chunk
+const STALL_TIMEOUT_MS = 120000;
 
 // Helper to determine icon based on mime type
 const getFileIconName = (mime: string): any => {
@@ -85,18 +106,28 @@ export default function App() {
     const [activeChatId, setActiveChatId] = useState<string | null>(null);
     const [currentView, setCurrentView] = useState<'chat' | 'gallery'>('chat');
 
-    // Replaced isLoading boolean with generatingChatId string to track WHICH chat is working
-    const [generatingChatId, setGeneratingChatId] = useState<string | null>(null);
-    const [generationStartTime, setGenerationStartTime] = useState<number | null>(null);
+    // Generation jobs keyed by chatId, or by batchJobKey for batch rows (queued/running/done), owned by the generation queue
+    const jobs = useSyncExternalStore(subscribeJobs, getJobsSnapshot);
 
     const [isMagicLoading, setIsMagicLoading] = useState(false);
-    const [streamingText, setStreamingText] = useState('');
-    const [streamingThoughts, setStreamingThoughts] = useState('');
-    const [streamingUsage, setStreamingUsage] = useState<any>(null);
 
     const [settingsOpen, setSettingsOpen] = useState(false);
     const [historyOpen, setHistoryOpen] = useState(false);
+    const [contextPreviewOpen, setContextPreviewOpen] = useState(false);
+    const [referencesOpen, setReferencesOpen] = useState(false);
+    const [projectSettingsOpen, setProjectSettingsOpen] = useState(false);
+    const [storageOpen, setStorageOpen] = useState(false);
+    const [searchOpen, setSearchOpen] = useState(false);
+    const [highlightMessageId, setHighlightMessageId] = useState<string | null>(null);
+    const [projectLimit, setProjectLimit] = useState(PROJECT_PAGE_SIZE);
+    const [archiveOpen, setArchiveOpen] = useState(false);
+    const [archiveLimit, setArchiveLimit] = useState(PROJECT_PAGE_SIZE);
+    const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+    // Style presets stacked onto the next prompt, in activation order
+    const [activePresetIds, setActivePresetIds] = useState<string[]>([]);
+    const [presetEditor, setPresetEditor] = useState<{ preset: StylePreset | null } | null>(null);
     const [lightboxData, setLightboxData] = useState<{ blob: Blob, idx: number, context: { blob: Blob, id: string }[] } | null>(null);
+    const [lineageImageId, setLineageImageId] = useState<string | null>(null);
     const [modalConfig, setModalConfig] = useState<ModalConfig | null>(null);
     const [isDragging, setIsDragging] = useState(false);
 
@@ -107,19 +138,12 @@ export default function App() {
     // For Alt+E shortcut
     const [targetEditMessageId, setTargetEditMessageId] = useState<string | null>(null);
 
-    // Guard against parallel generation
-    const isGeneratingRef = useRef(false);
-    // Ref to track generatingChatId synchronously to avoid stale state in conflict checks
-    const generatingChatIdRef = useRef<string | null>(null);
-
     // Guard against double submission (debounce)
     const isSubmittingRef = useRef(false);
-    const safetyTimeoutRef = useRef<number | null>(null);
 
     const isCreatingRef = useRef(false);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const dragCounter = useRef(0);
-    const abortRef = useRef<AbortController | null>(null);
 
     const [config, setConfig] = useState<AppConfig>(() => {
         try {
@@ -130,7 +154,8 @@ export default function App() {
             initialConfig = {
                 ...DEFAULT_CONFIG,
                 ...initialConfig,
-                confirmations: { ...DEFAULT_CONFIG.confirmations, ...(initialConfig.confirmations || {}) }
+                confirmations: { ...DEFAULT_CONFIG.confirmations, ...(initialConfig.confirmations || {}) },
+                safetyOverrides: { ...(initialConfig.safetyOverrides || {}) }
             };
 
             if (ENV_KEY && !initialConfig.apiKey) {
@@ -142,42 +167,121 @@ export default function App() {
         }
     });
 
-    const [genConfig, setGenConfig] = useState<GenConfig>({
-        aspectRatio: 'auto',
-        resolution: '1K'
-    });
+    // Models added in settings must be registered before the pickers and generations read the registry
+    useMemo(() => setCustomModels(config.customModels), [config.customModels]);
 
-    const chats = useLiveQuery(() => db.chats.orderBy('updatedAt').reverse().toArray());
+    // Active projects as the sidebar groups them, with the top level paged in
+    const sidebarProjects = useLiveQuery(() => getSidebarProjects(projectLimit), [projectLimit]);
+    const chats = sidebarProjects?.chats;
+    const projectCount = useLiveQuery(() => countProjects(false));
+    const archivedChats = useLiveQuery(() => archiveOpen ? getProjects(true, archiveLimit) : Promise.resolve([] as Chat[]), [archiveOpen, archiveLimit]);
+    const archivedCount = useLiveQuery(() => countProjects(true)) ?? 0;
+    const folders = useLiveQuery(() => db.folders.orderBy('orderIndex').toArray());
 
-    const activeChatMessages = useLiveQuery(
+    // Every message of the project, across all branches
+    const allChatMessages = useLiveQuery(
         () => activeChatId ? db.messages.where('chatId').equals(activeChatId).sortBy('timestamp') : Promise.resolve([]),
         [activeChatId]
-    ) || [];
+    ) || NO_MESSAGES;
+
+    // The open project may be archived or beyond the loaded page, so it is also read directly
+    const activeChatRecord = useLiveQuery(() => activeChatId ? db.chats.get(activeChatId) : Promise.resolve(undefined), [activeChatId]);
+    const currentChat = chats?.find(c => c.id === activeChatId) ?? (activeChatRecord?.id === activeChatId ? activeChatRecord : null);
+    // A saved model that is no longer registered is shown in the picker rather than silently swapped
+    const { model: activeModel, missingId: missingModelId } = resolveProjectModel(currentChat?.modelId);
+    // Generation settings are stored per project and kept within what its model supports
+    const genConfig = resolveGenConfig(activeModel, currentChat?.genConfig);
+    const updateGenConfig = (patch: Partial<GenConfig>) => {
+        if (currentChat) db.chats.update(currentChat.id, { genConfig: { ...genConfig, ...patch } });
+    };
+
+    // The branch currently shown, root first
+    const activeChatMessages = React.useMemo(
+        () => getActivePath(allChatMessages, currentChat?.activeLeafId),
+        [allChatMessages, currentChat?.activeLeafId]
+    );
 
-    const currentChat = (chats && activeChatId) ? chats.find(c => c.id === activeChatId) : null;
+    // Siblings (alternate edits/regenerations) for each message on the active branch
+    const activeBranches = React.useMemo(() => {
+        const branches: Record<string, Message[]> = {};
+        activeChatMessages.forEach(msg => { branches[msg.id] = getSiblings(allChatMessages, msg); });
+        return branches;
+    }, [activeChatMessages, allChatMessages]);
+
+    // The unsent prompt, as it would be added to the context
+    const pendingContext = React.useMemo(() => ({ text: promptText, files: attachedFiles }), [promptText, attachedFiles]);
 
     // Derived state for loading
-    const isGenerating = !!generatingChatId;
-    const isGeneratingCurrent = generatingChatId === activeChatId;
+    const activeJob = activeChatId ? jobs[activeChatId] : undefined;
+    const isGeneratingCurrent = isJobActive(activeJob);
+    const jobStatuses = React.useMemo(() => {
+        const statuses: Record<string, JobStatus> = {};
+        Object.values(jobs).forEach(j => {
+            // A chat running batch rows stays queued/running until the last of them finishes
+            const current = statuses[j.chatId];
+            if (current !== 'running' && current !== 'queued') statuses[j.chatId] = j.status;
+        });
+        return statuses;
+    }, [jobs]);
+
+    // Status of each batch row of the open project that has a job in the queue, by row message
+    const batchStatuses = React.useMemo(() => {
+        const statuses: Record<string, JobStatus> = {};
+        if (!activeChatId) return statuses;
+        allChatMessages.forEach(m => {
+            const job = m.batchId ? jobs[batchJobKey(activeChatId, m.id)] : undefined;
+            if (job) statuses[m.id] = job.status;
+        });
+        return statuses;
+    }, [jobs, allChatMessages, activeChatId]);
 
     // Calculate project stats
     const activeChatStats = React.useMemo(() => {
         let totalTokens = 0;
         let totalCost = 0;
-        activeChatMessages.forEach(msg => {
+        allChatMessages.forEach(msg => {
             if (msg.meta?.tokens?.total) totalTokens += msg.meta.tokens.total;
             if (msg.meta?.costUsd) totalCost += msg.meta.costUsd;
         });
         return { totalTokens, totalCost };
-    }, [activeChatMessages]);
+    }, [allChatMessages]);
 
     // --- Effects ---
 
+    useEffect(() => {
+        setGenerationConcurrency(config.maxConcurrentJobs);
+    }, [config.maxConcurrentJobs]);
+
+    // Finished markers only need to be shown until the project is opened
+    useEffect(() => {
+        if (activeChatId && Object.values(jobs).some(j => j.chatId === activeChatId && !isJobActive(j))) {
+            clearFinishedJobs(activeChatId);
+        }
+    }, [activeChatId, jobs]);
+
     // Automatic Cleanup on Mount
     useEffect(() => {
         cleanupOrphanedImages().catch(console.error);
     }, []);
 
+    // Warn once per session when the database is close to the browser's storage quota
+    const quotaWarnedRef = useRef(false);
+    const finishedJobCount = Object.values(jobs).filter(j => j.status === 'done').length;
+    useEffect(() => {
+        if (quotaWarnedRef.current) return;
+        getStorageEstimate().then(estimate => {
+            if (!isNearQuota(estimate) || quotaWarnedRef.current) return;
+            quotaWarnedRef.current = true;
+            showModal({
+                type: 'confirm',
+                title: 'Storage Almost Full',
+                message: `Okobit is using over ${Math.round(QUOTA_WARNING_RATIO * 100)}% of the storage the browser allows. New images may fail to save. Free up space by deleting projects or offloading full-resolution images.`,
+                confirmText: 'Manage Storage',
+                onConfirm: () => setStorageOpen(true)
+            });
+        }).catch(console.error);
+    }, [finishedJobCount]);
+
     // Apply Theme
     useEffect(() => {
         const root = document.documentElement;
@@ -210,7 +314,6 @@ export default function App() {
         }
     }, [config.themeAccent, settingsOpen]);
 
-
     // Auto-resize textarea
     useEffect(() => {
         if (textareaRef.current) {
@@ -264,19 +367,20 @@ export default function App() {
 
     // Init Data
     useEffect(() => {
-        if (!chats) return;
+        if (!chats || projectCount === undefined) return;
 
         const initData = async () => {
             if (chats.length > 0 && !activeChatId) {
                 setActiveChatId(chats[0].id);
                 return;
             }
-            if (chats.length === 0 && !isCreatingRef.current) {
+            // Projects may exist but sit in collapsed folders
+            if (projectCount === 0 && !isCreatingRef.current) {
                 await createNewChat(true);
             }
         };
         initData();
-    }, [chats, activeChatId]);
+    }, [chats, projectCount, activeChatId]);
 
 
     // --- Handlers ---
@@ -289,7 +393,8 @@ export default function App() {
         if (currentView === 'gallery') return;
 
         dragCounter.current += 1;
-        if (e.dataTransfer.items && e.dataTransfer.items.length > 0) {
+        // Only files open the drop zone, not projects dragged around the sidebar
+        if (e.dataTransfer.types.includes('Files')) {
             setIsDragging(true);
         }
     };
@@ -349,16 +454,13 @@ export default function App() {
 
         try {
             if (!force && chats) {
-                const allChats = await db.chats.toArray();
-                for (const c of allChats) {
-                    const msgCount = await db.messages.where('chatId').equals(c.id).count();
-                    if (msgCount === 0) {
-                        setActiveChatId(c.id);
-                        setCurrentView('chat');
-                        if (window.innerWidth <= 768) setIsSidebarOpen(false);
-                        isCreatingRef.current = false;
-                        return;
-                    }
+                const empty = await findEmptyProject();
+                if (empty) {
+                    setActiveChatId(empty.id);
+                    setCurrentView('chat');
+                    if (window.innerWidth <= 768) setIsSidebarOpen(false);
+                    isCreatingRef.current = false;
+                    return;
                 }
             }
 
@@ -392,6 +494,7 @@ export default function App() {
             }
 
             try {
+                abortChatGenerations(id);
                 // Replaced direct transaction with cleanup service
                 await deleteChatWithCleanup(id);
             } catch (e) {
@@ -420,226 +523,322 @@ export default function App() {
         }
     };
 
-    const handleAbortGeneration = () => {
-        if (abortRef.current) {
-            abortRef.current.abort();
+    const handleArchiveChat = async (id: string, archived: boolean) => {
+        await setProjectArchived(id, archived);
+        if (archived && activeChatId === id) {
+            const next = chats?.find(c => c.id !== id);
+            if (next) setActiveChatId(next.id);
+            else await createNewChat(true);
+        }
+    };
+
+    // Exports part of the data, e.g. one client's project, as an importable archive
+    const handleScopedExport = async (scope: ExportScope, label: string) => {
+        if (exportProgress) return;
+        setExportProgress({ message: 'Starting export...', percent: 0 });
+        try {
+            const blob = await exportData(config, setExportProgress, scope);
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `okobit-${label.replace(/[\\/:*?"<>|\s]+/g, '_')}-${new Date().toISOString().slice(0, 10)}.zip`;
+            a.click();
+            URL.revokeObjectURL(url);
+        } catch (e) {
+            console.error("Export failed", e);
+            showModal({ type: 'alert', title: 'Export Failed', message: 'Could not export data.' });
+        } finally {
+            setExportProgress(null);
         }
-        setGeneratingChatId(null);
-        generatingChatIdRef.current = null;
-        setGenerationStartTime(null);
-        isGeneratingRef.current = false;
-        setStreamingText('');
-        setStreamingThoughts('');
-        setStreamingUsage(null);
     };
 
-    // Helper to check for active generation in another chat and prompt user
+    const handleAbortGeneration = () => {
+        if (activeChatId) abortGeneration(activeChatId);
+    };
+
+    // Helper to restart generation in the current chat. Other projects keep running
+    // in the generation queue, only a job for this same chat is halted first.
     const handleCheckConflict = (onProceed: () => void, onCancel?: () => void) => {
-        // Logic: If isGenerating is TRUE, or we have a ChatId that is currently generating
-        // Use Ref for generatingChatId to ensure we have the absolute latest value immediately
-        const currentGenId = generatingChatIdRef.current;
-
-        if (isGeneratingRef.current || currentGenId) {
-            // If in another chat
-            if (currentGenId && currentGenId !== activeChatId) {
-                const chatTitle = chats?.find(c => c.id === currentGenId)?.title || "another chat";
-                showModal({
-                    type: 'confirm',
-                    title: 'Halt current generation?',
-                    message: `Generation is in progress in "${chatTitle}". Only one image can be generated at a time. Starting a new generation will halt the current one.`,
-                    confirmText: 'Halt & Start New',
-                    cancelText: 'Cancel',
-                    onConfirm: () => {
-                        handleAbortGeneration();
-                        setTimeout(() => onProceed(), 100); // Give time for cleanup
-                    },
-                    onCancel: () => {
-                        if (onCancel) onCancel();
-                    }
-                });
-                return;
-            } else {
-                // In same chat - just restart (abort previous)
-                handleAbortGeneration();
-                setTimeout(() => onProceed(), 100);
-                return;
-            }
+        if (activeChatId && isJobActive(getJobsSnapshot()[activeChatId])) {
+            abortGeneration(activeChatId);
+            setTimeout(() => onProceed(), 100); // Give time for cleanup
+            return;
         }
 
         // No conflict
         onProceed();
     };
 
-    const processGeneration = async (chatId: string, text: string, files: Blob[]) => {
-        // Double check guard (handleCheckConflict should have cleared it)
-        if (isGeneratingRef.current) {
-            console.warn("Generation collision, forcing abort.");
-            handleAbortGeneration();
-            await new Promise(r => setTimeout(r, 100));
-        }
+    const processGeneration = (chatId: string, text: string, files: Blob[]) => {
+        return enqueueGeneration(chatId, job => runGeneration(job, chatId, text, files));
+    };
 
-        isGeneratingRef.current = true;
-        generatingChatIdRef.current = chatId;
-        setGeneratingChatId(chatId);
-        setGenerationStartTime(Date.now());
-        setStreamingText('');
-        setStreamingThoughts('');
-        setStreamingUsage(null);
-        const startTime = Date.now();
+    // Retrying one failed variant reruns only that variant, replacing its error card within the group
+    const processVariantRetry = (chatId: string, failed: Message) => {
+        return enqueueGeneration(chatId, job => runGeneration(job, chatId, '', [], failed.parentId!, failed));
+    };
 
-        if (safetyTimeoutRef.current) clearTimeout(safetyTimeoutRef.current);
-        safetyTimeoutRef.current = window.setTimeout(() => {
-            if (isGeneratingRef.current) {
-                console.error("Generation timed out safety release.");
-                handleAbortGeneration();
-            }
-        }, 120000);
+    // Batch rows and variant retries pass their prompt as fromId and generate from it instead of the active branch
+    const runGeneration = async (job: GenerationJob, chatId: string, text: string, files: Blob[], fromId?: string, retryVariant?: Message) => {
+        const startTime = Date.now();
+        const localAbortController = job.controller;
+
+        // Safety release in case the stream hangs. The watchdog only runs while a variant request
+        // is in flight: it is re-armed on every streamed chunk and paused during retry backoff.
+        // Attachment uploads before the first request have their own timeout in the uploader.
+        let stalled = false;
+        let stallTimer: number | undefined;
+        let inFlight = 0;
+        const armStallTimer = () => {
+            clearTimeout(stallTimer);
+            stallTimer = window.setTimeout(() => {
+                if (!localAbortController.signal.aborted) {
+                    console.error("Generation timed out safety release.");
+                    stalled = true;
+                    localAbortController.abort();
+                }
+            }, STALL_TIMEOUT_MS);
+        };
 
-        const localAbortController = new AbortController();
-        abortRef.current = localAbortController;
+        // Responses attach to the tip of the branch the generation started from
+        let parentId: string | null = null;
+        let model = getDefaultModel();
+        let requestedModelId: string | undefined;
 
         try {
-            const conversationParts: any[] = [];
-
-            const allMessagesInChat = await db.messages.where('chatId').equals(chatId).sortBy('timestamp');
-
-            // Optimization: Only send images for the last 8 messages (turns) to avoid Payload Too Large errors.
-            // We always send the full text history for context.
-            const IMAGE_HISTORY_LIMIT = 8;
-            const imageInclusionStartIndex = Math.max(0, allMessagesInChat.length - IMAGE_HISTORY_LIMIT);
-
-            for (let i = 0; i < allMessagesInChat.length; i++) {
-                const msg = allMessagesInChat[i];
-
-                if (msg.text) {
-                    conversationParts.push({ text: msg.text });
-                }
-
-                // Only include images if this message is within the recent history window
-                if (i >= imageInclusionStartIndex && msg.imageIds && msg.imageIds.length > 0) {
-                    const imgBlobs = await db.images.where('id').anyOf(msg.imageIds).toArray();
-                    for (const imgBlob of imgBlobs) {
-                        if (imgBlob) {
-                            const b64 = await blobToBase64(imgBlob.blob);
-                            conversationParts.push({
-                                inlineData: {
-                                    data: b64,
-                                    mimeType: imgBlob.mimeType
-                                }
-                            });
-                        }
-                    }
-                }
-            }
+            // Only the active branch is sent as context, other branches and unpicked variants are not
+            const allMessagesInChat = fromId ? await getBranch(chatId, fromId) : await getActiveBranch(chatId);
+            parentId = allMessagesInChat[allMessagesInChat.length - 1]?.id ?? null;
+
+            // Read settings from the project itself, the job may run after the user switched away
+            const chat = await db.chats.get(chatId);
+            ({ model, missingId: requestedModelId } = resolveProjectModel(chat?.modelId));
+            const projectGenConfig = resolveGenConfig(model, chat?.genConfig);
+
+            // Fit the history into the token budget as role-tagged turns, pinned references first
+            const contextPlan = await planContext(allMessagesInChat, {
+                tokenBudget: config.contextTokenBudget,
+                pinnedImageIds: chat?.referenceImageIds
+            });
+            const buildConversation = () => buildContents(contextPlan, {
+                uploader: createGeminiUploader(config.apiKey),
+                signal: localAbortController.signal
+            });
 
-            if (allMessagesInChat.length === 1 && allMessagesInChat[0].role === 'user') {
+            // A batch project keeps its batch title
+            if (!retryVariant && allMessagesInChat.length === 1 && allMessagesInChat[0].role === 'user' && !allMessagesInChat[0].batchId) {
                 generateChatTitle(config.apiKey, text).then(title => {
                     db.chats.update(chatId, { title });
                 }).catch(console.error);
             }
 
-            const { text: responseText, thoughts: responseThoughts, images, thumbnails, usage, modelVersion, finishReason, safetyBlocked } = await generateImageContentStream({
-                apiKey: config.apiKey,
-                contents: conversationParts,
-                config: genConfig,
-                safetySetting: config.safetyThreshold,
-                signal: abortRef.current.signal,
-                searchGrounding: config.searchGrounding,
-                onProgress: (txt, th, usg) => {
-                    setStreamingText(txt);
-                    setStreamingThoughts(th);
-                    if (usg) setStreamingUsage(usg);
+            // Fire one request per variant against the same context.
+            // Rate-limit and overload errors are retried per variant with backoff.
+            const variantCount = retryVariant ? 1 : Math.max(1, projectGenConfig.variants || 1);
+            const runVariants = (conversationParts: any[]) => Promise.allSettled(Array.from({ length: variantCount }, (_, v) => withRetry(attempt => {
+                if (attempt > 1) updateJobRetry(job, null);
+                inFlight++;
+                armStallTimer();
+                return getProvider(model.provider).generate({
+                    apiKey: config.apiKey,
+                    model,
+                    contents: conversationParts,
+                    config: projectGenConfig,
+                    systemInstruction: chat?.systemInstruction,
+                    safetySetting: config.safetyThreshold,
+                    safetyOverrides: config.safetyOverrides,
+                    thinking: {
+                        includeThoughts: config.includeThoughts,
+                        level: config.thinkingLevel,
+                        budget: config.thinkingBudget
+                    },
+                    signal: localAbortController.signal,
+                    searchGrounding: config.searchGrounding,
+                    onProgress: (txt, th, usg) => {
+                        armStallTimer();
+                        // Only the first variant streams into the live bubble
+                        if (v === 0) updateJobProgress(job, txt, th, usg);
+                    }
+                }).finally(() => {
+                    if (--inFlight === 0) clearTimeout(stallTimer);
+                });
+            }, {
+                signal: localAbortController.signal,
+                onRetry: ({ attempt, maxAttempts, delayMs, error }) => {
+                    if (v === 0) updateJobProgress(job, '', '');
+                    updateJobRetry(job, { attempt, maxAttempts, resumeAt: Date.now() + delayMs, code: error.code });
                 }
-            });
+            }).then(({ result, attempts }) => ({ result, attempts, finishedAt: Date.now() }))));
+
+            let results = await runVariants(await buildConversation());
+
+            // An upload the service no longer recognises is forgotten and uploaded again, once
+            const uploadedImageIds = contextPlan.turns.flatMap(t => t.parts).filter(p => p.viaFiles && p.imageId).map(p => p.imageId!);
+            if (uploadedImageIds.length > 0 && !localAbortController.signal.aborted
+                && results.every(r => r.status === 'rejected' && isStaleFileError(r.reason))) {
+                await forgetUploads(uploadedImageIds);
+                results = await runVariants(await buildConversation());
+            }
 
             if (localAbortController.signal.aborted) {
                 throw new DOMException('Aborted', 'AbortError');
             }
 
-            // Save generated images and thumbnails
-            const genImageIds: string[] = [];
-            for (let i = 0; i < images.length; i++) {
-                const id = uuidv4();
-                await db.images.add({
-                    id,
-                    blob: images[i],
-                    thumbnail: thumbnails[i],
-                    mimeType: images[i].type,
-                    createdAt: Date.now(),
-                    isGalleryVisible: false
-                });
-                genImageIds.push(id);
+            const succeeded = results.filter(r => r.status === 'fulfilled');
+            if (succeeded.length === 0) {
+                throw (results[0] as PromiseRejectedResult).reason;
             }
 
-            const durationSeconds = (Date.now() - startTime) / 1000;
-            const duration = `${durationSeconds.toFixed(1)}s`;
+            // Provenance recorded on every generated image
+            const parentImageIds = getGenerationParents(allMessagesInChat, chat?.referenceImageIds);
+            const lastPrompt = [...allMessagesInChat].reverse().find(m => m.role === 'user');
+            const generation: GenerationSnapshot = {
+                prompt: lastPrompt?.composedPrompt || lastPrompt?.text || '',
+                modelId: model.id,
+                aspectRatio: projectGenConfig.aspectRatio,
+                resolution: projectGenConfig.resolution
+            };
 
-            const costUsd = estimateImageCostUsd(usage, genConfig.resolution, images.length);
+            // A retried variant stays in its group at the position of the card it replaces
+            const variantGroupId = retryVariant ? retryVariant.variantGroupId : variantCount > 1 ? uuidv4() : undefined;
+            const baseTimestamp = retryVariant ? retryVariant.timestamp : Date.now();
+            const responseIds: string[] = [];
 
-            await db.messages.add({
-                id: uuidv4(),
-                chatId: chatId,
-                role: 'model',
-                text: responseText,
-                thoughts: responseThoughts,
-                imageIds: genImageIds,
-                timestamp: Date.now(),
-                meta: {
-                    model: 'Gemini 3 Pro',
-                    modelVersion,
-                    duration,
-                    tokens: usage ? {
-                        prompt: usage.promptTokens,
-                        output: usage.outputTokens,
-                        thoughts: usage.thoughtsTokens,
-                        total: usage.totalTokens
-                    } : undefined,
-                    costUsd,
-                    finishReason,
-                    safetyBlocked
+            for (let v = 0; v < results.length; v++) {
+                const settled = results[v];
+                if (settled.status === 'rejected') {
+                    // Failed variants stay in the group as error cards, so a partial result is visible
+                    const failure = classifyGenerationError(settled.reason);
+                    await db.messages.add({
+                        id: uuidv4(),
+                        chatId: chatId,
+                        parentId,
+                        role: 'model',
+                        text: GENERATION_ERROR_MESSAGES[failure.code],
+                        timestamp: baseTimestamp + v,
+                        variantGroupId,
+                        variantIndex: v,
+                        error: true,
+                        meta: {
+                            model: model.label,
+                            modelId: model.id,
+                            requestedModelId,
+                            duration: `${((Date.now() - startTime) / 1000).toFixed(1)}s`,
+                            errorCode: failure.code,
+                            attempts: failure.attempts
+                        }
+                    });
+                    continue;
                 }
-            });
 
-            await db.chats.update(chatId, { updatedAt: Date.now() });
+                const { result, attempts, finishedAt } = settled.value;
+                const { text: responseText, thoughts: responseThoughts, images, thumbnails, usage, modelVersion, finishReason, safetyBlocked, safetyRatings, grounding } = result;
+
+                const responseId = uuidv4();
+                responseIds.push(responseId);
+
+                // Save generated images and thumbnails
+                const genImageIds: string[] = [];
+                for (let i = 0; i < images.length; i++) {
+                    const id = uuidv4();
+                    await db.images.add({
+                        id,
+                        blob: images[i],
+                        thumbnail: thumbnails[i],
+                        mimeType: images[i].type,
+                        createdAt: Date.now(),
+                        isGalleryVisible: false,
+                        sourceMessageId: responseId,
+                        parentImageIds,
+                        generation
+                    });
+                    genImageIds.push(id);
+                }
 
-        } catch (error: any) {
-            if (error.name === 'AbortError') {
-                console.log("Generation aborted");
-            } else {
-                console.error(error);
-                let errorMsg = "Error generating content.";
-                if (error.message.includes('safety')) errorMsg = "Generation blocked by safety filters.";
-                if (error.message.includes('quota')) errorMsg = "API quota exceeded.";
-                if (error.message.includes('key')) errorMsg = "Invalid API Key.";
+                const durationSeconds = (finishedAt - startTime) / 1000;
+                const duration = `${durationSeconds.toFixed(1)}s`;
+
+                const costUsd = estimateCostUsd(model, usage, projectGenConfig.resolution, images.length);
 
                 await db.messages.add({
-                    id: uuidv4(),
+                    id: responseId,
                     chatId: chatId,
+                    parentId,
                     role: 'model',
-                    text: errorMsg,
-                    timestamp: Date.now(),
-                    error: true
+                    text: responseText,
+                    thoughts: responseThoughts,
+                    imageIds: genImageIds,
+                    // Offset keeps sibling variants in a stable order
+                    timestamp: baseTimestamp + v,
+                    variantGroupId,
+                    variantIndex: retryVariant ? retryVariant.variantIndex : variantGroupId ? v : undefined,
+                    meta: {
+                        model: model.label,
+                        modelId: model.id,
+                        requestedModelId,
+                        modelVersion,
+                        duration,
+                        tokens: usage ? {
+                            prompt: usage.promptTokens,
+                            output: usage.outputTokens,
+                            thoughts: usage.thoughtsTokens,
+                            total: usage.totalTokens
+                        } : undefined,
+                        costUsd,
+                        finishReason,
+                        safetyBlocked,
+                        safetyRatings,
+                        grounding,
+                        attempts
+                    }
                 });
             }
-        } finally {
-            if (safetyTimeoutRef.current) clearTimeout(safetyTimeoutRef.current);
 
-            // Fix: Add delay to prevent UI race condition where "Continue" button appears 
-            // before the new message is rendered by useLiveQuery.
-            // This ensures the stream is visually "active" until the result is truly visible.
-            setTimeout(() => {
-                // Only clear if we haven't started a NEW generation in the meantime (though isGeneratingRef guards this, double check)
-                if (generatingChatIdRef.current === chatId) {
-                    setGeneratingChatId(null);
-                    generatingChatIdRef.current = null;
-                    setGenerationStartTime(null);
-                    setStreamingText('');
-                    setStreamingThoughts('');
-                    setStreamingUsage(null);
-                    abortRef.current = null;
-                    isGeneratingRef.current = false;
+            // The error card is only removed once its replacement is saved
+            if (retryVariant) await deleteMessageFromTree(retryVariant.id);
+
+            // Show the new response (the first variant when there are several)
+            await advanceActiveLeaf(chatId, parentId, responseIds[0]);
+
+        } catch (error: any) {
+            if (error.name === 'AbortError' && !stalled) {
+                console.log("Generation aborted");
+            } else {
+                console.error(error);
+                const failure = stalled
+                    ? new GenerationError('timeout', `No response from the model for ${STALL_TIMEOUT_MS / 1000}s`)
+                    : classifyGenerationError(error);
+
+                const errorMeta = {
+                    model: model.label,
+                    modelId: model.id,
+                    requestedModelId,
+                    duration: `${((Date.now() - startTime) / 1000).toFixed(1)}s`,
+                    errorCode: failure.code,
+                    attempts: failure.attempts
+                };
+
+                if (retryVariant) {
+                    // The retried variant keeps its card, now showing this attempt's failure
+                    await db.messages.update(retryVariant.id, { text: GENERATION_ERROR_MESSAGES[failure.code], meta: errorMeta });
+                } else {
+                    const errorId = uuidv4();
+                    await db.messages.add({
+                        id: errorId,
+                        chatId: chatId,
+                        parentId,
+                        role: 'model',
+                        text: GENERATION_ERROR_MESSAGES[failure.code],
+                        timestamp: Date.now(),
+                        error: true,
+                        meta: errorMeta
+                    });
+                    await advanceActiveLeaf(chatId, parentId, errorId);
                 }
-            }, 1000);
+                throw error; // Flag the job as failed in the queue
+            }
+        } finally {
+            clearTimeout(stallTimer);
         }
     };
 
@@ -716,20 +915,32 @@ export default function App() {
                                 thumbnail: thumb,
                                 mimeType: finalMime,
                                 createdAt: Date.now(),
-                                isGalleryVisible: false
+                                isGalleryVisible: false,
+                                sourceMessageId: userMsgId
                             });
                             imageIds.push(imgId);
                         }
                     }
 
+                    // Apply stacked style presets; their reference images travel with the message
+                    const presets = (await db.presets.bulkGet(activePresetIds)).filter((p): p is StylePreset => !!p);
+                    presets.forEach(p => (p.referenceImageIds || []).forEach(id => {
+                        if (!imageIds.includes(id)) imageIds.push(id);
+                    }));
+
+                    const branch = await getActiveBranch(activeChatId);
                     await db.messages.add({
                         id: userMsgId,
                         chatId: activeChatId,
+                        parentId: branch[branch.length - 1]?.id ?? null,
                         role: 'user',
                         text: text,
                         imageIds: imageIds,
+                        composedPrompt: presets.length > 0 ? composePrompt(text, presets) : undefined,
+                        presets: presets.length > 0 ? presets.map(p => ({ id: p.id, name: p.name })) : undefined,
                         timestamp: Date.now()
                     });
+                    await setActiveLeaf(activeChatId, userMsgId);
 
                     setPromptText('');
                     setAttachedFiles([]);
@@ -752,6 +963,67 @@ export default function App() {
         );
     };
 
+    // Expands a prompt template into a new project with one generation per row of values.
+    // Each prompt starts its own root branch so the renders don't see each other as context.
+    const handleRunBatch = async (template: string, rows: TemplateValues[]) => {
+        if (rows.length === 0) return;
+        if (!config.apiKey) {
+            setSettingsOpen(true);
+            showModal({ type: 'alert', title: 'Setup Required', message: "Please enter your Gemini API Key in Settings to continue." });
+            return;
+        }
+
+        // Every row becomes a root prompt of the batch, shown together in the results grid
+        const chatId = uuidv4();
+        const batchId = uuidv4();
+        const timestamp = Date.now();
+        const rowMessages: Message[] = rows.map((row, i) => ({
+            id: uuidv4(),
+            chatId,
+            parentId: null,
+            role: 'user',
+            text: fillTemplate(template, row),
+            imageIds: [],
+            // Offset keeps the rows in order
+            timestamp: timestamp + i,
+            batchId
+        }));
+        try {
+            await db.transaction('rw', db.chats, db.messages, async () => {
+                await db.chats.add({
+                    id: chatId,
+                    title: `Batch · ${template.replace(/\s+/g, ' ').slice(0, 40)}`,
+                    pinned: false,
+                    orderIndex: 0,
+                    createdAt: timestamp,
+                    updatedAt: timestamp,
+                    modelId: currentChat?.modelId,
+                    referenceImageIds: currentChat?.referenceImageIds,
+                    genConfig: currentChat?.genConfig,
+                    systemInstruction: currentChat?.systemInstruction,
+                    activeLeafId: rowMessages[0].id
+                });
+                await db.messages.bulkAdd(rowMessages);
+            });
+        } catch (e) {
+            console.error("Failed to create batch project", e);
+            showModal({ type: 'alert', title: 'Error', message: 'Failed to create the batch project.' });
+            return;
+        }
+
+        setActiveChatId(chatId);
+        setCurrentView('chat');
+
+        // Rows are separate jobs, so they run in parallel up to the concurrency limit
+        rowMessages.forEach(msg => {
+            enqueueGeneration(chatId, job => runGeneration(job, chatId, msg.text, [], msg.id), batchJobKey(chatId, msg.id));
+        });
+    };
+
+    const handleStopBatch = (rowIds: string[]) => {
+        if (activeChatId) rowIds.forEach(id => abortGeneration(batchJobKey(activeChatId, id)));
+    };
+
     const handleMagicPrompt = async () => {
         if (!promptText || !config.apiKey) return;
         setIsMagicLoading(true);
@@ -782,18 +1054,9 @@ export default function App() {
         handleCheckConflict(async () => {
             setShowAdv(false); // Close settings on edit regen too
 
-            const subsequentCount = await db.messages
-                .where('chatId').equals(activeChatId)
-                .and(m => m.timestamp > targetMsg.timestamp)
-                .count();
-
             const performRegenerate = async () => {
-                const laterMessages = await db.messages.where('chatId').equals(activeChatId).and(m => m.timestamp > targetMsg.timestamp).toArray();
-
-                // Clean up later messages and their images
-                await deleteMessagesWithCleanup(laterMessages.map(m => m.id));
-
                 let finalImageIds = [...keptImageIds];
+                const editedId = uuidv4();
 
                 if (newFiles.length > 0) {
                     for (const file of newFiles) {
@@ -818,33 +1081,41 @@ export default function App() {
                             thumbnail: thumb,
                             mimeType: finalMime,
                             createdAt: Date.now(),
-                            isGalleryVisible: false
+                            isGalleryVisible: false,
+                            sourceMessageId: editedId
                         });
                         finalImageIds.push(imgId);
                     }
                 }
 
-                if (targetMsg.imageIds) {
-                    const removedIds = targetMsg.imageIds.filter(id => !keptImageIds.includes(id));
-                    if (removedIds.length > 0) {
-                        // Smart cleanup for removed images from the edited message
-                        await deleteImagesIfOrphaned(removedIds);
-                    }
-                }
+                // The original's presets (those not deleted since) and region-edit framing are
+                // composed again around the new text
+                const presets = (await db.presets.bulkGet((targetMsg.presets || []).map(p => p.id))).filter((p): p is StylePreset => !!p);
+                let composedPrompt: string | undefined;
+                if (presets.length > 0) composedPrompt = composePrompt(newText, presets);
+                else if (targetMsg.composedPrompt && targetMsg.composedPrompt === buildMaskEditPrompt(targetMsg.text)) composedPrompt = buildMaskEditPrompt(newText);
 
-                await db.messages.update(msgId, { text: newText, imageIds: finalImageIds });
+                // The edit becomes a sibling of the original, which keeps its own branch
+                await db.messages.add({
+                    id: editedId,
+                    chatId: activeChatId,
+                    parentId: targetMsg.parentId ?? null,
+                    role: 'user',
+                    text: newText,
+                    imageIds: finalImageIds,
+                    composedPrompt,
+                    presets: presets.length > 0 ? presets.map(p => ({ id: p.id, name: p.name })) : undefined,
+                    timestamp: Date.now()
+                });
+                await setActiveLeaf(activeChatId, editedId);
                 processGeneration(activeChatId, newText, []);
             };
 
             if (config.confirmations.regenerate) {
-                const message = subsequentCount > 0
-                    ? 'This will modify the message and regenerate a new response. Subsequent messages will be removed.'
-                    : 'This will modify the message and regenerate a new response.';
-
                 showModal({
                     type: 'confirm',
                     title: 'Regenerate Response?',
-                    message: message,
+                    message: 'This will start a new branch with the edited message and regenerate a response. The original branch is kept.',
                     confirmText: 'Regenerate',
                     onConfirm: performRegenerate
                 });
@@ -861,17 +1132,11 @@ export default function App() {
         if (targetMsg.role === 'model') {
             handleCheckConflict(async () => {
                 const performRegenerate = async () => {
-                    const prevUserMsg = await db.messages.where('chatId').equals(activeChatId)
-                        .and(m => m.timestamp < targetMsg.timestamp && m.role === 'user')
-                        .reverse().first();
-
-                    if (!prevUserMsg) return;
-
-                    const laterMessages = await db.messages.where('chatId').equals(activeChatId).and(m => m.timestamp >= targetMsg.timestamp).toArray();
-
-                    // Use cleanup service
-                    await deleteMessagesWithCleanup(laterMessages.map(m => m.id));
+                    const prevUserMsg = targetMsg.parentId ? await db.messages.get(targetMsg.parentId) : undefined;
+                    if (!prevUserMsg || prevUserMsg.role !== 'user') return;
 
+                    // The new response is added next to this one as another branch
+                    await setActiveLeaf(activeChatId, prevUserMsg.id);
                     processGeneration(activeChatId, prevUserMsg.text, []);
                 };
 
@@ -879,7 +1144,7 @@ export default function App() {
                     showModal({
                         type: 'confirm',
                         title: 'Regenerate Response?',
-                        message: 'This will delete this response and all following messages, then regenerate using the previous prompt.',
+                        message: 'This will generate a new response to the previous prompt. The current response is kept as another branch.',
                         confirmText: 'Regenerate',
                         onConfirm: performRegenerate
                     });
@@ -895,13 +1160,17 @@ export default function App() {
         if (!targetMsg || !activeChatId) return;
 
         handleCheckConflict(async () => {
-            const prevUserMsg = await db.messages.where('chatId').equals(activeChatId)
-                .and(m => m.timestamp < targetMsg.timestamp && m.role === 'user')
-                .reverse().first();
+            const prevUserMsg = targetMsg.parentId ? await db.messages.get(targetMsg.parentId) : undefined;
 
             if (!prevUserMsg) return;
-            // Clean up the failed message
-            await deleteMessagesWithCleanup([msgId]);
+            // A failed variant is rerun on its own, its succeeded siblings stay as they are
+            if (targetMsg.variantGroupId) {
+                processVariantRetry(activeChatId, targetMsg);
+                return;
+            }
+            // Clean up the failed message, leaving its prompt as the active leaf
+            await deleteMessageFromTree(msgId);
+            await setActiveLeaf(activeChatId, prevUserMsg.id);
             processGeneration(activeChatId, prevUserMsg.text, []);
         });
     }
@@ -912,8 +1181,11 @@ export default function App() {
 
         const performFork = async () => {
             try {
-                const msgsToCopy = await db.messages.where('chatId').equals(activeChatId)
-                    .and(m => m.timestamp <= targetMsg.timestamp).sortBy('timestamp');
+                // Only the active branch up to the target is copied
+                const path = await getActiveBranch(activeChatId);
+                const targetIdx = path.findIndex(m => m.id === msgId);
+                const msgsToCopy = targetIdx === -1 ? [targetMsg] : path.slice(0, targetIdx + 1);
+                const idMap = new Map(msgsToCopy.map(m => [m.id, uuidv4()]));
 
                 const newChatId = uuidv4();
                 const timestamp = Date.now();
@@ -924,13 +1196,21 @@ export default function App() {
                     pinned: false,
                     orderIndex: 0,
                     createdAt: timestamp,
-                    updatedAt: timestamp
+                    updatedAt: timestamp,
+                    modelId: currentChat?.modelId,
+                    referenceImageIds: currentChat?.referenceImageIds,
+                    genConfig: currentChat?.genConfig,
+                    systemInstruction: currentChat?.systemInstruction,
+                    activeLeafId: idMap.get(msgId)
                 });
 
-                const newMessages = msgsToCopy.map(m => ({
+                // The fork holds one variant of each group and one row of a batch, so the
+                // copies stand alone instead of joining the groups of the original project
+                const newMessages = msgsToCopy.map(({ variantGroupId, variantIndex, variantPicked, batchId, ...m }, i) => ({
                     ...m,
-                    id: uuidv4(),
-                    chatId: newChatId
+                    id: idMap.get(m.id)!,
+                    chatId: newChatId,
+                    parentId: i === 0 ? null : idMap.get(msgsToCopy[i - 1].id)!
                 }));
 
                 await db.messages.bulkAdd(newMessages);
@@ -939,7 +1219,7 @@ export default function App() {
 
                 if (targetMsg.role === 'user') {
                     setTimeout(() => {
-                        handleCheckConflict(() => processGeneration(newChatId, targetMsg.text, []));
+                        processGeneration(newChatId, targetMsg.text, []);
                     }, 100);
                 }
 
@@ -972,6 +1252,72 @@ export default function App() {
         }
     };
 
+    const handleTogglePreset = (preset: StylePreset) => {
+        if (activePresetIds.includes(preset.id)) {
+            setActivePresetIds(ids => ids.filter(id => id !== preset.id));
+            return;
+        }
+        setActivePresetIds(ids => [...ids, preset.id]);
+        const defaults = getPresetGenDefaults([preset]);
+        if (defaults.aspectRatio || defaults.resolution) updateGenConfig(defaults);
+    };
+
+    const handleDeletePreset = (preset: StylePreset) => {
+        const performDelete = async () => {
+            await deletePreset(preset.id);
+            setActivePresetIds(ids => ids.filter(id => id !== preset.id));
+            setPresetEditor(null);
+        };
+
+        showModal({
+            type: 'confirm',
+            title: 'Delete Preset?',
+            message: `Delete the "${preset.name}" style preset? Messages already sent with it are not affected.`,
+            confirmText: 'Delete',
+            onConfirm: performDelete
+        });
+    };
+
+    const handleToggleReference = (imageIds: string[]) => {
+        if (!currentChat || imageIds.length === 0) return;
+        const pinned = currentChat.referenceImageIds || [];
+        if (imageIds.every(id => pinned.includes(id))) unpinReferenceImages(currentChat.id, imageIds);
+        else pinReferenceImages(currentChat.id, imageIds);
+    };
+
+    const handleSwitchBranch = (msgId: string) => {
+        if (activeChatId) switchBranch(activeChatId, msgId);
+    };
+
+    // Opens a search hit: activates the branch holding the message, then ChatView scrolls to it
+    const handleOpenSearchMessage = async (chatId: string, messageId: string) => {
+        await switchBranch(chatId, messageId);
+        setActiveChatId(chatId);
+        setCurrentView('chat');
+        setHighlightMessageId(messageId);
+        if (window.innerWidth <= 768) setIsSidebarOpen(false);
+    };
+
+    const handleDiscardVariants = (variantGroupId: string) => {
+        if (!activeChatId) return;
+        const chatId = activeChatId;
+        const performDiscard = async () => {
+            await discardUnpickedVariants(chatId, variantGroupId);
+        };
+
+        if (config.confirmations.deleteMessage) {
+            showModal({
+                type: 'confirm',
+                title: 'Discard Other Variants?',
+                message: 'This will remove the variants you did not pick.',
+                confirmText: 'Discard',
+                onConfirm: performDiscard
+            });
+        } else {
+            performDiscard();
+        }
+    };
+
     const handleEditTitle = (id: string, currentTitle: string) => {
         showModal({
             type: 'prompt',
@@ -981,17 +1327,46 @@ export default function App() {
         });
     };
 
+    const handleNewFolder = () => {
+        showModal({
+            type: 'prompt',
+            title: 'New Folder',
+            placeholder: 'e.g. Client name',
+            confirmText: 'Create',
+            onConfirm: (val) => { if (val?.trim()) createFolder(val); }
+        });
+    };
+
+    const handleRenameFolder = (folder: Folder) => {
+        showModal({
+            type: 'prompt',
+            title: 'Rename Folder',
+            inputValue: folder.name,
+            onConfirm: (val) => { if (val?.trim()) renameFolder(folder.id, val); }
+        });
+    };
+
+    const handleDeleteFolder = (folder: Folder) => {
+        showModal({
+            type: 'confirm',
+            title: 'Delete Folder?',
+            message: `"${folder.name}" will be removed. Its projects are kept and move to the top level.`,
+            confirmText: 'Delete',
+            onConfirm: () => deleteFolder(folder.id)
+        });
+    };
+
     const handleDeleteMessage = async (msgId: string) => {
         const performDelete = async () => {
-            // Use cleanup service
-            await deleteMessagesWithCleanup([msgId]);
+            // Later turns are kept and re-attached to the message's parent
+            await deleteMessageFromTree(msgId);
         };
 
         if (config.confirmations.deleteMessage) {
             showModal({
                 type: 'confirm',
                 title: 'Delete Message?',
-                message: 'This will remove the message from the conversation.',
+                message: 'This will remove the message and its direct replies from the conversation. Later turns are kept.',
                 confirmText: 'Delete',
                 onConfirm: performDelete
             });
@@ -1000,6 +1375,81 @@ export default function App() {
         }
     };
 
+    // Starts a region edit turn: the image, its marked-up overlay and the mask go out with the instruction.
+    // In the original project the edit branches from the message that produced the image.
+    const handleMaskEdit = async (imageId: string, { instruction, mask, overlay, target }: MaskEditRequest) => {
+        if (!config.apiKey) {
+            setSettingsOpen(true);
+            showModal({ type: 'alert', title: 'Setup Required', message: "Please enter your Gemini API Key in Settings to continue." });
+            return;
+        }
+
+        try {
+            const originMsg = await findEditParent(imageId);
+            // Settings still come from the project the image is in when the edit starts a new one
+            const sourceMsg = originMsg || await db.messages.where('imageIds').equals(imageId).first();
+            const originChat = sourceMsg ? await db.chats.get(sourceMsg.chatId) : undefined;
+
+            let chatId: string;
+            let parentId: string | null = null;
+            if (target === 'origin' && originChat && originMsg) {
+                chatId = originChat.id;
+                parentId = originMsg.id;
+            } else {
+                chatId = uuidv4();
+                const settingsFrom = originChat || currentChat;
+                await db.chats.add({
+                    id: chatId,
+                    title: `Edit · ${instruction.slice(0, 40)}`,
+                    pinned: false,
+                    orderIndex: 0,
+                    createdAt: Date.now(),
+                    updatedAt: Date.now(),
+                    modelId: settingsFrom?.modelId,
+                    genConfig: settingsFrom?.genConfig,
+                    systemInstruction: settingsFrom?.systemInstruction
+                });
+            }
+
+            const msgId = uuidv4();
+            const attachmentIds: string[] = [];
+            for (const blob of [overlay, mask]) {
+                const id = uuidv4();
+                await db.images.add({
+                    id,
+                    blob,
+                    thumbnail: await createThumbnail(blob, 'image/png', 300),
+                    mimeType: 'image/png',
+                    createdAt: Date.now(),
+                    isGalleryVisible: false,
+                    sourceMessageId: msgId,
+                    parentImageIds: [imageId]
+                });
+                attachmentIds.push(id);
+            }
+
+            await db.messages.add({
+                id: msgId,
+                chatId,
+                parentId,
+                role: 'user',
+                text: instruction,
+                imageIds: [imageId, ...attachmentIds],
+                composedPrompt: buildMaskEditPrompt(instruction),
+                timestamp: Date.now()
+            });
+            await setActiveLeaf(chatId, msgId);
+
+            setLightboxData(null);
+            setActiveChatId(chatId);
+            setCurrentView('chat');
+            await processGeneration(chatId, instruction, []);
+        } catch (e) {
+            console.error("Failed to start region edit", e);
+            showModal({ type: 'alert', title: 'Error', message: 'Failed to start the region edit.' });
+        }
+    };
+
     const handleDeleteImage = (imageId: string) => {
         const performDelete = async () => {
             try {
@@ -1061,21 +1511,20 @@ export default function App() {
     };
 
     const handleToggleGallery = async (imageIds: string[]) => {
-        const currentCount = await db.images.filter(i => i.isGalleryVisible).count();
         const images = await db.images.bulkGet(imageIds);
         const validImages = images.filter(i => !!i) as import('./types').ImageBlob[];
 
         const anyUnsaved = validImages.some(i => !i.isGalleryVisible);
 
         if (anyUnsaved) {
-            const availableSlots = 50 - currentCount;
+            const availableSlots = await getGallerySlots(config.galleryLimit);
             const toSave = validImages.filter(i => !i.isGalleryVisible);
 
             if (toSave.length > availableSlots) {
                 showModal({
                     type: 'alert',
                     title: 'Gallery Full',
-                    message: `Cannot save ${toSave.length} images. Only ${availableSlots} slots remaining in gallery (Max 50).`
+                    message: `Cannot save ${toSave.length} images. Only ${availableSlots} slots remaining in gallery (Max ${config.galleryLimit}). The limit can be changed in Settings.`
                 });
                 return;
             }
@@ -1136,6 +1585,7 @@ export default function App() {
             if (e.altKey && e.key.toLowerCase() === 's') { e.preventDefault(); setIsSidebarOpen(prev => !prev); }
             if (e.altKey && e.key.toLowerCase() === 'n') { e.preventDefault(); createNewChat(); }
             if (e.altKey && e.key.toLowerCase() === 'p') { e.preventDefault(); setSettingsOpen(true); }
+            if (e.altKey && e.key.toLowerCase() === 'k') { e.preventDefault(); setSearchOpen(true); }
             if (e.altKey && e.key === '/') { e.preventDefault(); setModalConfig({ type: 'shortcuts', title: 'Keyboard Shortcuts' }); }
             if (e.altKey && e.key.toLowerCase() === 'c') { e.preventDefault(); handleAbortGeneration(); }
             if (e.altKey && e.key.toLowerCase() === 'e') {
@@ -1160,7 +1610,7 @@ export default function App() {
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [chats, activeChatId, activeChatMessages, currentView, generatingChatId]);
+    }, [chats, activeChatId, activeChatMessages, currentView]);
 
     return (
         <div
@@ -1174,16 +1624,35 @@ export default function App() {
                 isOpen={isSidebarOpen}
                 onToggle={() => setIsSidebarOpen(!isSidebarOpen)}
                 chats={chats || []}
+                folders={folders || []}
+                folderCounts={sidebarProjects?.folderCounts || {}}
+                hasMoreChats={!!sidebarProjects?.hasMore}
+                onLoadMoreChats={() => setProjectLimit(l => l + PROJECT_PAGE_SIZE)}
+                archiveOpen={archiveOpen}
+                onToggleArchive={() => { setArchiveOpen(open => !open); setArchiveLimit(PROJECT_PAGE_SIZE); }}
+                archivedChats={archivedChats || []}
+                archivedCount={archivedCount}
+                hasMoreArchived={(archivedChats?.length ?? 0) < archivedCount}
+                onLoadMoreArchived={() => setArchiveLimit(l => l + PROJECT_PAGE_SIZE)}
+                onArchiveChat={handleArchiveChat}
+                onExportChat={(chat) => handleScopedExport({ type: 'chats', chatIds: [chat.id] }, chat.title || 'project')}
                 activeChatId={activeChatId}
                 onSelectChat={(id) => { setActiveChatId(id); setCurrentView('chat'); if (window.innerWidth <= 768) setIsSidebarOpen(false); }}
                 onNewChat={() => createNewChat()}
                 onDeleteChat={handleDeleteChat}
                 onPinChat={(id) => { const c = chats?.find(c => c.id === id); if (c) db.chats.update(id, { pinned: !c.pinned }); }}
                 onEditTitle={handleEditTitle}
+                onNewFolder={handleNewFolder}
+                onRenameFolder={handleRenameFolder}
+                onDeleteFolder={handleDeleteFolder}
+                onToggleFolder={(folder) => setFolderCollapsed(folder.id, !folder.collapsed)}
+                onMoveChat={moveProject}
+                onMoveFolder={moveFolder}
                 currentView={currentView}
                 onViewChange={setCurrentView}
                 onOpenSettings={() => setSettingsOpen(true)}
-                generatingChatId={generatingChatId}
+                onOpenSearch={() => setSearchOpen(true)}
+                jobStatuses={jobStatuses}
                 stats={config.detailedVerbosity ? activeChatStats : undefined}
             />
 
@@ -1204,27 +1673,52 @@ export default function App() {
                                 <div className="text-center pointer-events-auto">
                                     <div className="font-semibold text-text-primary animate-slide-up flex items-center gap-2 justify-center">
                                         {currentChat?.title || "Okobit"}
-                                        {generatingChatId === currentChat?.id && (
+                                        {!!currentChat?.archived && (
+                                            <button onClick={() => handleArchiveChat(currentChat.id, false)} className="px-2 py-0.5 rounded-full bg-bg-element border border-border-light text-[10px] font-medium text-text-secondary hover:text-accent hover:border-accent transition-colors" title="Restore to the project list">
+                                                Archived
+                                            </button>
+                                        )}
+                                        {isGeneratingCurrent && (
                                             <Icon name="sparkles" className="w-4 h-4 text-accent animate-spin" />
                                         )}
                                     </div>
                                 </div>
+                                {currentChat && (
+                                    <div className="absolute right-4 flex items-center gap-1 pointer-events-auto">
+                                        <button onClick={() => setReferencesOpen(true)} className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg hover:bg-bg-element transition-all active:scale-95 text-xs font-medium ${currentChat.referenceImageIds?.length ? 'text-accent' : 'text-text-secondary hover:text-text-primary'}`} title="Project References">
+                                            <Icon name="pin" className="w-4 h-4" />
+                                            {!!currentChat.referenceImageIds?.length && <span>{currentChat.referenceImageIds.length}</span>}
+                                        </button>
+                                        <button onClick={() => setProjectSettingsOpen(true)} className={`p-1.5 rounded-lg hover:bg-bg-element transition-all active:scale-95 ${currentChat.systemInstruction ? 'text-accent' : 'text-text-secondary hover:text-text-primary'}`} title={currentChat.systemInstruction ? `Project Settings · ${currentChat.systemInstruction}` : 'Project Settings'}>
+                                            <Icon name="sliders" className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                )}
                             </div>
 
                             {chats ? (
                                 <ChatView
                                     chat={currentChat || { id: 'temp', title: 'Loading...', pinned: false, orderIndex: 0, createdAt: 0, updatedAt: 0 }}
                                     messages={activeChatMessages}
+                                    branches={activeBranches}
+                                    onSwitchBranch={handleSwitchBranch}
                                     onSendMessage={handleSendMessage}
                                     onEditMessage={handleEditMessage}
-                                    loading={generatingChatId === currentChat?.id}
+                                    loading={isGeneratingCurrent}
+                                    queued={activeJob?.status === 'queued'}
                                     onOpenLightbox={handleChatImageClick}
-                                    streamingText={generatingChatId === currentChat?.id ? streamingText : ''}
-                                    streamingThoughts={generatingChatId === currentChat?.id ? streamingThoughts : ''}
-                                    streamingUsage={generatingChatId === currentChat?.id ? streamingUsage : null}
+                                    streamingText={isGeneratingCurrent ? activeJob!.streamingText : ''}
+                                    streamingThoughts={isGeneratingCurrent ? activeJob!.streamingThoughts : ''}
+                                    streamingUsage={isGeneratingCurrent ? activeJob!.streamingUsage : null}
+                                    retry={isGeneratingCurrent ? activeJob!.retry : null}
                                     onRegenerate={handleRegenerate}
                                     onFork={handleFork}
+                                    onPickVariant={pickVariant}
+                                    onDiscardVariants={handleDiscardVariants}
                                     onDeleteMessage={handleDeleteMessage}
+                                    batchStatuses={batchStatuses}
+                                    onStopBatch={handleStopBatch}
+                                    onToggleReference={handleToggleReference}
                                     showStats={config.detailedVerbosity}
                                     onToggleGallery={handleToggleGallery}
                                     onSetPrompt={(text) => {
@@ -1235,7 +1729,9 @@ export default function App() {
                                     onContinueGeneration={handleContinueGeneration}
                                     targetEditMessageId={targetEditMessageId}
                                     onClearEditTarget={() => setTargetEditMessageId(null)}
-                                    startTime={generationStartTime}
+                                    highlightMessageId={highlightMessageId}
+                                    onClearHighlight={() => setHighlightMessageId(null)}
+                                    startTime={isGeneratingCurrent ? activeJob!.startedAt ?? null : null}
                                     onRetry={handleRetry}
                                     onDragCancel={handleDragCancel}
                                 />
@@ -1248,6 +1744,8 @@ export default function App() {
                             {currentChat && (
                                 <div className="absolute bottom-6 left-0 right-0 px-4 z-20 flex justify-center pointer-events-none">
                                     <div className="w-full max-w-3xl bg-[var(--bg-prompt)] backdrop-blur-xl border border-[var(--border-light)] rounded-2xl shadow-2xl p-3 pointer-events-auto transition-all focus-within:border-accent focus-within:ring-1 focus-within:ring-accent/20 animate-slide-up">
+                                        <PresetBar activeIds={activePresetIds} onToggle={handleTogglePreset} onEdit={(preset) => setPresetEditor({ preset })} />
+
                                         {attachedFiles.length > 0 && (
                                             <div className="flex gap-2 overflow-x-auto pb-2 mb-2 animate-fade-in scrollbar-thin scrollbar-thumb-bg-element scrollbar-track-transparent">
                                                 {attachedFiles.map((f, i) => {
@@ -1313,7 +1811,7 @@ export default function App() {
                                                         setTimeout(() => handleSendMessage(), 0);
                                                     }
                                                 }}
-                                                placeholder={isGenerating ? (isGeneratingCurrent ? "Generating..." : "Type to start new generation...") : "Describe your vision..."}
+                                                placeholder={isGeneratingCurrent ? (activeJob?.status === 'queued' ? "Queued..." : "Generating...") : "Describe your vision..."}
                                                 disabled={isMagicLoading}
                                                 className={`w-full bg-transparent border-none outline-none text-[0.95rem] resize-none max-h-[150px] min-h-[24px] disabled:opacity-50 transition-colors transition-[height] duration-200 ease-out ${isMagicLoading ? 'text-transparent placeholder:text-transparent caret-transparent' : 'text-text-primary'}`}
                                                 rows={1}
@@ -1323,16 +1821,29 @@ export default function App() {
 
                                         <div className={`overflow-hidden transition-all duration-300 ease-in-out ${showAdv ? 'max-h-[200px] opacity-100 mt-3 pt-3 border-t border-border-light' : 'max-h-0 opacity-0 border-none'}`}>
                                             <div className="flex flex-wrap gap-4">
+                                                <div className="flex-1 min-w-[120px]">
+                                                    <label className="text-xs text-text-secondary block mb-1">Model</label>
+                                                    <select value={missingModelId || activeModel.id} onChange={e => db.chats.update(currentChat.id, { modelId: e.target.value })} className="w-full bg-bg-base border border-border-light rounded px-2 py-1 text-xs text-text-primary outline-none focus:border-accent">
+                                                        {missingModelId && <option value={missingModelId} disabled>{missingModelId} (unavailable, using {activeModel.label})</option>}
+                                                        {getImageModels().map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                                    </select>
+                                                </div>
                                                 <div className="flex-1 min-w-[120px]">
                                                     <label className="text-xs text-text-secondary block mb-1">Aspect Ratio</label>
-                                                    <select value={genConfig.aspectRatio} onChange={e => setGenConfig({ ...genConfig, aspectRatio: e.target.value })} className="w-full bg-bg-base border border-border-light rounded px-2 py-1 text-xs text-text-primary outline-none focus:border-accent">
-                                                        {ASPECT_RATIOS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                                    <select value={genConfig.aspectRatio} onChange={e => updateGenConfig({ aspectRatio: e.target.value })} className="w-full bg-bg-base border border-border-light rounded px-2 py-1 text-xs text-text-primary outline-none focus:border-accent">
+                                                        {ASPECT_RATIOS.filter(r => activeModel.aspectRatios.includes(r.value)).map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
                                                     </select>
                                                 </div>
                                                 <div className="flex-1 min-w-[120px]">
                                                     <label className="text-xs text-text-secondary block mb-1">Resolution</label>
-                                                    <select value={genConfig.resolution} onChange={e => setGenConfig({ ...genConfig, resolution: e.target.value })} className="w-full bg-bg-base border border-border-light rounded px-2 py-1 text-xs text-text-primary outline-none focus:border-accent">
-                                                        {RESOLUTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                                    <select value={genConfig.resolution} disabled={activeModel.resolutions.length < 2} onChange={e => updateGenConfig({ resolution: e.target.value })} className="w-full bg-bg-base border border-border-light rounded px-2 py-1 text-xs text-text-primary outline-none focus:border-accent disabled:opacity-50">
+                                                        {RESOLUTIONS.filter(r => activeModel.resolutions.includes(r.value)).map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                                    </select>
+                                                </div>
+                                                <div className="flex-1 min-w-[80px]">
+                                                    <label className="text-xs text-text-secondary block mb-1">Variants</label>
+                                                    <select value={genConfig.variants} onChange={e => updateGenConfig({ variants: parseInt(e.target.value, 10) })} className="w-full bg-bg-base border border-border-light rounded px-2 py-1 text-xs text-text-primary outline-none focus:border-accent">
+                                                        {VARIANT_COUNTS.map(n => <option key={n} value={n}>{n === 1 ? 'Single' : `${n} Variants`}</option>)}
                                                     </select>
                                                 </div>
                                             </div>
@@ -1353,6 +1864,9 @@ export default function App() {
                                                 <button onClick={() => setHistoryOpen(true)} className={`p-2 rounded-lg hover:bg-bg-element transition-all active:scale-95 hover:scale-110 text-text-secondary hover:text-accent`} title="Prompt History">
                                                     <Icon name="clock" className="w-4 h-4" />
                                                 </button>
+                                                <button onClick={() => setContextPreviewOpen(true)} className={`p-2 rounded-lg hover:bg-bg-element transition-all active:scale-95 hover:scale-110 text-text-secondary hover:text-accent`} title="Context Preview">
+                                                    <Icon name="layers" className="w-4 h-4" />
+                                                </button>
                                                 <button onClick={() => setConfig(prev => ({ ...prev, searchGrounding: !prev.searchGrounding }))} className={`p-2 rounded-lg hover:bg-bg-element transition-all active:scale-95 hover:scale-110 ${config.searchGrounding ? 'text-accent' : 'text-text-secondary hover:text-accent'}`} title={`Search Grounding: ${config.searchGrounding ? 'ON' : 'OFF'}`}>
                                                     <Icon name="globe" className="w-4 h-4" />
                                                 </button>
@@ -1377,6 +1891,10 @@ export default function App() {
                             onOpenLightbox={(blob, idx, context) => setLightboxData({ blob, idx, context })}
                             onBulkDelete={handleBulkDeleteImages}
                             onBulkUnbookmark={handleBulkUnbookmark}
+                            galleryLimit={config.galleryLimit}
+                            onOpenStorage={() => setStorageOpen(true)}
+                            showModal={showModal}
+                            onExport={handleScopedExport}
                         />
                     )}
                 </div>
@@ -1395,8 +1913,37 @@ export default function App() {
             )}
 
             <GlobalModal config={modalConfig} onClose={() => setModalConfig(null)} />
-            <SettingsModal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} config={config} onSave={setConfig} showModal={showModal} />
-            <PromptHistoryModal isOpen={historyOpen} onClose={() => setHistoryOpen(false)} onSelectPrompt={(text) => { setPromptText(text); if (textareaRef.current) textareaRef.current.focus(); }} />
+            <SettingsModal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} config={config} onSave={setConfig} showModal={showModal} onOpenStorage={() => setStorageOpen(true)} />
+            {exportProgress && (
+                <div className="fixed bottom-6 right-6 z-[2500] w-64 bg-bg-surface border border-border-light rounded-xl shadow-2xl p-3 space-y-2 animate-slide-up">
+                    <div className="flex justify-between text-xs text-text-secondary font-mono">
+                        <span className="truncate">{exportProgress.message}</span>
+                        <span>{Math.round(exportProgress.percent)}%</span>
+                    </div>
+                    <div className="h-1.5 bg-bg-element rounded-full overflow-hidden">
+                        <div className="h-full bg-accent transition-all duration-300 ease-out" style={{ width: `${exportProgress.percent}%` }} />
+                    </div>
+                </div>
+            )}
+
+            <StorageManagerModal isOpen={storageOpen} onClose={() => setStorageOpen(false)} showModal={showModal} />
+            <ContextPreviewModal isOpen={contextPreviewOpen} onClose={() => setContextPreviewOpen(false)} messages={activeChatMessages} pending={pendingContext} tokenBudget={config.contextTokenBudget} pinnedImageIds={currentChat?.referenceImageIds} systemInstruction={currentChat?.systemInstruction} />
+            <PresetEditorModal
+                isOpen={!!presetEditor}
+                onClose={() => setPresetEditor(null)}
+                preset={presetEditor?.preset || null}
+                onDelete={handleDeletePreset}
+                onSkippedFiles={(names) => showModal({ type: 'alert', title: 'Unsupported File', message: `Only images can be used as references. Skipped: ${names.join(', ')}` })}
+            />
+            <ProjectSettingsModal isOpen={projectSettingsOpen} onClose={() => setProjectSettingsOpen(false)} chat={currentChat} />
+            <ProjectReferencesPanel
+                isOpen={referencesOpen}
+                onClose={() => setReferencesOpen(false)}
+                chat={currentChat}
+                onOpenLightbox={(blob, id) => setLightboxData({ blob, idx: 0, context: [{ blob, id }] })}
+                onSkippedFiles={(names) => showModal({ type: 'alert', title: 'Unsupported File', message: `Only images can be pinned as references. Skipped: ${names.join(', ')}` })}
+            />
+            <PromptHistoryModal isOpen={historyOpen} onClose={() => setHistoryOpen(false)} onSelectPrompt={(text) => { setPromptText(text); if (textareaRef.current) textareaRef.current.focus(); }} onRunBatch={handleRunBatch} />
 
             {lightboxData && (
                 <Lightbox
@@ -1407,8 +1954,31 @@ export default function App() {
                     onNext={() => { const nextIdx = (lightboxData.idx + 1) % lightboxData.context.length; setLightboxData({ ...lightboxData, idx: nextIdx, blob: lightboxData.context[nextIdx].blob }); }}
                     onPrev={() => { const prevIdx = (lightboxData.idx - 1 + lightboxData.context.length) % lightboxData.context.length; setLightboxData({ ...lightboxData, idx: prevIdx, blob: lightboxData.context[prevIdx].blob }); }}
                     onDelete={handleDeleteImage}
+                    galleryLimit={config.galleryLimit}
+                    onMaskEdit={handleMaskEdit}
+                    onImageSaved={(id, blob) => setLightboxData({ blob, idx: 0, context: [{ blob, id }] })}
+                    onShowLineage={setLineageImageId}
+                    showModal={showModal}
                 />
             )}
+            <LineageModal
+                imageId={lineageImageId}
+                onClose={() => setLineageImageId(null)}
+                onOpenImage={(blob, id) => { setLineageImageId(null); setLightboxData({ blob, idx: 0, context: [{ blob, id }] }); }}
+                onOpenProject={(chatId) => { setLineageImageId(null); setLightboxData(null); setActiveChatId(chatId); setCurrentView('chat'); }}
+            />
+
+            <SearchPalette
+                isOpen={searchOpen}
+                onClose={() => setSearchOpen(false)}
+                onOpenProject={(chatId) => { setActiveChatId(chatId); setCurrentView('chat'); }}
+                onOpenMessage={handleOpenSearchMessage}
+                onUsePrompt={(text) => {
+                    setPromptText(text);
+                    setCurrentView('chat');
+                    textareaRef.current?.focus();
+                }}
+            />
         </div>
     );
 }
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Icon } from './Icon';
+import { ImageAdjustments } from '../types';
+import { ASPECT_RATIOS } from '../constants';
+import { DEFAULT_ADJUSTMENTS, EXPORT_FORMATS, UPSCALE_FACTORS, getFormatExtension, renderAdjustedImage } from '../services/adjustService';
+
+interface AdjustPanelProps {
+    imageBlob: Blob;
+    onCancel: () => void;
+    onSave: (blob: Blob, adjustments: ImageAdjustments) => Promise<void>;
+}
+
+// Previews render at this size so sliders stay responsive on large images
+const PREVIEW_MAX_DIMENSION = 1024;
+const PREVIEW_DEBOUNCE_MS = 150;
+
+const chipClass = (active: boolean) =>
+    `px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${active ? 'bg-accent text-black' : 'text-white bg-white/10 hover:text-accent'}`;
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step?: number; format?: (v: number) => string; onChange: (v: number) => void }> = ({ label, value, min, max, step = 1, format, onChange }) => (
+    <label className="flex items-center gap-3 text-xs text-white/70">
+        <span className="w-20 shrink-0">{label}</span>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value))}
+            className="flex-1 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+        />
+        <span className="w-10 text-right font-mono text-white">{format ? format(value) : value}</span>
+    </label>
+);
+
+export const AdjustPanel: React.FC<AdjustPanelProps> = ({ imageBlob, onCancel, onSave }) => {
+    const [adj, setAdj] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+    const [previewUrl, setPreviewUrl] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const update = (patch: Partial<ImageAdjustments>) => setAdj(prev => ({ ...prev, ...patch }));
+
+    // Re-render the preview shortly after the last change
+    useEffect(() => {
+        let url = '';
+        let cancelled = false;
+        const timer = window.setTimeout(async () => {
+            try {
+                const blob = await renderAdjustedImage(imageBlob, { ...adj, scale: 1 }, PREVIEW_MAX_DIMENSION);
+                if (cancelled) return;
+                url = URL.createObjectURL(blob);
+                setPreviewUrl(url);
+            } catch (e) {
+                console.error("Failed to render preview", e);
+            }
+        }, PREVIEW_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [imageBlob, adj]);
+
+    const handleDownload = async () => {
+        const blob = await renderAdjustedImage(imageBlob, adj);
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `okobit-edit-${Date.now()}.${getFormatExtension(adj.format)}`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(await renderAdjustedImage(imageBlob, adj), adj);
+        } catch (e) {
+            console.error("Failed to save adjusted image", e);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="relative z-[2001] w-full h-full flex flex-col md:flex-row items-center justify-center gap-4 p-4" onClick={(e) => e.stopPropagation()}>
+            {/* Preview */}
+            <div className="flex-1 min-h-0 min-w-0 w-full h-full flex items-center justify-center">
+                {previewUrl && <img src={previewUrl} alt="Adjusted Preview" className="max-w-full max-h-full object-contain rounded-md shadow-2xl" />}
+            </div>
+
+            {/* Controls */}
+            <div className="w-full md:w-80 shrink-0 flex flex-col gap-4 bg-black/60 backdrop-blur-xl p-4 rounded-2xl border border-white/10 max-h-full overflow-y-auto">
+                <div>
+                    <p className="text-[11px] font-bold text-accent uppercase tracking-wider mb-2">Crop</p>
+                    <div className="flex flex-wrap gap-1.5">
+                        {ASPECT_RATIOS.map(r => (
+                            <button key={r.value} onClick={() => update({ crop: r.value })} className={chipClass(adj.crop === r.value)}>
+                                {r.value === 'auto' ? 'Original' : r.value}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <p className="text-[11px] font-bold text-accent uppercase tracking-wider mb-2">Rotate & Flip</p>
+                    <div className="flex flex-wrap gap-1.5">
+                        <button onClick={() => update({ rotation: ((adj.rotation + 270) % 360) as ImageAdjustments['rotation'] })} className={chipClass(false)} title="Rotate Left">
+                            ↺ 90°
+                        </button>
+                        <button onClick={() => update({ rotation: ((adj.rotation + 90) % 360) as ImageAdjustments['rotation'] })} className={chipClass(false)} title="Rotate Right">
+                            ↻ 90°
+                        </button>
+                        <button onClick={() => update({ flipH: !adj.flipH })} className={chipClass(adj.flipH)}>Flip H</button>
+                        <button onClick={() => update({ flipV: !adj.flipV })} className={chipClass(adj.flipV)}>Flip V</button>
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <p className="text-[11px] font-bold text-accent uppercase tracking-wider">Tone</p>
+                    <Slider label="Brightness" value={adj.brightness} min={0} max={200} format={v => `${v}%`} onChange={v => update({ brightness: v })} />
+                    <Slider label="Contrast" value={adj.contrast} min={0} max={200} format={v => `${v}%`} onChange={v => update({ contrast: v })} />
+                </div>
+
+                <div className="space-y-2">
+                    <p className="text-[11px] font-bold text-accent uppercase tracking-wider">Output</p>
+                    <div className="flex flex-wrap gap-1.5">
+                        {UPSCALE_FACTORS.map(f => (
+                            <button key={f} onClick={() => update({ scale: f })} className={chipClass(adj.scale === f)}>
+                                {f === 1 ? 'Original Size' : `${f}×`}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                        {EXPORT_FORMATS.map(f => (
+                            <button key={f.value} onClick={() => update({ format: f.value })} className={chipClass(adj.format === f.value)}>
+                                {f.label}
+                            </button>
+                        ))}
+                    </div>
+                    {adj.format !== 'image/png' && (
+                        <Slider label="Quality" value={Math.round(adj.quality * 100)} min={10} max={100} format={v => `${v}`} onChange={v => update({ quality: v / 100 })} />
+                    )}
+                </div>
+
+                <div className="flex items-center gap-2 pt-2 border-t border-white/10">
+                    <button onClick={() => setAdj(DEFAULT_ADJUSTMENTS)} className="px-2 py-1.5 text-xs text-white/70 hover:text-white transition-colors">
+                        Reset
+                    </button>
+                    <div className="flex-1"></div>
+                    <button onClick={onCancel} className="px-2 py-1.5 text-xs text-white/70 hover:text-white transition-colors">
+                        Cancel
+                    </button>
+                    <button onClick={handleDownload} className="p-1.5 text-white hover:text-accent transition-colors" title="Download">
+                        <Icon name="download" className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-accent text-[var(--text-on-accent)] disabled:opacity-40 transition-all active:scale-95"
+                    >
+                        <Icon name="bookmark" className="w-3.5 h-3.5" />
+                        Save Copy
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,14 +1,17 @@
 import React, { useEffect, useRef, useState } from "react";
 import { useLiveQuery } from "dexie-react-hooks";
-import { Message, Chat } from "../types";
+import { Message, Chat, GroundingInfo } from "../types";
 import { Icon } from "./Icon";
 import { db } from "../db";
-import { HERO_PROMPTS } from "../constants";
+import { HERO_PROMPTS, SAFETY_CATEGORIES } from "../constants";
 import { getEffectiveMimeType } from "../services/geminiService";
+import { JobRetry, JobStatus } from "../services/generationQueue";
 
 interface ChatViewProps {
   chat: Chat;
   messages: Message[];
+  branches: Record<string, Message[]>;
+  onSwitchBranch: (msgId: string) => void;
   onSendMessage: (text: string, files: Blob[]) => void;
   onEditMessage: (
     msgId: string,
@@ -17,13 +20,20 @@ interface ChatViewProps {
     newFiles?: Blob[],
   ) => void;
   loading: boolean;
+  queued?: boolean;
   onOpenLightbox: (blob: Blob, id: string) => void;
   streamingText: string;
   streamingThoughts: string;
   streamingUsage: any;
+  retry?: JobRetry | null;
   onRegenerate: (msgId: string) => void;
   onFork: (msgId: string) => void;
+  onPickVariant: (msgId: string) => void;
+  onDiscardVariants: (variantGroupId: string) => void;
   onDeleteMessage: (msgId: string) => void;
+  batchStatuses: Record<string, JobStatus>; // Queue status of batch rows, by row message
+  onStopBatch: (rowIds: string[]) => void;
+  onToggleReference: (imageIds: string[]) => void;
   showStats: boolean;
   onToggleGallery?: (imageIds: string[]) => void;
   onSetPrompt: (text: string) => void;
@@ -31,6 +41,8 @@ interface ChatViewProps {
   onContinueGeneration: () => void;
   targetEditMessageId?: string | null;
   onClearEditTarget?: () => void;
+  highlightMessageId?: string | null; // Scrolled to and flashed once it is on the branch
+  onClearHighlight?: () => void;
   startTime: number | null;
   onRetry: (msgId: string) => void;
   onDragCancel?: () => void;
@@ -128,16 +140,25 @@ const LazyImageThumb: React.FC<{
 export const ChatView: React.FC<ChatViewProps> = ({
   chat,
   messages,
+  branches,
+  onSwitchBranch,
   onSendMessage,
   onEditMessage,
   loading,
+  queued,
   onOpenLightbox,
   streamingText,
   streamingThoughts,
   streamingUsage,
+  retry,
   onRegenerate,
   onFork,
+  onPickVariant,
+  onDiscardVariants,
   onDeleteMessage,
+  batchStatuses,
+  onStopBatch,
+  onToggleReference,
   showStats,
   onToggleGallery,
   onSetPrompt,
@@ -145,6 +166,8 @@ export const ChatView: React.FC<ChatViewProps> = ({
   onContinueGeneration,
   targetEditMessageId,
   onClearEditTarget,
+  highlightMessageId,
+  onClearHighlight,
   startTime,
   onRetry,
   onDragCancel,
@@ -163,6 +186,18 @@ export const ChatView: React.FC<ChatViewProps> = ({
     }
   }, [messages.length, loading, streamingText, streamingThoughts]);
 
+  // Runs after the scroll-to-bottom above, so a jump from search wins
+  useEffect(() => {
+    if (!highlightMessageId || !scrollRef.current) return;
+    const el = scrollRef.current.querySelector(
+      `[data-message-id="${highlightMessageId}"]`,
+    );
+    if (!el) return;
+    el.scrollIntoView({ block: "center" });
+    const timer = setTimeout(() => onClearHighlight?.(), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightMessageId, messages]);
+
   if (messages.length === 0) {
     return (
       <div className="flex-1 flex flex-col items-center justify-center p-6 text-center animate-fade-in">
@@ -196,6 +231,43 @@ export const ChatView: React.FC<ChatViewProps> = ({
     );
   }
 
+  // Alternate versions of a message, excluding the other variants of its own group
+  const getBranchSiblings = (msg: Message) =>
+    (branches[msg.id] || [msg]).filter(
+      (m) =>
+        m.id === msg.id ||
+        !msg.variantGroupId ||
+        m.variantGroupId !== msg.variantGroupId,
+    );
+
+  const renderMessage = (msg: Message, idx: number) => (
+    <MessageItem
+      key={msg.id}
+      msg={msg}
+      siblings={getBranchSiblings(msg)}
+      onSwitchBranch={onSwitchBranch}
+      isLast={idx === messages.length - 1}
+      onEdit={onEditMessage}
+      onImageClick={onOpenLightbox}
+      onRegenerate={onRegenerate}
+      onFork={onFork}
+      onDelete={onDeleteMessage}
+      isReference={
+        !!msg.imageIds?.length &&
+        msg.imageIds.every((id) => chat.referenceImageIds?.includes(id))
+      }
+      onToggleReference={onToggleReference}
+      showStats={showStats}
+      onToggleGallery={onToggleGallery}
+      onSavePrompt={onSavePrompt}
+      targetEditMessageId={targetEditMessageId}
+      onClearEditTarget={onClearEditTarget}
+      highlighted={msg.id === highlightMessageId}
+      onRetry={onRetry}
+      onDragCancel={onDragCancel}
+    />
+  );
+
   const showContinue =
     !loading &&
     messages.length > 0 &&
@@ -207,25 +279,44 @@ export const ChatView: React.FC<ChatViewProps> = ({
       ref={scrollRef}
     >
       <div className="max-w-4xl mx-auto space-y-8">
-        {messages.map((msg, idx) => (
-          <MessageItem
-            key={msg.id}
-            msg={msg}
-            isLast={idx === messages.length - 1}
-            onEdit={onEditMessage}
-            onImageClick={onOpenLightbox}
-            onRegenerate={onRegenerate}
-            onFork={onFork}
-            onDelete={onDeleteMessage}
-            showStats={showStats}
-            onToggleGallery={onToggleGallery}
-            onSavePrompt={onSavePrompt}
-            targetEditMessageId={targetEditMessageId}
-            onClearEditTarget={onClearEditTarget}
-            onRetry={onRetry}
-            onDragCancel={onDragCancel}
-          />
-        ))}
+        {messages.map((msg, idx) => {
+          if (msg.batchId) {
+            // The batch rows are root siblings; all of them are listed above the one shown
+            const rows = (branches[msg.id] || [msg]).filter(
+              (m) => m.batchId === msg.batchId,
+            );
+            return (
+              <React.Fragment key={msg.id}>
+                <BatchResults
+                  rows={rows}
+                  activeRowId={msg.id}
+                  statuses={batchStatuses}
+                  onOpen={onSwitchBranch}
+                  onStop={onStopBatch}
+                  onImageClick={onOpenLightbox}
+                />
+                {renderMessage(msg, idx)}
+              </React.Fragment>
+            );
+          }
+          if (!msg.variantGroupId) return renderMessage(msg, idx);
+          // Only one variant is on the active branch; its group comes from the siblings
+          const variants = (branches[msg.id] || [msg]).filter(
+            (m) => m.variantGroupId === msg.variantGroupId,
+          );
+          if (variants.length < 2) return renderMessage(msg, idx);
+          return (
+            <VariantGroup
+              key={msg.variantGroupId}
+              variants={variants}
+              showStats={showStats}
+              onPick={onPickVariant}
+              onDiscard={onDiscardVariants}
+              onImageClick={onOpenLightbox}
+              renderMessage={(m) => renderMessage(m, idx)}
+            />
+          );
+        })}
 
         {loading && (
           <div className="flex flex-col gap-2 animate-fade-in pl-4 pb-4">
@@ -240,11 +331,13 @@ export const ChatView: React.FC<ChatViewProps> = ({
               <div className="flex flex-col gap-1 w-full max-w-[85%]">
                 <div className="flex items-center gap-2">
                   <span className="text-sm font-mono text-accent animate-pulse">
-                    Thinking...
+                    {queued ? "Queued..." : "Thinking..."}
                   </span>
-                  <LiveTimer startTime={startTime || Date.now()} />
+                  {!queued && <LiveTimer startTime={startTime || Date.now()} />}
                 </div>
 
+                {retry && <RetryCountdown retry={retry} />}
+
                 {/* Live Stats */}
                 {showStats && streamingUsage && (
                   <div className="text-[10px] font-mono text-text-tertiary flex gap-2">
@@ -254,9 +347,7 @@ export const ChatView: React.FC<ChatViewProps> = ({
                 )}
 
                 {streamingThoughts && (
-                  <div className="mt-2 text-xs text-text-secondary font-mono bg-bg-element/30 p-2 rounded-md border-l-2 border-accent/50 whitespace-pre-wrap animate-fade-in">
-                    {streamingThoughts}
-                  </div>
+                  <ReasoningPanel thoughts={streamingThoughts} live />
                 )}
               </div>
             </div>
@@ -301,8 +392,459 @@ const LiveTimer: React.FC<{ startTime: number }> = ({ startTime }) => {
   );
 };
 
+const RETRY_REASONS: Record<string, string> = {
+  rate_limit: "Rate limited",
+  overloaded: "Model overloaded",
+};
+
+// Shown while a job backs off before retrying a rate-limit or overload error
+const RetryCountdown: React.FC<{ retry: JobRetry }> = ({ retry }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [retry.resumeAt]);
+
+  const remaining = Math.ceil((retry.resumeAt - now) / 1000);
+  if (remaining <= 0) return null;
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs font-mono text-accent animate-fade-in">
+      <Icon name="refresh" className="w-3 h-3" />
+      <span>
+        {RETRY_REASONS[retry.code] || "Request failed"} · retrying in{" "}
+        {remaining}s (attempt {retry.attempt}/{retry.maxAttempts})
+      </span>
+    </div>
+  );
+};
+
+// Side-by-side comparison of sibling variants. Once a winner is picked it renders
+// as a regular message, with the grid available again on demand.
+const VariantGroup: React.FC<{
+  variants: Message[];
+  showStats: boolean;
+  onPick: (msgId: string) => void;
+  onDiscard: (variantGroupId: string) => void;
+  onImageClick: (b: Blob, id: string) => void;
+  renderMessage: (msg: Message) => React.ReactNode;
+}> = ({
+  variants,
+  showStats,
+  onPick,
+  onDiscard,
+  onImageClick,
+  renderMessage,
+}) => {
+  const picked = variants.find((v) => v.variantPicked);
+  const failedCount = variants.filter((v) => v.error).length;
+  const [comparing, setComparing] = useState(!picked);
+
+  useEffect(() => {
+    if (!picked) setComparing(true);
+  }, [picked]);
+
+  if (picked && !comparing) {
+    return (
+      <div className="flex flex-col gap-1">
+        {renderMessage(picked)}
+        {variants.length > 1 && (
+          <div className="flex items-center gap-3 pl-2 text-[11px] text-text-tertiary select-none">
+            <span className="font-mono">
+              Variant {variants.indexOf(picked) + 1}/{variants.length}
+            </span>
+            <button
+              onClick={() => setComparing(true)}
+              className="flex items-center gap-1 hover:text-accent transition-colors"
+            >
+              <Icon name="grid" className="w-3 h-3" /> Compare
+            </button>
+            <button
+              onClick={() => onDiscard(picked.variantGroupId!)}
+              className="flex items-center gap-1 hover:text-danger transition-colors"
+            >
+              <Icon name="trash" className="w-3 h-3" /> Discard others
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 animate-slide-up">
+      <div className="flex items-center justify-between text-xs text-text-secondary select-none">
+        <span className="flex items-center gap-1.5 font-medium">
+          <Icon name="grid" className="w-3.5 h-3.5 text-accent" />
+          {variants.length} variants
+          {failedCount > 0 && ` · ${failedCount} failed`} · pick one to continue
+        </span>
+        {picked && (
+          <button
+            onClick={() => setComparing(false)}
+            className="hover:text-text-primary transition-colors"
+          >
+            Close
+          </button>
+        )}
+      </div>
+      <div
+        className={`grid gap-3 ${variants.length === 2 ? "grid-cols-2" : "grid-cols-2 md:grid-cols-3"}`}
+      >
+        {variants.map((v, i) => (
+          <VariantCard
+            key={v.id}
+            msg={v}
+            index={i}
+            isPicked={v.id === picked?.id}
+            showStats={showStats}
+            onPick={() => {
+              onPick(v.id);
+              setComparing(false);
+            }}
+            onImageClick={onImageClick}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const VariantCard: React.FC<{
+  msg: Message;
+  index: number;
+  isPicked: boolean;
+  showStats: boolean;
+  onPick: () => void;
+  onImageClick: (b: Blob, id: string) => void;
+}> = ({ msg, index, isPicked, showStats, onPick, onImageClick }) => {
+  const images =
+    useLiveQuery(
+      () =>
+        msg.imageIds && msg.imageIds.length > 0
+          ? db.images.where("id").anyOf(msg.imageIds).toArray()
+          : Promise.resolve([]),
+      [msg.imageIds],
+    ) || [];
+  const cover = images[0];
+
+  return (
+    <div
+      className={`flex flex-col gap-2 p-2 rounded-xl border transition-all ${isPicked ? "border-accent bg-accent/5" : msg.error ? "border-danger/50 bg-danger-bg/10" : "border-border-light bg-bg-surface hover:border-text-tertiary"}`}
+    >
+      {msg.error ? (
+        <div className="aspect-square rounded-lg bg-bg-element flex flex-col items-center justify-center gap-2 text-danger">
+          <Icon name="alert" className="w-6 h-6" />
+          <span className="text-xs font-bold">Generation Failed</span>
+        </div>
+      ) : cover ? (
+        <LazyImageThumb
+          blob={cover.blob}
+          thumbnail={cover.thumbnail}
+          mimeType={cover.mimeType}
+          onClick={() => onImageClick(cover.blob, cover.id)}
+          aspectSquare
+        />
+      ) : (
+        <div className="aspect-square rounded-lg bg-bg-element flex items-center justify-center text-text-tertiary">
+          <Icon name="image" className="w-6 h-6 opacity-20" />
+        </div>
+      )}
+      {msg.text && (
+        <p
+          className="text-xs text-text-secondary line-clamp-2"
+          title={msg.text}
+        >
+          {msg.text}
+        </p>
+      )}
+      <div className="flex items-center justify-between gap-2 mt-auto">
+        <span className="text-[10px] font-mono text-text-tertiary">
+          #{index + 1}
+          {showStats && msg.meta?.duration ? ` · ${msg.meta.duration}` : ""}
+          {showStats && msg.meta?.costUsd
+            ? ` · ≈ $${msg.meta.costUsd.toFixed(4)}`
+            : ""}
+        </span>
+        {!msg.error && (
+          <button
+            onClick={onPick}
+            className={`flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium transition-all active:scale-95 ${isPicked ? "bg-accent text-[var(--text-on-accent)]" : "bg-bg-element text-text-secondary hover:text-text-primary hover:bg-accent/20"}`}
+          >
+            <Icon name="check" className="w-3 h-3" />
+            {isPicked ? "Picked" : "Pick"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Results of a batch run: one card per row with its latest reply, opening the row's branch
+const BatchResults: React.FC<{
+  rows: Message[];
+  activeRowId: string;
+  statuses: Record<string, JobStatus>;
+  onOpen: (rowId: string) => void;
+  onStop: (rowIds: string[]) => void;
+  onImageClick: (b: Blob, id: string) => void;
+}> = ({ rows, activeRowId, statuses, onOpen, onStop, onImageClick }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const pending = rows.filter(
+    (r) => statuses[r.id] === "queued" || statuses[r.id] === "running",
+  );
+
+  return (
+    <div className="flex flex-col gap-2 animate-slide-up">
+      <div className="flex items-center justify-between text-xs text-text-secondary select-none">
+        <span className="flex items-center gap-1.5 font-medium">
+          <Icon name="layers" className="w-3.5 h-3.5 text-accent" />
+          Batch · {rows.length} prompts
+          {pending.length > 0 && ` · ${pending.length} running`}
+        </span>
+        <div className="flex items-center gap-3">
+          {pending.length > 0 && (
+            <button
+              onClick={() => onStop(pending.map((r) => r.id))}
+              className="hover:text-danger transition-colors"
+            >
+              Stop
+            </button>
+          )}
+          <button
+            onClick={() => setCollapsed(!collapsed)}
+            className="hover:text-text-primary transition-colors"
+          >
+            {collapsed ? "Show results" : "Hide"}
+          </button>
+        </div>
+      </div>
+      {!collapsed && (
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+          {rows.map((row, i) => (
+            <BatchCard
+              key={row.id}
+              row={row}
+              index={i}
+              status={statuses[row.id]}
+              isActive={row.id === activeRowId}
+              onOpen={() => onOpen(row.id)}
+              onImageClick={onImageClick}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BatchCard: React.FC<{
+  row: Message;
+  index: number;
+  status?: JobStatus;
+  isActive: boolean;
+  onOpen: () => void;
+  onImageClick: (b: Blob, id: string) => void;
+}> = ({ row, index, status, isActive, onOpen, onImageClick }) => {
+  // Latest reply to the row and its first image
+  const reply = useLiveQuery(async () => {
+    const replies = await db.messages
+      .where("parentId")
+      .equals(row.id)
+      .sortBy("timestamp");
+    const latest = replies[replies.length - 1];
+    if (!latest) return null;
+    const cover = latest.imageIds?.length
+      ? await db.images.get(latest.imageIds[0])
+      : undefined;
+    return { msg: latest, cover };
+  }, [row.id]);
+  const running = status === "queued" || status === "running";
+
+  return (
+    <div
+      className={`flex flex-col gap-2 p-2 rounded-xl border transition-all ${isActive ? "border-accent bg-accent/5" : reply?.msg.error && !running ? "border-danger/50 bg-danger-bg/10" : "border-border-light bg-bg-surface hover:border-text-tertiary"}`}
+    >
+      {reply?.cover && !running ? (
+        <LazyImageThumb
+          blob={reply.cover.blob}
+          thumbnail={reply.cover.thumbnail}
+          mimeType={reply.cover.mimeType}
+          onClick={() => onImageClick(reply.cover!.blob, reply.cover!.id)}
+          aspectSquare
+        />
+      ) : (
+        <div
+          className={`aspect-square rounded-lg bg-bg-element flex flex-col items-center justify-center gap-2 ${reply?.msg.error && !running ? "text-danger" : "text-text-tertiary"}`}
+        >
+          {running ? (
+            <>
+              <Icon name="refresh" className="w-5 h-5 animate-spin" />
+              <span className="text-xs">
+                {status === "queued" ? "Queued" : "Generating..."}
+              </span>
+            </>
+          ) : reply?.msg.error ? (
+            <>
+              <Icon name="alert" className="w-6 h-6" />
+              <span className="text-xs font-bold">Generation Failed</span>
+            </>
+          ) : reply ? (
+            <Icon name="image" className="w-6 h-6 opacity-20" />
+          ) : (
+            <span className="text-xs">Not run</span>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-text-secondary line-clamp-2" title={row.text}>
+        {row.text}
+      </p>
+      <div className="flex items-center justify-between gap-2 mt-auto">
+        <span className="text-[10px] font-mono text-text-tertiary">
+          #{index + 1}
+        </span>
+        <button
+          onClick={onOpen}
+          disabled={isActive}
+          className={`flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium transition-all active:scale-95 ${isActive ? "bg-accent text-[var(--text-on-accent)]" : "bg-bg-element text-text-secondary hover:text-text-primary hover:bg-accent/20"}`}
+        >
+          {isActive ? "Shown" : "Open"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Collapsible model reasoning. Stays expanded and auto-scrolls while streaming.
+const ReasoningPanel: React.FC<{
+  thoughts: string;
+  live?: boolean;
+  tokens?: number;
+}> = ({ thoughts, live, tokens }) => {
+  const [expanded, setExpanded] = useState(!!live);
+  const bodyRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (live && expanded && bodyRef.current) {
+      bodyRef.current.scrollTop = bodyRef.current.scrollHeight;
+    }
+  }, [thoughts, live, expanded]);
+
+  return (
+    <div className="mt-2 animate-fade-in">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1.5 text-xs text-text-secondary hover:text-text-primary transition-colors select-none"
+      >
+        <Icon
+          name="brain"
+          className={`w-3.5 h-3.5 text-accent ${live ? "animate-pulse" : ""}`}
+        />
+        <span className="font-medium">
+          {live ? "Reasoning..." : "Reasoning"}
+        </span>
+        {typeof tokens === "number" && tokens > 0 && (
+          <span className="font-mono text-text-tertiary">· {tokens} tok</span>
+        )}
+        <Icon
+          name={expanded ? "chevron-up" : "chevron-down"}
+          className="w-3 h-3"
+        />
+      </button>
+      {expanded && (
+        <div
+          ref={bodyRef}
+          className={`mt-2 max-h-[240px] overflow-y-auto text-xs text-text-secondary font-mono bg-bg-element/30 p-2 rounded-md border-l-2 whitespace-pre-wrap animate-fade-in ${live ? "border-accent/50" : "border-accent/20"}`}
+        >
+          {thoughts}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Web sources and queries behind a search-grounded response
+const CitationsFooter: React.FC<{ grounding: GroundingInfo }> = ({
+  grounding,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const { sources, queries, searchEntryPointHtml } = grounding;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-white/5 text-xs text-text-secondary animate-fade-in">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1.5 font-medium hover:text-text-primary transition-colors select-none"
+      >
+        <Icon name="globe" className="w-3.5 h-3.5 text-accent" />
+        {sources.length} {sources.length === 1 ? "source" : "sources"}
+        {queries.length > 0 &&
+          ` · ${queries.length} ${queries.length === 1 ? "search" : "searches"}`}
+        <Icon
+          name={expanded ? "chevron-up" : "chevron-down"}
+          className="w-3 h-3"
+        />
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          {sources.length > 0 && (
+            <ol className="space-y-1">
+              {sources.map((src, i) => (
+                <li key={`${src.uri}-${i}`} className="flex gap-2 min-w-0">
+                  <span className="font-mono text-text-tertiary">
+                    [{i + 1}]
+                  </span>
+                  <a
+                    href={src.uri}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="truncate hover:text-accent hover:underline"
+                    title={src.uri}
+                  >
+                    {src.title || src.domain || src.uri}
+                  </a>
+                  {src.domain && src.title !== src.domain && (
+                    <span className="shrink-0 text-text-tertiary">
+                      {src.domain}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+          {queries.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {queries.map((q, i) => (
+                <span
+                  key={i}
+                  className="px-2 py-0.5 rounded-full bg-bg-element/50 font-mono text-[10px] text-text-tertiary"
+                >
+                  {q}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {searchEntryPointHtml && (
+        <iframe
+          srcDoc={searchEntryPointHtml}
+          sandbox="allow-popups allow-popups-to-escape-sandbox"
+          className="mt-2 w-full h-[60px] border-0 rounded-lg bg-transparent"
+          title="Google Search Suggestions"
+        />
+      )}
+    </div>
+  );
+};
+
 const MessageItem: React.FC<{
   msg: Message;
+  siblings: Message[];
+  onSwitchBranch: (msgId: string) => void;
   isLast: boolean;
   onEdit: (
     id: string,
@@ -314,26 +856,34 @@ const MessageItem: React.FC<{
   onRegenerate: (id: string) => void;
   onFork: (id: string) => void;
   onDelete: (id: string) => void;
+  isReference: boolean;
+  onToggleReference: (imageIds: string[]) => void;
   showStats: boolean;
   onToggleGallery?: (imageIds: string[]) => void;
   onSavePrompt?: (text: string) => void;
   targetEditMessageId?: string | null;
   onClearEditTarget?: () => void;
+  highlighted?: boolean;
   onRetry: (msgId: string) => void;
   onDragCancel?: () => void;
 }> = ({
   msg,
+  siblings,
+  onSwitchBranch,
   isLast,
   onEdit,
   onImageClick,
   onRegenerate,
   onFork,
   onDelete,
+  isReference,
+  onToggleReference,
   showStats,
   onToggleGallery,
   onSavePrompt,
   targetEditMessageId,
   onClearEditTarget,
+  highlighted,
   onRetry,
   onDragCancel,
 }) => {
@@ -433,10 +983,15 @@ const MessageItem: React.FC<{
   };
 
   const isUser = msg.role === "user";
+  const branchIndex = Math.max(
+    0,
+    siblings.findIndex((m) => m.id === msg.id),
+  );
   const isSaved = images.length > 0 && images.every((i) => i.isGalleryVisible);
 
   return (
     <div
+      data-message-id={msg.id}
       className={`flex flex-col w-full group ${isUser ? "items-end" : "items-start"} animate-slide-up`}
     >
       <div
@@ -444,6 +999,7 @@ const MessageItem: React.FC<{
          ${isUser ? "bg-bg-surface border border-border-light text-text-primary shadow-sm rounded-br-sm" : "bg-transparent pl-0 text-text-primary"}
          ${msg.error ? "border-danger/50 bg-danger-bg/10 text-red-200 shadow-[0_0_15px_rgba(239,68,68,0.1)]" : ""}
          ${isEditing ? "scale-[1.02] shadow-xl ring-1 ring-accent z-10" : "scale-100"}
+         ${highlighted ? "ring-2 ring-accent ring-offset-4 ring-offset-bg-base" : ""}
       `}
       >
         {msg.error && (
@@ -598,12 +1154,30 @@ const MessageItem: React.FC<{
               {msg.text}
             </div>
 
-            {msg.thoughts && !isUser && (
-              <div className="mt-2 text-xs text-text-secondary font-mono bg-bg-element/30 p-2 rounded-md border-l-2 border-accent/20 whitespace-pre-wrap">
-                {msg.thoughts}
+            {isUser && !!msg.presets?.length && (
+              <div
+                className="mt-2 flex flex-wrap items-center gap-1 cursor-help"
+                title={msg.composedPrompt}
+              >
+                <Icon name="magic" className="w-3 h-3 text-text-tertiary" />
+                {msg.presets.map((p) => (
+                  <span
+                    key={p.id}
+                    className="px-1.5 py-0.5 rounded-full bg-accent/10 text-accent text-[10px] font-medium"
+                  >
+                    {p.name}
+                  </span>
+                ))}
               </div>
             )}
 
+            {msg.thoughts && !isUser && (
+              <ReasoningPanel
+                thoughts={msg.thoughts}
+                tokens={msg.meta?.tokens?.thoughts}
+              />
+            )}
+
             {images.length > 0 && (
               <div
                 className={`mt-4 grid gap-2 ${isUser ? "grid-cols-3 sm:grid-cols-4 md:grid-cols-6 max-w-[400px]" : images.length === 1 ? "grid-cols-1 max-w-[300px]" : "grid-cols-2 max-w-[500px]"}`}
@@ -632,6 +1206,10 @@ const MessageItem: React.FC<{
               </div>
             )}
 
+            {msg.meta?.grounding && (
+              <CitationsFooter grounding={msg.meta.grounding} />
+            )}
+
             {msg.meta && !isUser && showStats && (
               <div className="mt-3 pt-3 border-t border-white/5 flex flex-wrap gap-2 text-[10px] font-mono text-text-tertiary select-none animate-fade-in">
                 <div
@@ -640,6 +1218,14 @@ const MessageItem: React.FC<{
                 >
                   <Icon name="brain" className="w-3 h-3 text-accent" />
                   <span>{msg.meta.model}</span>
+                  {msg.meta.requestedModelId && (
+                    <span
+                      className="text-danger"
+                      title={`${msg.meta.requestedModelId} is not available, the default model was used`}
+                    >
+                      · instead of {msg.meta.requestedModelId}
+                    </span>
+                  )}
                   {msg.meta.modelVersion && (
                     <span className="opacity-60">
                       · {msg.meta.modelVersion}
@@ -687,6 +1273,24 @@ const MessageItem: React.FC<{
                     <span>{msg.meta.finishReason}</span>
                   </div>
                 )}
+                {msg.meta.errorCode && (
+                  <div
+                    className="flex items-center gap-1.5 bg-danger-bg px-2 py-1 rounded text-danger"
+                    title="Error Code"
+                  >
+                    <Icon name="alert" className="w-3 h-3" />
+                    <span>{msg.meta.errorCode}</span>
+                  </div>
+                )}
+                {msg.meta.attempts && msg.meta.attempts > 1 && (
+                  <div
+                    className="flex items-center gap-1.5 bg-bg-element/50 px-2 py-1 rounded hover:bg-bg-element transition-colors"
+                    title="Attempts (including automatic retries)"
+                  >
+                    <Icon name="refresh" className="w-3 h-3 text-accent" />
+                    <span>{msg.meta.attempts} attempts</span>
+                  </div>
+                )}
                 {msg.meta.safetyBlocked && (
                   <div
                     className="flex items-center gap-1.5 bg-danger-bg px-2 py-1 rounded text-danger"
@@ -696,6 +1300,24 @@ const MessageItem: React.FC<{
                     <span>Safety Limited</span>
                   </div>
                 )}
+                {msg.meta.safetyRatings?.map((r) => (
+                  <div
+                    key={r.category}
+                    className={`flex items-center gap-1.5 px-2 py-1 rounded transition-colors ${r.blocked ? "bg-danger-bg text-danger" : "bg-bg-element/50 hover:bg-bg-element"}`}
+                    title="Safety Rating"
+                  >
+                    <Icon
+                      name="alert"
+                      className={`w-3 h-3 ${r.blocked ? "" : "text-accent"}`}
+                    />
+                    <span>
+                      {SAFETY_CATEGORIES.find((c) => c.value === r.category)
+                        ?.label || r.category.replace("HARM_CATEGORY_", "")}
+                      : {r.probability || "N/A"}
+                      {r.blocked ? " · Blocked" : ""}
+                    </span>
+                  </div>
+                ))}
               </div>
             )}
           </>
@@ -706,6 +1328,29 @@ const MessageItem: React.FC<{
         <div
           className={`mt-1 flex items-center gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity ${isUser ? "pr-2 justify-end" : "pl-2 justify-start"}`}
         >
+          {siblings.length > 1 && (
+            <div className="flex items-center gap-0.5 mr-1 text-[11px] font-mono text-text-tertiary select-none">
+              <button
+                onClick={() => onSwitchBranch(siblings[branchIndex - 1].id)}
+                disabled={branchIndex === 0}
+                className="p-1 rounded hover:text-text-primary hover:bg-bg-element transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                title="Previous Branch"
+              >
+                <Icon name="chevron-left" className="w-3 h-3" />
+              </button>
+              <span>
+                {branchIndex + 1}/{siblings.length}
+              </span>
+              <button
+                onClick={() => onSwitchBranch(siblings[branchIndex + 1].id)}
+                disabled={branchIndex === siblings.length - 1}
+                className="p-1 rounded hover:text-text-primary hover:bg-bg-element transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                title="Next Branch"
+              >
+                <Icon name="chevron-right" className="w-3 h-3" />
+              </button>
+            </div>
+          )}
           <button
             onClick={() => (isUser ? setIsEditing(true) : onRegenerate(msg.id))}
             className="p-1.5 rounded text-text-secondary hover:text-text-primary hover:bg-bg-element transition-all hover:scale-110 active:scale-95"
@@ -732,6 +1377,19 @@ const MessageItem: React.FC<{
               />
             </button>
           )}
+          {images.length > 0 && (
+            <button
+              onClick={() => onToggleReference(msg.imageIds || [])}
+              className={`p-1.5 rounded transition-all hover:scale-110 active:scale-95 ${isReference ? "text-accent" : "text-text-secondary hover:text-text-primary hover:bg-bg-element"}`}
+              title={
+                isReference
+                  ? "Unpin from References"
+                  : "Pin as Project Reference"
+              }
+            >
+              <Icon name="pin" className="w-3.5 h-3.5" />
+            </button>
+          )}
           {isUser && onSavePrompt && (
             <button
               onClick={handleBookmarkPrompt}
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Icon } from './Icon';
+import { Message } from '../types';
+import { planContext, ContextPlan, ContextTurn } from '../services/contextBuilder';
+
+interface ContextPreviewModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    messages: Message[];
+    pending: { text: string; files: Blob[] };
+    tokenBudget: number;
+    pinnedImageIds?: string[];
+    systemInstruction?: string;
+}
+
+const TURN_LABELS: Record<ContextTurn['kind'], string> = {
+    history: '',
+    summary: 'Summary',
+    pinned: 'Pinned References'
+};
+
+// Pre-flight view of the exact turns the next generation would send
+export const ContextPreviewModal: React.FC<ContextPreviewModalProps> = ({ isOpen, onClose, messages, pending, tokenBudget, pinnedImageIds, systemInstruction }) => {
+    const [plan, setPlan] = useState<ContextPlan | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        setPlan(null);
+        planContext(messages, { tokenBudget, pinnedImageIds, pending })
+            .then(p => { if (!cancelled) setPlan(p); })
+            .catch(e => console.error("Context preview failed", e));
+        return () => { cancelled = true; };
+    }, [isOpen, messages, pending, tokenBudget, pinnedImageIds]);
+
+    if (!isOpen) return null;
+
+    const usedPercent = plan ? Math.min(100, (plan.totalTokens / plan.tokenBudget) * 100) : 0;
+
+    return (
+        <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4 animate-fade-in">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+
+            <div className="relative w-full max-w-2xl bg-bg-surface border border-border-light rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[80vh] animate-slide-up">
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-border-light bg-bg-surface">
+                    <h3 className="font-bold text-text-primary flex items-center gap-2">
+                        <Icon name="layers" className="text-accent" />
+                        Context Preview
+                    </h3>
+                    <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary">
+                        <Icon name="x" />
+                    </button>
+                </div>
+
+                {/* Budget */}
+                {plan && (
+                    <div className="px-4 py-3 border-b border-border-light bg-bg-element/30 space-y-2">
+                        <div className="flex items-center justify-between text-xs font-mono text-text-secondary">
+                            <span>≈ {plan.totalTokens.toLocaleString()} / {plan.tokenBudget.toLocaleString()} tokens</span>
+                            <span>{plan.turns.length} turns</span>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-bg-element overflow-hidden">
+                            <div className={`h-full transition-all ${plan.overBudget ? 'bg-danger' : 'bg-accent'}`} style={{ width: `${usedPercent}%` }}></div>
+                        </div>
+                        {(plan.droppedMessages > 0 || plan.droppedImages > 0 || plan.overBudget) && (
+                            <p className="text-[11px] text-text-tertiary">
+                                {plan.droppedMessages > 0 && `${plan.droppedMessages} older messages summarized. `}
+                                {plan.droppedImages > 0 && `${plan.droppedImages} attachments left out. `}
+                                {plan.overBudget && 'The latest turn and pinned references exceed the budget and are sent anyway.'}
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {/* Turns */}
+                <div className="flex-1 overflow-y-auto p-3 space-y-2 min-h-[300px]">
+                    {!plan ? (
+                        <div className="flex items-center justify-center h-full text-text-tertiary text-sm">Building context...</div>
+                    ) : plan.turns.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center h-full text-text-tertiary">
+                            <Icon name="message" className="w-12 h-12 mb-2 opacity-20" />
+                            <p className="text-sm">Nothing to send yet.</p>
+                        </div>
+                    ) : (
+                        <>
+                            {systemInstruction && (
+                                <div className="p-3 rounded-xl border bg-accent/5 border-accent/30">
+                                    <div className="mb-1.5 text-[10px] font-mono uppercase tracking-wider text-accent">System Instruction</div>
+                                    <p className="text-sm text-text-primary whitespace-pre-wrap break-words">{systemInstruction}</p>
+                                </div>
+                            )}
+                            {plan.turns.map((turn, i) => (
+                                <div key={i} className={`p-3 rounded-xl border ${turn.kind === 'history' ? 'bg-bg-element/30 border-transparent' : 'bg-accent/5 border-accent/30'}`}>
+                                    <div className="flex items-center justify-between mb-1.5 text-[10px] font-mono uppercase tracking-wider">
+                                        <span className={turn.role === 'user' ? 'text-accent' : 'text-text-secondary'}>
+                                            {turn.role}{TURN_LABELS[turn.kind] && ` · ${TURN_LABELS[turn.kind]}`}
+                                        </span>
+                                        <span className="text-text-tertiary">≈ {turn.tokens.toLocaleString()} tok</span>
+                                    </div>
+                                    {turn.parts.map((part, j) => part.kind === 'text' ? (
+                                        <p key={j} className="text-sm text-text-primary whitespace-pre-wrap break-words line-clamp-6">{part.text}</p>
+                                    ) : (
+                                        <span key={j} className="inline-flex items-center gap-1 mr-1.5 mt-1.5 px-2 py-0.5 rounded bg-bg-element text-[10px] font-mono text-text-secondary">
+                                            <Icon name={part.mimeType?.startsWith('image/') ? 'image' : 'file'} className="w-3 h-3" />
+                                            {part.mimeType} · {part.tokens.toLocaleString()}{part.viaFiles && ' · Files API'}
+                                        </span>
+                                    ))}
+                                    {!!turn.imagesDropped && (
+                                        <p className="mt-1.5 text-[10px] text-text-tertiary">{turn.imagesDropped} attachments left out to fit the budget</p>
+                                    )}
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -4,11 +4,19 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
 import { Icon } from './Icon';
 import JSZip from "jszip";
+import { ModalConfig } from '../types';
+import { formatBytes, getStorageEstimate, isNearQuota, StorageEstimate } from '../services/storageService';
+import { addTags, addToCollection, createCollection, deleteCollection, getGalleryTags, parseTags, queryGallery, removeFromCollection, renameCollection } from '../services/collectionService';
+import { ExportScope } from '../services/importExportService';
 
 interface GalleryViewProps {
     onOpenLightbox: (blob: Blob, index: number, context: { blob: Blob, id: string }[]) => void;
     onBulkDelete: (ids: string[]) => void;
     onBulkUnbookmark: (ids: string[]) => void;
+    galleryLimit: number; // 0 = no limit
+    onOpenStorage: () => void;
+    showModal: (config: ModalConfig) => void;
+    onExport: (scope: ExportScope, label: string) => void; // Importable archive, unlike the plain ZIP download
 }
 
 const ITEMS_PER_PAGE = 20;
@@ -73,8 +81,12 @@ const LazyGalleryItem: React.FC<{ blob: Blob | undefined, thumbnail: Blob | unde
     );
 };
 
-export const GalleryView: React.FC<GalleryViewProps> = ({ onOpenLightbox, onBulkDelete, onBulkUnbookmark }) => {
+export const GalleryView: React.FC<GalleryViewProps> = ({ onOpenLightbox, onBulkDelete, onBulkUnbookmark, galleryLimit, onOpenStorage, showModal, onExport }) => {
     const [limit, setLimit] = useState(ITEMS_PER_PAGE);
+    const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+    const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+    const [activeTags, setActiveTags] = useState<string[]>([]);
+    const [collectionMenuOpen, setCollectionMenuOpen] = useState(false);
     const [isMultiSelect, setIsMultiSelect] = useState(false);
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
@@ -82,15 +94,24 @@ export const GalleryView: React.FC<GalleryViewProps> = ({ onOpenLightbox, onBulk
     // 'above(0)' works because timestamps are positive integers
     const totalCount = useLiveQuery(() => db.images.where('galleryTimestamp').above(0).count()) || 0;
 
-    // Load limited images using sparse index (fast)
-    // This avoids scanning non-gallery images entirely
-    const images = useLiveQuery(() =>
-        db.images.orderBy('galleryTimestamp').reverse().limit(limit).toArray(),
-        [limit]
+    // Load limited images using sparse index (fast), narrowed by the collection and tag filters
+    const result = useLiveQuery(
+        () => queryGallery(activeCollectionId, activeTags, limit),
+        [activeCollectionId, activeTags.join(','), limit]
     );
+    const images = result?.images;
+    const filteredCount = result?.total || 0;
 
-    const MAX_LIMIT = 50; // Hard limit for gallery storage per spec is 50 anyway
-    const usagePercent = Math.min((totalCount / MAX_LIMIT) * 100, 100);
+    const collections = useLiveQuery(() => db.collections.orderBy('name').toArray()) || [];
+    const tags = useLiveQuery(() => getGalleryTags(), [totalCount]) || [];
+    const activeCollection = collections.find(c => c.id === activeCollectionId);
+
+    // Real browser storage usage, refreshed as the gallery changes
+    useEffect(() => {
+        getStorageEstimate().then(setEstimate).catch(console.error);
+    }, [totalCount]);
+
+    const usagePercent = estimate && estimate.quota > 0 ? Math.min((estimate.usage / estimate.quota) * 100, 100) : 0;
 
     let barColor = 'bg-green-500';
     if (usagePercent > 70) barColor = 'bg-yellow-500';
@@ -116,7 +137,15 @@ export const GalleryView: React.FC<GalleryViewProps> = ({ onOpenLightbox, onBulk
         if (selectedIds.size === 0) return;
         const zip = new JSZip();
         const selectedImages = images.filter(img => selectedIds.has(img.id));
-        selectedImages.forEach((img, idx) => zip.file(`image_${idx + 1}.png`, img.blob));
+        const folderNames = new Map(collections.map(c => [c.id, c.name.replace(/[\\/:*?"<>|]/g, '_')]));
+
+        // One folder per collection; images in several collections appear in each, the rest at the root
+        selectedImages.forEach((img, idx) => {
+            const name = `image_${idx + 1}.${img.mimeType.split('/')[1] || 'png'}`;
+            const folders = (img.collectionIds || []).map(id => folderNames.get(id)).filter((f): f is string => !!f);
+            if (folders.length === 0) zip.file(name, img.blob);
+            else folders.forEach(folder => zip.file(`${folder}/${name}`, img.blob));
+        });
         const content = await zip.generateAsync({ type: "blob" });
         const url = URL.createObjectURL(content);
         const a = document.createElement('a');
@@ -134,6 +163,63 @@ export const GalleryView: React.FC<GalleryViewProps> = ({ onOpenLightbox, onBulk
         setSelectedIds(new Set());
     };
 
+    const promptCollectionName = (title: string, inputValue: string, onName: (name: string) => void) => {
+        showModal({
+            type: 'prompt',
+            title,
+            inputValue,
+            placeholder: 'Collection name',
+            onConfirm: (val) => { if (val?.trim()) onName(val.trim()); }
+        });
+    };
+
+    const handleNewCollection = () => {
+        promptCollectionName('New Collection', '', async (name) => {
+            const id = await createCollection(name);
+            if (selectedIds.size > 0) await addToCollection(Array.from(selectedIds), id);
+            setActiveCollectionId(id);
+        });
+    };
+
+    const handleDeleteCollection = () => {
+        if (!activeCollection) return;
+        showModal({
+            type: 'confirm',
+            title: 'Delete Collection?',
+            message: `"${activeCollection.name}" will be removed. Its images stay in the gallery.`,
+            confirmText: 'Delete',
+            onConfirm: async () => {
+                await deleteCollection(activeCollection.id);
+                setActiveCollectionId(null);
+            }
+        });
+    };
+
+    const handleBulkAddToCollection = async (collectionId: string) => {
+        await addToCollection(Array.from(selectedIds), collectionId);
+        setCollectionMenuOpen(false);
+    };
+
+    const handleBulkRemoveFromCollection = async () => {
+        if (!activeCollectionId) return;
+        await removeFromCollection(Array.from(selectedIds), activeCollectionId);
+        setSelectedIds(new Set());
+    };
+
+    const handleBulkTag = () => {
+        showModal({
+            type: 'prompt',
+            title: `Tag ${selectedIds.size} ${selectedIds.size === 1 ? 'Image' : 'Images'}`,
+            placeholder: 'e.g. hero, product shot',
+            onConfirm: (val) => { if (val) addTags(Array.from(selectedIds), parseTags(val)); }
+        });
+    };
+
+    const toggleTag = (tag: string) => {
+        setActiveTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+        setLimit(ITEMS_PER_PAGE);
+    };
+
     return (
         <div className="flex-1 overflow-y-auto px-4 pb-4 pt-24 md:pt-16 sm:px-8 sm:pb-8 relative">
             <div className="max-w-7xl mx-auto">
@@ -141,10 +227,16 @@ export const GalleryView: React.FC<GalleryViewProps> = ({ onOpenLightbox, onBulk
                     <div>
                         <h2 className="text-2xl font-bold text-text-primary animate-fade-in">Global Gallery</h2>
                         <div className="flex items-center gap-3 mt-2 text-sm text-text-secondary animate-fade-in" style={{ animationDelay: '0.1s' }}>
-                            <span>Storage: {totalCount} / {MAX_LIMIT}</span>
-                            <div className="w-32 h-2 bg-bg-element rounded-full overflow-hidden">
-                                <div className={`h-full rounded-full transition-all duration-500 ${barColor}`} style={{ width: `${usagePercent}%` }}></div>
-                            </div>
+                            <span>{totalCount}{galleryLimit > 0 && ` / ${galleryLimit}`} images</span>
+                            {estimate?.supported && (
+                                <>
+                                    <div className="w-32 h-2 bg-bg-element rounded-full overflow-hidden" title={`${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)}`}>
+                                        <div className={`h-full rounded-full transition-all duration-500 ${barColor}`} style={{ width: `${usagePercent}%` }}></div>
+                                    </div>
+                                    <span className={isNearQuota(estimate) ? 'text-danger' : ''}>{formatBytes(estimate.usage)} used</span>
+                                </>
+                            )}
+                            <button onClick={onOpenStorage} className="text-accent hover:underline">Manage</button>
                         </div>
                     </div>
 
@@ -160,7 +252,70 @@ export const GalleryView: React.FC<GalleryViewProps> = ({ onOpenLightbox, onBulk
                     )}
                 </div>
 
-                {images.length === 0 ? (
+                {/* Collections */}
+                {totalCount > 0 && (
+                    <div className="flex items-center gap-2 mb-3 overflow-x-auto pb-1 animate-fade-in">
+                        <button
+                            onClick={() => { setActiveCollectionId(null); setLimit(ITEMS_PER_PAGE); }}
+                            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors whitespace-nowrap ${!activeCollectionId ? 'bg-accent text-black border-accent' : 'border-border-light text-text-secondary hover:text-text-primary'}`}
+                        >
+                            All Images
+                        </button>
+                        {collections.map(c => (
+                            <button
+                                key={c.id}
+                                onClick={() => { setActiveCollectionId(c.id); setLimit(ITEMS_PER_PAGE); }}
+                                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors whitespace-nowrap ${activeCollectionId === c.id ? 'bg-accent text-black border-accent' : 'border-border-light text-text-secondary hover:text-text-primary'}`}
+                            >
+                                {c.name}
+                            </button>
+                        ))}
+                        <button onClick={handleNewCollection} className="p-1.5 rounded-full border border-dashed border-border-light text-text-tertiary hover:text-accent hover:border-accent transition-colors" title="New Collection">
+                            <Icon name="plus" className="w-3.5 h-3.5" />
+                        </button>
+                        {activeCollection && (
+                            <>
+                                <div className="h-4 w-px bg-border-light mx-1"></div>
+                                <button onClick={() => promptCollectionName('Rename Collection', activeCollection.name, name => renameCollection(activeCollection.id, name))} className="p-1.5 text-text-tertiary hover:text-text-primary" title="Rename Collection">
+                                    <Icon name="edit" className="w-3.5 h-3.5" />
+                                </button>
+                                <button onClick={() => onExport({ type: 'collection', collectionId: activeCollection.id }, activeCollection.name)} className="p-1.5 text-text-tertiary hover:text-text-primary" title="Export Collection">
+                                    <Icon name="archive" className="w-3.5 h-3.5" />
+                                </button>
+                                <button onClick={handleDeleteCollection} className="p-1.5 text-text-tertiary hover:text-danger" title="Delete Collection">
+                                    <Icon name="trash" className="w-3.5 h-3.5" />
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* Tag filters */}
+                {tags.length > 0 && (
+                    <div className="flex items-center gap-1.5 mb-6 overflow-x-auto pb-1 animate-fade-in">
+                        <Icon name="bookmark" className="w-3.5 h-3.5 text-text-tertiary shrink-0" />
+                        {tags.map(tag => (
+                            <button
+                                key={tag}
+                                onClick={() => toggleTag(tag)}
+                                className={`px-2 py-0.5 rounded-md text-[11px] whitespace-nowrap transition-colors ${activeTags.includes(tag) ? 'bg-accent/20 text-accent' : 'bg-bg-element text-text-secondary hover:text-text-primary'}`}
+                            >
+                                #{tag}
+                            </button>
+                        ))}
+                        {activeTags.length > 0 && (
+                            <button onClick={() => setActiveTags([])} className="px-2 py-0.5 text-[11px] text-text-tertiary hover:text-text-primary whitespace-nowrap">Clear</button>
+                        )}
+                    </div>
+                )}
+
+                {images.length === 0 && totalCount > 0 ? (
+                    <div className="flex flex-col items-center justify-center py-20 text-text-secondary animate-fade-in">
+                        <Icon name="grid" className="w-16 h-16 mb-4 opacity-20" />
+                        <p>No images match.</p>
+                        <p className="text-xs mt-2 text-text-tertiary">{activeCollection ? 'Select images in All Images to add them to this collection.' : 'Try removing a tag filter.'}</p>
+                    </div>
+                ) : images.length === 0 ? (
                     <div className="flex flex-col items-center justify-center py-20 text-text-secondary animate-fade-in">
                         <Icon name="image" className="w-16 h-16 mb-4 opacity-20" />
                         <p>Your gallery is empty.</p>
@@ -185,7 +340,7 @@ export const GalleryView: React.FC<GalleryViewProps> = ({ onOpenLightbox, onBulk
                     </div>
                 )}
 
-                {totalCount > limit && (
+                {filteredCount > limit && (
                     <div className="flex justify-center pb-8">
                         <button
                             onClick={() => setLimit(l => l + ITEMS_PER_PAGE)}
@@ -210,6 +365,38 @@ export const GalleryView: React.FC<GalleryViewProps> = ({ onOpenLightbox, onBulk
                                 <Icon name="download" />
                                 <span className="text-sm font-medium hidden sm:inline">ZIP</span>
                             </button>
+                            <button onClick={() => onExport({ type: 'images', imageIds: Array.from(selectedIds) }, 'selection')} className="flex items-center gap-2 text-text-primary hover:text-accent transition-colors active:scale-95" title="Export Selection (importable, with metadata)">
+                                <Icon name="archive" className="w-4 h-4" />
+                                <span className="text-sm font-medium hidden sm:inline">Export</span>
+                            </button>
+                            <div className="relative">
+                                <button onClick={() => setCollectionMenuOpen(o => !o)} className="flex items-center gap-2 text-text-primary hover:text-accent transition-colors active:scale-95" title="Add to Collection">
+                                    <Icon name="grid" className="w-4 h-4" />
+                                    <span className="text-sm font-medium hidden sm:inline">Collection</span>
+                                </button>
+                                {collectionMenuOpen && (
+                                    <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-52 bg-bg-surface border border-border-light rounded-xl shadow-2xl p-1 max-h-64 overflow-y-auto animate-fade-in">
+                                        {collections.map(c => (
+                                            <button key={c.id} onClick={() => handleBulkAddToCollection(c.id)} className="w-full text-left px-3 py-2 rounded-lg text-sm text-text-primary hover:bg-bg-element truncate">
+                                                {c.name}
+                                            </button>
+                                        ))}
+                                        <button onClick={() => { setCollectionMenuOpen(false); handleNewCollection(); }} className="w-full text-left px-3 py-2 rounded-lg text-sm text-accent hover:bg-bg-element flex items-center gap-2">
+                                            <Icon name="plus" className="w-3.5 h-3.5" /> New Collection
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                            <button onClick={handleBulkTag} className="flex items-center gap-2 text-text-primary hover:text-accent transition-colors active:scale-95" title="Add Tags">
+                                <Icon name="bookmark" className="w-4 h-4" />
+                                <span className="text-sm font-medium hidden sm:inline">Tag</span>
+                            </button>
+                            {activeCollection && (
+                                <button onClick={handleBulkRemoveFromCollection} className="flex items-center gap-2 text-text-secondary hover:text-text-primary transition-colors active:scale-95" title={`Remove from ${activeCollection.name}`}>
+                                    <Icon name="x" className="w-4 h-4" />
+                                    <span className="text-sm font-medium hidden sm:inline">Uncollect</span>
+                                </button>
+                            )}
                             <button onClick={() => handleBulkAction('unbookmark')} className="flex items-center gap-2 text-text-secondary hover:text-text-primary transition-colors active:scale-95" title="Remove from Gallery">
                                 <Icon name="bookmark" className="w-4 h-4 fill-none stroke-current" />
                                 <span className="text-sm font-medium">Remove</span>
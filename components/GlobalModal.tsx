@@ -144,6 +144,7 @@ export const GlobalModal: React.FC<GlobalModalProps> = ({ config, onClose }) =>
                 <ShortcutRow keys={['Alt', '↓']} desc="Next Project" />
                 <ShortcutRow keys={['Alt', '↑']} desc="Prev Project" />
                 <ShortcutRow keys={['Alt', 'P']} desc="Open Settings" />
+                <ShortcutRow keys={['Alt', 'K']} desc="Search Everything" />
               </div>
               <div className="space-y-3">
                 <h4 className="text-xs font-bold text-text-tertiary uppercase tracking-wider">Actions</h4>
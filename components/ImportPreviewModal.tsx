@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Icon } from './Icon';
+import { ImportCounts, ImportOutcome, ImportPolicy, ImportPreview } from '../services/importExportService';
+
+interface ImportPreviewModalProps {
+    fileName: string;
+    preview: ImportPreview | null;
+    onCancel: () => void;
+    onImport: (policy: ImportPolicy) => void;
+}
+
+const POLICIES: { id: ImportPolicy; label: string; desc: string }[] = [
+    { id: 'skip', label: 'Keep mine', desc: 'Conflicting projects stay as they are here. Messages they are missing are still added.' },
+    { id: 'newer', label: 'Keep newer', desc: 'Replace a project here, messages included, when the backup version was updated more recently.' },
+    { id: 'copy', label: 'Import as copies', desc: 'Add the backup version of conflicting projects alongside, with new IDs.' }
+];
+
+const CountRow: React.FC<{ label: string; counts: ImportCounts }> = ({ label, counts }) => (
+    <tr className="border-t border-border-light">
+        <td className="py-1.5 text-text-primary">{label}</td>
+        <td className="py-1.5 text-right font-mono text-accent">{counts.new}</td>
+        <td className="py-1.5 text-right font-mono text-text-tertiary">{counts.duplicate}</td>
+        <td className={`py-1.5 text-right font-mono ${counts.conflict > 0 ? 'text-danger' : 'text-text-tertiary'}`}>{counts.conflict}</td>
+    </tr>
+);
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// What the import writes, e.g. "Adds 2 projects, 14 messages. Replaces 1 project."
+const describeOutcome = (o: ImportOutcome): string => {
+    const added = [
+        o.chats.added && plural(o.chats.added, 'project'),
+        o.messages.added && plural(o.messages.added, 'message'),
+        o.images && plural(o.images, 'image'),
+        o.prompts && plural(o.prompts, 'prompt')
+    ].filter(Boolean);
+    const replaced = [
+        o.chats.replaced && plural(o.chats.replaced, 'project'),
+        o.messages.replaced && plural(o.messages.replaced, 'message')
+    ].filter(Boolean);
+
+    const parts: string[] = [];
+    if (added.length > 0) parts.push(`Adds ${added.join(', ')}.`);
+    if (replaced.length > 0) parts.push(`Replaces ${replaced.join(', ')}.`);
+    if (o.messages.removed > 0) parts.push(`Deletes ${plural(o.messages.removed, 'local message')} the replaced projects have that the backup does not.`);
+    return parts.join(' ');
+};
+
+// Dry-run report shown before an import touches the database
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ fileName, preview, onCancel, onImport }) => {
+    const [policy, setPolicy] = useState<ImportPolicy>('skip');
+
+    const conflicts = preview ? preview.chats.conflict + preview.messages.conflict : 0;
+    const outcome = preview?.outcomes[policy];
+    const result = outcome ? describeOutcome(outcome) : '';
+    const nothingNew = !!preview && !result;
+
+    return (
+        <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4 animate-fade-in">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel}></div>
+
+            <div className="relative w-full max-w-md bg-bg-surface border border-border-light rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-slide-up">
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-border-light bg-bg-surface">
+                    <h3 className="font-bold text-text-primary flex items-center gap-2 min-w-0">
+                        <Icon name="upload" className="text-accent shrink-0" />
+                        <span className="truncate">Import {fileName}</span>
+                    </h3>
+                    <button onClick={onCancel} className="p-1 text-text-secondary hover:text-text-primary">
+                        <Icon name="x" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {!preview ? (
+                        <div className="flex flex-col items-center gap-3 py-10 text-text-tertiary">
+                            <Icon name="refresh" className="w-6 h-6 animate-spin" />
+                            <span className="text-xs">Comparing with your library...</span>
+                        </div>
+                    ) : (
+                        <>
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-[10px] font-bold text-text-tertiary uppercase tracking-wider">
+                                        <th className="pb-1.5 text-left font-bold"></th>
+                                        <th className="pb-1.5 text-right font-bold">New</th>
+                                        <th className="pb-1.5 text-right font-bold">Same</th>
+                                        <th className="pb-1.5 text-right font-bold">Conflict</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    <CountRow label="Projects" counts={preview.chats} />
+                                    <CountRow label="Messages" counts={preview.messages} />
+                                    <CountRow label="Images" counts={preview.images} />
+                                    <CountRow label="Prompts" counts={preview.prompts} />
+                                </tbody>
+                            </table>
+
+                            <p className="text-xs text-text-tertiary">
+                                {preview.exportedAt && `Exported ${new Date(preview.exportedAt).toLocaleString()}. `}
+                                {preview.hasSettings ? 'Includes app settings, which will replace yours (your API key is kept).' : 'Settings are not included.'}
+                                {preview.images.conflict > 0 && ' Conflicting images are kept as they are here.'}
+                                {preview.hasManifest && ' Image files are checked against their recorded hashes before anything is imported.'}
+                            </p>
+
+                            {conflicts > 0 && (
+                                <div className="space-y-2">
+                                    <label className="text-xs font-bold text-accent uppercase tracking-wider block">On Conflict</label>
+                                    {POLICIES.map(p => (
+                                        <button
+                                            key={p.id}
+                                            onClick={() => setPolicy(p.id)}
+                                            className={`w-full text-left p-3 rounded-xl border transition-colors ${policy === p.id ? 'border-accent bg-accent/10' : 'border-border-light hover:border-text-tertiary'}`}
+                                        >
+                                            <div className="flex items-center gap-2 text-sm font-medium text-text-primary">
+                                                <Icon name={policy === p.id ? 'check-circle' : 'circle'} className={`w-4 h-4 ${policy === p.id ? 'text-accent' : 'text-text-tertiary'}`} />
+                                                {p.label}
+                                            </div>
+                                            <p className="text-xs text-text-secondary mt-1 pl-6">{p.desc}</p>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+
+                            {result && (
+                                <p className="text-sm text-text-primary bg-bg-element rounded-xl p-3">{result}</p>
+                            )}
+
+                            {nothingNew && (
+                                <p className="text-sm text-text-secondary text-center py-2">
+                                    {conflicts > 0 ? 'With this choice nothing would be imported.' : 'Everything in this backup is already in your library.'}
+                                </p>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-border-light flex justify-end gap-2">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm text-text-secondary hover:text-text-primary hover:bg-bg-element transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onImport(policy)}
+                        disabled={!preview || (nothingNew && !preview.hasSettings)}
+                        className="px-4 py-2 rounded-lg text-sm font-bold bg-accent text-black hover:opacity-90 transition-opacity disabled:opacity-40"
+                    >
+                        Import
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
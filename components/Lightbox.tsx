@@ -2,6 +2,12 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
 import { Icon } from './Icon';
+import { MaskEditor } from './MaskEditor';
+import { AdjustPanel } from './AdjustPanel';
+import { ImageAdjustments, ModalConfig } from '../types';
+import { MaskEditRequest, findEditParent } from '../services/maskService';
+import { saveAdjustedImage } from '../services/adjustService';
+import { getGallerySlots } from '../services/storageService';
 
 interface LightboxProps {
   isOpen: boolean;
@@ -11,12 +17,18 @@ interface LightboxProps {
   onNext: () => void;
   onPrev: () => void;
   onDelete: (id: string) => void;
+  galleryLimit: number; // 0 = no limit
+  onMaskEdit?: (imageId: string, request: MaskEditRequest) => void;
+  onImageSaved?: (id: string, blob: Blob) => void; // A derived copy was saved, e.g. from Adjust mode
+  onShowLineage?: (id: string) => void;
+  showModal: (config: ModalConfig) => void;
 }
 
-export const Lightbox: React.FC<LightboxProps> = ({ isOpen, onClose, imageBlob, imageId, onNext, onPrev, onDelete }) => {
+export const Lightbox: React.FC<LightboxProps> = ({ isOpen, onClose, imageBlob, imageId, onNext, onPrev, onDelete, galleryLimit, onMaskEdit, onImageSaved, onShowLineage, showModal }) => {
   const [scale, setScale] = useState(1);
   const [origin, setOrigin] = useState({ x: 50, y: 50 });
   const [imgUrl, setImgUrl] = useState<string>('');
+  const [mode, setMode] = useState<'view' | 'mask' | 'adjust'>('view');
   const imgRef = useRef<HTMLImageElement>(null);
 
   // Check gallery status
@@ -26,12 +38,19 @@ export const Lightbox: React.FC<LightboxProps> = ({ isOpen, onClose, imageBlob,
   );
   const isBookmarked = imageData?.isGalleryVisible;
 
+  // A region edit can continue in the project the image came from, if it still has a reply to continue from
+  const originMessage = useLiveQuery(
+      () => imageId ? findEditParent(imageId) : Promise.resolve(undefined),
+      [imageId]
+  );
+
   React.useEffect(() => {
     if (imageBlob) {
       const url = URL.createObjectURL(imageBlob);
       setImgUrl(url);
       setScale(1); // Reset zoom
       setOrigin({ x: 50, y: 50 });
+      setMode('view');
       return () => URL.revokeObjectURL(url);
     }
   }, [imageBlob]);
@@ -40,13 +59,18 @@ export const Lightbox: React.FC<LightboxProps> = ({ isOpen, onClose, imageBlob,
   useEffect(() => {
     if (!isOpen) return;
     const handleKeyDown = (e: KeyboardEvent) => {
+        // The editing modes have their own inputs, Escape only leaves them
+        if (mode !== 'view') {
+            if (e.key === 'Escape') setMode('view');
+            return;
+        }
         if (e.key === 'ArrowRight') onNext();
         if (e.key === 'ArrowLeft') onPrev();
         if (e.key === 'Escape') onClose();
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, onNext, onPrev, onClose]);
+  }, [isOpen, mode, onNext, onPrev, onClose]);
 
   if (!isOpen || !imageBlob) return null;
 
@@ -60,6 +84,30 @@ export const Lightbox: React.FC<LightboxProps> = ({ isOpen, onClose, imageBlob,
     URL.revokeObjectURL(url);
   };
 
+  const isGalleryFull = async () => {
+      if (await getGallerySlots(galleryLimit) > 0) return false;
+      showModal({
+          type: 'alert',
+          title: 'Gallery Full',
+          message: `Gallery is full (${galleryLimit} images). The limit can be changed in Settings.`
+      });
+      return true;
+  };
+
+  const handleSaveAdjusted = async (blob: Blob, adjustments: ImageAdjustments) => {
+      if (!imageId) return;
+      const { id, inGallery } = await saveAdjustedImage(imageId, blob, adjustments, galleryLimit);
+      setMode('view');
+      onImageSaved?.(id, blob);
+      if (!inGallery) {
+          showModal({
+              type: 'alert',
+              title: 'Gallery Full',
+              message: `The adjusted copy is open here but was not added to the gallery, which is full (${galleryLimit} images). Download it, or free a slot and add it to the gallery. The limit can be changed in Settings.`
+          });
+      }
+  };
+
   const handleToggleBookmark = async () => {
       if (!imageId || !imageData) return;
       if (isBookmarked) {
@@ -68,12 +116,7 @@ export const Lightbox: React.FC<LightboxProps> = ({ isOpen, onClose, imageBlob,
               galleryTimestamp: undefined // Remove from sparse index
           });
       } else {
-          // Check limit
-          const count = await db.images.where('galleryTimestamp').above(0).count();
-          if (count >= 50) {
-              alert("Gallery is full (50 images).");
-              return;
-          }
+          if (await isGalleryFull()) return;
           await db.images.update(imageId, { 
               isGalleryVisible: true,
               galleryTimestamp: imageData.createdAt // Add to sparse index
@@ -104,6 +147,28 @@ export const Lightbox: React.FC<LightboxProps> = ({ isOpen, onClose, imageBlob,
     setOrigin({ x, y });
   };
 
+  if (mode !== 'view' && imageId) {
+    return (
+      <div className="fixed inset-0 z-[2000] flex flex-col items-center justify-center animate-fade-in select-none">
+        <div className="absolute inset-0 bg-black/95 backdrop-blur-md"></div>
+        {mode === 'mask' && onMaskEdit ? (
+          <MaskEditor
+            imageBlob={imageBlob}
+            hasOrigin={!!originMessage}
+            onCancel={() => setMode('view')}
+            onSubmit={(request) => onMaskEdit(imageId, request)}
+          />
+        ) : (
+          <AdjustPanel
+            imageBlob={imageBlob}
+            onCancel={() => setMode('view')}
+            onSave={handleSaveAdjusted}
+          />
+        )}
+      </div>
+    );
+  }
+
   return (
     <div 
         className="fixed inset-0 z-[2000] flex flex-col items-center justify-center animate-fade-in select-none"
@@ -161,6 +226,12 @@ export const Lightbox: React.FC<LightboxProps> = ({ isOpen, onClose, imageBlob,
         onClick={(e) => e.stopPropagation()}
       >
         
+        {imageData?.offloadedAt && (
+            <div className="bg-black/60 backdrop-blur-xl px-4 py-1.5 rounded-full border border-white/10 text-xs text-white/70">
+                Preview only · full resolution was offloaded to an export
+            </div>
+        )}
+
         {/* Zoom Slider */}
         <div className="bg-black/60 backdrop-blur-xl px-6 py-2 rounded-full border border-white/10 pointer-events-auto flex items-center gap-3 w-64">
            <Icon name="zoom-out" className="w-4 h-4 text-text-secondary" />
@@ -190,6 +261,21 @@ export const Lightbox: React.FC<LightboxProps> = ({ isOpen, onClose, imageBlob,
             <button onClick={() => setScale(scale > 1 ? 1 : 2.5)} className={`p-2 transition-all active:scale-95 ${scale > 1 ? 'text-accent' : 'text-white hover:text-accent'}`} title="Toggle Zoom">
                 <Icon name={scale > 1 ? 'zoom-out' : 'zoom-in'} />
             </button>
+            {imageId && onMaskEdit && imageData?.mimeType.startsWith('image/') && (
+                <button onClick={() => setMode('mask')} className="p-2 hover:text-accent text-white transition-all active:scale-95" title="Edit Region">
+                    <Icon name="edit" />
+                </button>
+            )}
+            {imageId && imageData?.mimeType.startsWith('image/') && (
+                <button onClick={() => setMode('adjust')} className="p-2 hover:text-accent text-white transition-all active:scale-95" title="Adjust">
+                    <Icon name="sliders" />
+                </button>
+            )}
+            {imageId && onShowLineage && (
+                <button onClick={() => onShowLineage(imageId)} className="p-2 hover:text-accent text-white transition-all active:scale-95" title="Lineage">
+                    <Icon name="branch" />
+                </button>
+            )}
             <button onClick={handleDownload} className="p-2 hover:text-accent text-white transition-all active:scale-95" title="Download">
                 <Icon name="download" />
             </button>
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Icon } from './Icon';
+import { getLineage, LineageNode } from '../services/lineageService';
+import { getModel } from '../services/modelRegistry';
+
+interface LineageModalProps {
+    imageId: string | null;
+    onClose: () => void;
+    onOpenImage: (blob: Blob, id: string) => void;
+    onOpenProject: (chatId: string) => void;
+}
+
+const NodeCard: React.FC<{ node: LineageNode; isFocus?: boolean; onSelect: () => void }> = ({ node, isFocus, onSelect }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        const u = URL.createObjectURL(node.image.thumbnail || node.image.blob);
+        setUrl(u);
+        return () => URL.revokeObjectURL(u);
+    }, [node.image]);
+
+    return (
+        <button
+            onClick={onSelect}
+            className={`shrink-0 w-28 text-left rounded-xl overflow-hidden border transition-all ${isFocus ? 'border-accent ring-2 ring-accent/30' : 'border-border-light hover:border-accent'}`}
+            title={node.prompt || node.chatTitle}
+        >
+            <div className="w-28 h-28 bg-bg-element">
+                {url && <img src={url} alt="" className="w-full h-full object-cover" />}
+            </div>
+            <div className="px-2 py-1.5 bg-bg-element/50">
+                <p className="text-[10px] text-text-primary truncate">{node.chatTitle || 'No project'}</p>
+                <p className="text-[10px] text-text-tertiary truncate">
+                    {node.image.adjustments ? 'Adjusted copy' : node.image.generation ? 'Generated' : 'Uploaded'}
+                </p>
+            </div>
+        </button>
+    );
+};
+
+const Generation: React.FC<{ label: string; nodes: LineageNode[]; onSelect: (node: LineageNode) => void }> = ({ label, nodes, onSelect }) => (
+    <div>
+        <p className="text-[10px] font-bold text-text-tertiary uppercase tracking-wider mb-1.5">{label}</p>
+        <div className="flex gap-2 overflow-x-auto pb-1">
+            {nodes.map(node => <NodeCard key={node.image.id} node={node} onSelect={() => onSelect(node)} />)}
+        </div>
+    </div>
+);
+
+// Walks an image's ancestors and descendants; selecting a card re-centres the view on it
+export const LineageModal: React.FC<LineageModalProps> = ({ imageId, onClose, onOpenImage, onOpenProject }) => {
+    const [focusId, setFocusId] = useState<string | null>(imageId);
+
+    useEffect(() => {
+        setFocusId(imageId);
+    }, [imageId]);
+
+    const lineage = useLiveQuery(() => focusId ? getLineage(focusId) : Promise.resolve(null), [focusId]);
+
+    if (!imageId) return null;
+
+    const focus = lineage?.focus;
+    const generation = focus?.image.generation;
+    const select = (node: LineageNode) => setFocusId(node.image.id);
+
+    return (
+        <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4 animate-fade-in">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+
+            <div className="relative w-full max-w-2xl bg-bg-surface border border-border-light rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-slide-up">
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-border-light bg-bg-surface">
+                    <h3 className="font-bold text-text-primary flex items-center gap-2">
+                        <Icon name="branch" className="text-accent" />
+                        Image Lineage
+                    </h3>
+                    <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary">
+                        <Icon name="x" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {lineage === undefined ? (
+                        <div className="flex justify-center py-12 text-text-tertiary">
+                            <Icon name="refresh" className="w-6 h-6 animate-spin" />
+                        </div>
+                    ) : !lineage || !focus ? (
+                        <p className="text-sm text-text-tertiary text-center py-12">This image no longer exists.</p>
+                    ) : (
+                        <>
+                            {[...lineage.ancestors].reverse().map((nodes, i) => (
+                                <Generation key={`a${i}`} label={i === lineage.ancestors.length - 1 ? 'Sources' : `Sources · ${lineage.ancestors.length - i} back`} nodes={nodes} onSelect={select} />
+                            ))}
+
+                            {/* Focused image */}
+                            <div className="flex gap-4 p-3 rounded-xl bg-bg-element/30 border border-border-light">
+                                <NodeCard node={focus} isFocus onSelect={() => onOpenImage(focus.image.blob, focus.image.id)} />
+                                <div className="flex-1 min-w-0 space-y-1.5 text-xs">
+                                    {generation ? (
+                                        <>
+                                            <p className="text-text-primary whitespace-pre-wrap line-clamp-4">{generation.prompt}</p>
+                                            <p className="text-text-tertiary font-mono">
+                                                {getModel(generation.modelId)?.label ?? generation.modelId} · {generation.aspectRatio} · {generation.resolution}
+                                                {generation.seed !== undefined && ` · seed ${generation.seed}`}
+                                            </p>
+                                        </>
+                                    ) : (
+                                        <p className="text-text-tertiary">No generation parameters recorded for this image.</p>
+                                    )}
+                                    <div className="flex gap-2 pt-1">
+                                        <button onClick={() => onOpenImage(focus.image.blob, focus.image.id)} className="text-accent hover:underline">Open Image</button>
+                                        {focus.chatId && (
+                                            <button onClick={() => onOpenProject(focus.chatId!)} className="text-accent hover:underline">Go to Project</button>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+
+                            {lineage.descendants.map((nodes, i) => (
+                                <Generation key={`d${i}`} label={i === 0 ? 'Derived' : `Derived · ${i + 1} on`} nodes={nodes} onSelect={select} />
+                            ))}
+
+                            {lineage.ancestors.length === 0 && lineage.descendants.length === 0 && (
+                                <p className="text-xs text-text-tertiary text-center">No related images recorded.</p>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
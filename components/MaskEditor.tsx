@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icon } from './Icon';
+import { MaskEditRequest, MaskEditTarget, isMaskEmpty, renderMaskOutputs } from '../services/maskService';
+
+interface MaskEditorProps {
+    imageBlob: Blob;
+    hasOrigin: boolean; // whether the image belongs to a project an edit can continue in
+    onCancel: () => void;
+    onSubmit: (request: MaskEditRequest) => void;
+}
+
+type MaskTool = 'brush' | 'lasso' | 'eraser';
+
+const MAX_UNDO = 20;
+const PAINT_COLOR = '#ff2828';
+
+const TOOLS: { id: MaskTool; label: string; icon: React.ComponentProps<typeof Icon>['name'] }[] = [
+    { id: 'brush', label: 'Brush', icon: 'edit' },
+    { id: 'lasso', label: 'Lasso', icon: 'circle' },
+    { id: 'eraser', label: 'Eraser', icon: 'broom' }
+];
+
+// Paints a mask over the image. The canvas runs at the image's native resolution and is scaled for display.
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageBlob, hasOrigin, onCancel, onSubmit }) => {
+    const [imgUrl, setImgUrl] = useState('');
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState(40);
+    const [instruction, setInstruction] = useState('');
+    const [target, setTarget] = useState<MaskEditTarget>(hasOrigin ? 'origin' : 'new');
+    const [hasMask, setHasMask] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const undoStack = useRef<ImageData[]>([]);
+    const stroke = useRef<{ snapshot: ImageData; points: { x: number; y: number }[] } | null>(null);
+
+    useEffect(() => {
+        const url = URL.createObjectURL(imageBlob);
+        setImgUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [imageBlob]);
+
+    const getCtx = () => canvasRef.current?.getContext('2d', { willReadFrequently: true }) || null;
+
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+        undoStack.current = [];
+        setHasMask(false);
+    };
+
+    // Pointer position in canvas pixels, plus the display-to-canvas scale
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const scale = e.currentTarget.width / rect.width;
+        return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+    };
+
+    const drawStroke = (ctx: CanvasRenderingContext2D, points: { x: number; y: number }[], scale: number) => {
+        ctx.save();
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = PAINT_COLOR;
+        ctx.fillStyle = PAINT_COLOR;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = tool === 'lasso' ? 2 * scale : brushSize * scale;
+
+        ctx.beginPath();
+        points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        if (points.length === 1) ctx.lineTo(points[0].x + 0.1, points[0].y);
+        ctx.stroke();
+        ctx.restore();
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = getCtx();
+        if (!ctx) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+
+        const snapshot = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+        undoStack.current = [...undoStack.current.slice(-(MAX_UNDO - 1)), snapshot];
+
+        const { x, y, scale } = toCanvasPoint(e);
+        stroke.current = { snapshot, points: [{ x, y }] };
+        drawStroke(ctx, stroke.current.points, scale);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = getCtx();
+        if (!ctx || !stroke.current) return;
+        const { x, y, scale } = toCanvasPoint(e);
+        stroke.current.points.push({ x, y });
+
+        // Redraw the whole stroke from the snapshot so the lasso outline can be replaced by its fill later
+        ctx.putImageData(stroke.current.snapshot, 0, 0);
+        drawStroke(ctx, stroke.current.points, scale);
+    };
+
+    const handlePointerUp = () => {
+        const ctx = getCtx();
+        if (!ctx || !stroke.current) return;
+
+        if (tool === 'lasso') {
+            ctx.putImageData(stroke.current.snapshot, 0, 0);
+            if (stroke.current.points.length > 2) {
+                ctx.save();
+                ctx.fillStyle = PAINT_COLOR;
+                ctx.beginPath();
+                stroke.current.points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+                ctx.closePath();
+                ctx.fill();
+                ctx.restore();
+            }
+        }
+
+        stroke.current = null;
+        setHasMask(!isMaskEmpty(ctx.canvas));
+    };
+
+    const handleUndo = () => {
+        const ctx = getCtx();
+        const snapshot = undoStack.current.pop();
+        if (!ctx || !snapshot) return;
+        ctx.putImageData(snapshot, 0, 0);
+        setHasMask(!isMaskEmpty(ctx.canvas));
+    };
+
+    const handleClear = () => {
+        const ctx = getCtx();
+        if (!ctx) return;
+        undoStack.current = [...undoStack.current.slice(-(MAX_UNDO - 1)), ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height)];
+        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        setHasMask(false);
+    };
+
+    const handleSubmit = async () => {
+        if (!canvasRef.current || !hasMask || !instruction.trim()) return;
+        setIsSubmitting(true);
+        try {
+            const { mask, overlay } = await renderMaskOutputs(imageBlob, canvasRef.current);
+            onSubmit({ instruction: instruction.trim(), mask, overlay, target });
+        } catch (e) {
+            console.error("Failed to render mask", e);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="relative z-[2001] w-full h-full flex flex-col items-center justify-center gap-4 p-4" onClick={(e) => e.stopPropagation()}>
+            {/* Canvas */}
+            <div className="relative flex-1 min-h-0 w-full flex items-center justify-center">
+                <div className="relative max-w-full max-h-full">
+                    <img src={imgUrl} alt="Edit Source" onLoad={handleImageLoad} className="block max-w-[90vw] max-h-[calc(100vh-260px)] object-contain rounded-md shadow-2xl" draggable={false} />
+                    <canvas
+                        ref={canvasRef}
+                        className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                    />
+                </div>
+            </div>
+
+            {/* Tools */}
+            <div className="flex flex-wrap items-center justify-center gap-2 bg-black/60 backdrop-blur-xl px-4 py-2 rounded-full border border-white/10">
+                {TOOLS.map(t => (
+                    <button
+                        key={t.id}
+                        onClick={() => setTool(t.id)}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${tool === t.id ? 'bg-accent text-black' : 'text-white hover:text-accent'}`}
+                    >
+                        <Icon name={t.icon} className="w-3.5 h-3.5" />
+                        {t.label}
+                    </button>
+                ))}
+                <div className="w-px bg-white/10 h-5 mx-1"></div>
+                <input
+                    type="range"
+                    min="5"
+                    max="150"
+                    value={brushSize}
+                    disabled={tool === 'lasso'}
+                    onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+                    className="w-24 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer disabled:opacity-30"
+                    title="Brush Size"
+                />
+                <div className="w-px bg-white/10 h-5 mx-1"></div>
+                <button onClick={handleUndo} className="px-2 py-1.5 text-xs text-white hover:text-accent transition-colors" title="Undo">Undo</button>
+                <button onClick={handleClear} className="px-2 py-1.5 text-xs text-white hover:text-danger transition-colors" title="Clear Mask">Clear</button>
+            </div>
+
+            {/* Instruction */}
+            <div className="w-full max-w-2xl flex flex-col gap-2 bg-black/60 backdrop-blur-xl p-3 rounded-2xl border border-white/10">
+                <textarea
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmit(); } }}
+                    placeholder={hasMask ? 'Describe the change for the marked region…' : 'Paint over the region to change, then describe the edit…'}
+                    rows={2}
+                    className="w-full bg-transparent text-sm text-white placeholder-white/40 outline-none resize-none"
+                />
+                <div className="flex items-center gap-2">
+                    <select
+                        value={target}
+                        onChange={(e) => setTarget(e.target.value as MaskEditTarget)}
+                        className="bg-white/10 border border-white/10 rounded-lg px-2 py-1 text-xs text-white outline-none"
+                    >
+                        {hasOrigin && <option value="origin">In original project</option>}
+                        <option value="new">In new project</option>
+                    </select>
+                    <div className="flex-1"></div>
+                    <button onClick={onCancel} className="px-3 py-1.5 rounded-lg text-xs text-white/70 hover:text-white transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSubmit}
+                        disabled={!hasMask || !instruction.trim() || isSubmitting}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-accent text-[var(--text-on-accent)] disabled:opacity-40 disabled:cursor-not-allowed transition-all active:scale-95"
+                    >
+                        <Icon name="send" className="w-3.5 h-3.5" />
+                        Edit Region
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Icon } from './Icon';
+import { StylePreset } from '../types';
+
+interface PresetBarProps {
+    activeIds: string[];
+    onToggle: (preset: StylePreset) => void;
+    onEdit: (preset: StylePreset | null) => void;
+}
+
+// Chip bar of style presets. Active presets are stacked onto the prompt in the order they were switched on.
+export const PresetBar: React.FC<PresetBarProps> = ({ activeIds, onToggle, onEdit }) => {
+    const presets = useLiveQuery(() => db.presets.orderBy('name').toArray()) || [];
+
+    return (
+        <div className="flex items-center gap-1.5 overflow-x-auto pb-2 mb-2 border-b border-border-light scrollbar-thin scrollbar-thumb-bg-element scrollbar-track-transparent">
+            {presets.map(preset => {
+                const order = activeIds.indexOf(preset.id);
+                const isActive = order !== -1;
+                return (
+                    <div
+                        key={preset.id}
+                        className={`group flex items-center shrink-0 rounded-full border text-xs transition-all ${isActive ? 'bg-accent/15 border-accent text-text-primary' : 'bg-bg-element/50 border-transparent text-text-secondary hover:text-text-primary hover:border-border-light'}`}
+                    >
+                        <button onClick={() => onToggle(preset)} className="flex items-center gap-1 pl-2.5 pr-1.5 py-1" title={preset.promptFragment}>
+                            {isActive && activeIds.length > 1 && <span className="font-mono text-[10px] text-accent">{order + 1}</span>}
+                            {preset.name}
+                            {!!preset.referenceImageIds?.length && <Icon name="image" className="w-3 h-3 opacity-60" />}
+                        </button>
+                        <button onClick={() => onEdit(preset)} className="pr-2 py-1 opacity-0 group-hover:opacity-100 hover:text-accent transition-opacity" title="Edit Preset">
+                            <Icon name="edit" className="w-3 h-3" />
+                        </button>
+                    </div>
+                );
+            })}
+            <button
+                onClick={() => onEdit(null)}
+                className="flex items-center gap-1 shrink-0 px-2.5 py-1 rounded-full border border-dashed border-border-light text-xs text-text-tertiary hover:text-accent hover:border-accent transition-colors"
+                title="New Style Preset"
+            >
+                <Icon name="plus" className="w-3 h-3" />
+                {presets.length === 0 && 'Style Preset'}
+            </button>
+        </div>
+    );
+};
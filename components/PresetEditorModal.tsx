@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Icon } from './Icon';
+import { ImageBlob, StylePreset } from '../types';
+import { ASPECT_RATIOS, RESOLUTIONS } from '../constants';
+import { savePreset } from '../services/presetService';
+import { storeReferenceFiles } from '../services/referenceService';
+
+interface PresetEditorModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    preset: StylePreset | null; // null creates a new preset
+    onDelete: (preset: StylePreset) => void;
+    onSkippedFiles: (names: string[]) => void;
+}
+
+const inputClass = "w-full bg-bg-base border border-border-light rounded-lg px-3 py-2 text-sm text-text-primary outline-none focus:border-accent";
+
+const PresetThumb: React.FC<{ image: ImageBlob; onRemove: () => void }> = ({ image, onRemove }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        const u = URL.createObjectURL(image.thumbnail || image.blob);
+        setUrl(u);
+        return () => URL.revokeObjectURL(u);
+    }, [image]);
+
+    return (
+        <div className="group relative w-16 h-16 rounded-lg overflow-hidden border border-border-light bg-bg-element">
+            {url && <img src={url} alt="" className="w-full h-full object-cover" />}
+            <button onClick={onRemove} className="absolute top-0.5 right-0.5 p-0.5 rounded bg-black/60 text-white opacity-0 group-hover:opacity-100 hover:bg-danger transition-all" title="Remove">
+                <Icon name="x" className="w-3 h-3" />
+            </button>
+        </div>
+    );
+};
+
+export const PresetEditorModal: React.FC<PresetEditorModalProps> = ({ isOpen, onClose, preset, onDelete, onSkippedFiles }) => {
+    const [name, setName] = useState('');
+    const [promptFragment, setPromptFragment] = useState('');
+    const [negativePrompt, setNegativePrompt] = useState('');
+    const [aspectRatio, setAspectRatio] = useState('');
+    const [resolution, setResolution] = useState('');
+    const [referenceImageIds, setReferenceImageIds] = useState<string[]>([]);
+    const [isUploading, setIsUploading] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setName(preset?.name || '');
+        setPromptFragment(preset?.promptFragment || '');
+        setNegativePrompt(preset?.negativePrompt || '');
+        setAspectRatio(preset?.aspectRatio || '');
+        setResolution(preset?.resolution || '');
+        setReferenceImageIds(preset?.referenceImageIds || []);
+    }, [isOpen, preset?.id]);
+
+    const images = useLiveQuery(
+        async () => (await db.images.bulkGet(referenceImageIds)).filter((img): img is ImageBlob => !!img),
+        [referenceImageIds.join(',')]
+    ) || [];
+
+    if (!isOpen) return null;
+
+    const handleUpload = async (files: File[]) => {
+        if (files.length === 0) return;
+        setIsUploading(true);
+        try {
+            const { imageIds, skipped } = await storeReferenceFiles(files);
+            setReferenceImageIds(prev => [...prev, ...imageIds]);
+            if (skipped.length > 0) onSkippedFiles(skipped);
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!name.trim()) return;
+        await savePreset({
+            id: preset?.id,
+            name: name.trim(),
+            promptFragment: promptFragment.trim(),
+            negativePrompt: negativePrompt.trim() || undefined,
+            aspectRatio: aspectRatio || undefined,
+            resolution: resolution || undefined,
+            referenceImageIds
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4 animate-fade-in">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+
+            <div className="relative w-full max-w-lg bg-bg-surface border border-border-light rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-slide-up">
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-border-light bg-bg-surface">
+                    <h3 className="font-bold text-text-primary flex items-center gap-2">
+                        <Icon name="magic" className="text-accent" />
+                        {preset ? 'Edit Style Preset' : 'New Style Preset'}
+                    </h3>
+                    <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary">
+                        <Icon name="x" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    <div>
+                        <label className="text-xs text-text-secondary block mb-1">Name</label>
+                        <input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Flat Vector" className={inputClass} autoFocus />
+                    </div>
+                    <div>
+                        <label className="text-xs text-text-secondary block mb-1">Style Prompt</label>
+                        <textarea value={promptFragment} onChange={e => setPromptFragment(e.target.value)} rows={3} placeholder="flat vector illustration, bold outlines, limited palette" className={`${inputClass} resize-y`} />
+                    </div>
+                    <div>
+                        <label className="text-xs text-text-secondary block mb-1">Avoid</label>
+                        <input value={negativePrompt} onChange={e => setNegativePrompt(e.target.value)} placeholder="photorealism, gradients, text" className={inputClass} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-xs text-text-secondary block mb-1">Aspect Ratio</label>
+                            <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value)} className={inputClass}>
+                                <option value="">Project Default</option>
+                                {ASPECT_RATIOS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-xs text-text-secondary block mb-1">Resolution</label>
+                            <select value={resolution} onChange={e => setResolution(e.target.value)} className={inputClass}>
+                                <option value="">Project Default</option>
+                                {RESOLUTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-xs text-text-secondary block mb-1">Reference Images</label>
+                        <div className="flex flex-wrap gap-2">
+                            {images.map(img => (
+                                <PresetThumb key={img.id} image={img} onRemove={() => setReferenceImageIds(prev => prev.filter(id => id !== img.id))} />
+                            ))}
+                            <label className={`w-16 h-16 rounded-lg border-2 border-dashed border-border-light flex items-center justify-center text-text-tertiary hover:text-accent hover:border-accent cursor-pointer transition-colors ${isUploading ? 'opacity-50 pointer-events-none' : ''}`} title="Add Images">
+                                <input type="file" multiple accept="image/*" className="hidden" onChange={(e) => { if (e.target.files) handleUpload(Array.from(e.target.files)); e.target.value = ''; }} />
+                                <Icon name={isUploading ? 'refresh' : 'plus'} className={`w-5 h-5 ${isUploading ? 'animate-spin' : ''}`} />
+                            </label>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between gap-2 p-4 border-t border-border-light">
+                    {preset ? (
+                        <button onClick={() => onDelete(preset)} className="px-3 py-2 rounded-lg text-sm text-text-secondary hover:text-danger hover:bg-danger-bg transition-colors flex items-center gap-1.5">
+                            <Icon name="trash" className="w-4 h-4" /> Delete
+                        </button>
+                    ) : <span />}
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-text-secondary hover:text-text-primary hover:bg-bg-element transition-colors">
+                            Cancel
+                        </button>
+                        <button onClick={handleSave} disabled={!name.trim()} className="px-4 py-2 rounded-lg text-sm font-semibold bg-text-primary text-bg-base hover:bg-accent hover:text-[var(--text-on-accent)] disabled:opacity-50 disabled:cursor-not-allowed transition-all active:scale-95">
+                            Save
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
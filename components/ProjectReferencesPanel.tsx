@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Icon } from './Icon';
+import { Chat, ImageBlob } from '../types';
+import { addReferenceFiles, unpinReferenceImages } from '../services/referenceService';
+
+interface ProjectReferencesPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    chat: Chat | null;
+    onOpenLightbox: (blob: Blob, id: string) => void;
+    onSkippedFiles: (names: string[]) => void;
+}
+
+const ReferenceThumb: React.FC<{ image: ImageBlob; onOpen: () => void; onRemove: () => void }> = ({ image, onOpen, onRemove }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        const u = URL.createObjectURL(image.thumbnail || image.blob);
+        setUrl(u);
+        return () => URL.revokeObjectURL(u);
+    }, [image]);
+
+    return (
+        <div className="group relative aspect-square rounded-xl overflow-hidden border border-border-light bg-bg-element">
+            {url && <img src={url} alt="" className="w-full h-full object-cover cursor-zoom-in" onClick={onOpen} />}
+            <button
+                onClick={onRemove}
+                className="absolute top-1.5 right-1.5 p-1 rounded-md bg-black/60 text-white opacity-0 group-hover:opacity-100 hover:bg-danger transition-all"
+                title="Unpin Reference"
+            >
+                <Icon name="x" className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    );
+};
+
+// Images pinned to the project are sent with every generation, regardless of history length
+export const ProjectReferencesPanel: React.FC<ProjectReferencesPanelProps> = ({ isOpen, onClose, chat, onOpenLightbox, onSkippedFiles }) => {
+    const [isUploading, setIsUploading] = useState(false);
+    const referenceIds = chat?.referenceImageIds || [];
+
+    const images = useLiveQuery(
+        async () => (await db.images.bulkGet(referenceIds)).filter((img): img is ImageBlob => !!img),
+        [referenceIds.join(',')]
+    ) || [];
+
+    if (!isOpen || !chat) return null;
+
+    const handleUpload = async (files: File[]) => {
+        if (files.length === 0) return;
+        setIsUploading(true);
+        try {
+            const skipped = await addReferenceFiles(chat.id, files);
+            if (skipped.length > 0) onSkippedFiles(skipped);
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4 animate-fade-in">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+
+            <div className="relative w-full max-w-lg bg-bg-surface border border-border-light rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[80vh] animate-slide-up">
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-border-light bg-bg-surface">
+                    <h3 className="font-bold text-text-primary flex items-center gap-2">
+                        <Icon name="pin" className="text-accent" />
+                        Project References
+                    </h3>
+                    <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary">
+                        <Icon name="x" />
+                    </button>
+                </div>
+
+                <p className="px-4 py-3 text-xs text-text-secondary border-b border-border-light bg-bg-element/30">
+                    Pinned images are sent ahead of the conversation on every generation, so characters and products stay consistent. Each one adds roughly 1K tokens.
+                </p>
+
+                {/* Grid */}
+                <div
+                    className="flex-1 overflow-y-auto p-4 min-h-[240px]"
+                    onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        handleUpload(Array.from(e.dataTransfer.files));
+                    }}
+                >
+                    <div className="grid grid-cols-3 gap-3">
+                        {images.map(img => (
+                            <ReferenceThumb
+                                key={img.id}
+                                image={img}
+                                onOpen={() => onOpenLightbox(img.blob, img.id)}
+                                onRemove={() => unpinReferenceImages(chat.id, [img.id])}
+                            />
+                        ))}
+                        <label className={`aspect-square rounded-xl border-2 border-dashed border-border-light flex flex-col items-center justify-center gap-1 text-text-tertiary hover:text-accent hover:border-accent cursor-pointer transition-colors ${isUploading ? 'opacity-50 pointer-events-none' : ''}`}>
+                            <input
+                                type="file"
+                                multiple
+                                accept="image/*"
+                                className="hidden"
+                                onChange={(e) => { if (e.target.files) handleUpload(Array.from(e.target.files)); e.target.value = ''; }}
+                            />
+                            <Icon name={isUploading ? 'refresh' : 'upload'} className={`w-6 h-6 ${isUploading ? 'animate-spin' : ''}`} />
+                            <span className="text-[11px] font-medium">{isUploading ? 'Adding...' : 'Add Images'}</span>
+                        </label>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { db } from '../db';
+import { Icon } from './Icon';
+import { Chat, GenConfig } from '../types';
+import { ASPECT_RATIOS, RESOLUTIONS, VARIANT_COUNTS } from '../constants';
+import { getImageModels, resolveGenConfig, resolveProjectModel } from '../services/modelRegistry';
+
+interface ProjectSettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    chat: Chat | null;
+}
+
+const selectClass = "w-full bg-bg-base border border-border-light rounded-lg px-2 py-1.5 text-xs text-text-primary outline-none focus:border-accent disabled:opacity-50";
+
+// Settings that belong to a single project and travel with it (and its forks)
+export const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onClose, chat }) => {
+    const [modelId, setModelId] = useState('');
+    const [genConfig, setGenConfig] = useState<GenConfig | null>(null);
+    const [systemInstruction, setSystemInstruction] = useState('');
+
+    // Start from the saved project state each time the panel opens
+    useEffect(() => {
+        if (!isOpen || !chat) return;
+        const { model, missingId } = resolveProjectModel(chat.modelId);
+        setModelId(missingId || model.id);
+        setGenConfig(resolveGenConfig(model, chat.genConfig));
+        setSystemInstruction(chat.systemInstruction || '');
+    }, [isOpen, chat?.id]);
+
+    if (!isOpen || !chat || !genConfig) return null;
+
+    const { model, missingId } = resolveProjectModel(modelId);
+    const fitted = resolveGenConfig(model, genConfig);
+
+    const handleSave = async () => {
+        await db.chats.update(chat.id, {
+            modelId,
+            genConfig: fitted,
+            systemInstruction: systemInstruction.trim() || undefined
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4 animate-fade-in">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+
+            <div className="relative w-full max-w-lg bg-bg-surface border border-border-light rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-slide-up">
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-border-light bg-bg-surface">
+                    <h3 className="font-bold text-text-primary flex items-center gap-2 min-w-0">
+                        <Icon name="sliders" className="text-accent shrink-0" />
+                        <span className="truncate">Project Settings · {chat.title}</span>
+                    </h3>
+                    <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary">
+                        <Icon name="x" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-5">
+                    {/* Generation */}
+                    <div>
+                        <label className="text-xs font-bold text-accent uppercase tracking-wider mb-2 block">Generation</label>
+                        <div className="grid grid-cols-2 gap-3 bg-bg-element/30 rounded-xl p-4 border border-border-light">
+                            <div>
+                                <label className="text-xs text-text-secondary block mb-1">Model</label>
+                                <select value={modelId} onChange={e => setModelId(e.target.value)} className={selectClass}>
+                                    {missingId && <option value={missingId} disabled>{missingId} (unavailable)</option>}
+                                    {getImageModels().map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                </select>
+                                {missingId && <p className="text-[10px] text-danger mt-1">Not available here, {model.label} is used instead.</p>}
+                            </div>
+                            <div>
+                                <label className="text-xs text-text-secondary block mb-1">Variants</label>
+                                <select value={fitted.variants} onChange={e => setGenConfig({ ...fitted, variants: parseInt(e.target.value, 10) })} className={selectClass}>
+                                    {VARIANT_COUNTS.map(n => <option key={n} value={n}>{n === 1 ? 'Single' : `${n} Variants`}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-xs text-text-secondary block mb-1">Aspect Ratio</label>
+                                <select value={fitted.aspectRatio} onChange={e => setGenConfig({ ...fitted, aspectRatio: e.target.value })} className={selectClass}>
+                                    {ASPECT_RATIOS.filter(r => model.aspectRatios.includes(r.value)).map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-xs text-text-secondary block mb-1">Resolution</label>
+                                <select value={fitted.resolution} disabled={model.resolutions.length < 2} onChange={e => setGenConfig({ ...fitted, resolution: e.target.value })} className={selectClass}>
+                                    {RESOLUTIONS.filter(r => model.resolutions.includes(r.value)).map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* System Instruction */}
+                    <div>
+                        <label className="text-xs font-bold text-accent uppercase tracking-wider mb-2 block">System Instruction</label>
+                        <textarea
+                            value={systemInstruction}
+                            onChange={e => setSystemInstruction(e.target.value)}
+                            placeholder="e.g. House style: flat vector, brand palette #FF6600"
+                            rows={5}
+                            className="w-full bg-bg-base border border-border-light rounded-xl p-3 text-sm text-text-primary outline-none focus:border-accent resize-y"
+                        />
+                        <p className="text-[11px] text-text-tertiary mt-1">Applied to every generation in this project.</p>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-2 p-4 border-t border-border-light">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-text-secondary hover:text-text-primary hover:bg-bg-element transition-colors">
+                        Cancel
+                    </button>
+                    <button onClick={handleSave} className="px-4 py-2 rounded-lg text-sm font-semibold bg-text-primary text-bg-base hover:bg-accent hover:text-[var(--text-on-accent)] transition-all active:scale-95">
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
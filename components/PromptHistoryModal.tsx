@@ -4,17 +4,141 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
 import { Icon } from './Icon';
 import { Prompt } from '../types';
+import { MAX_BATCH_SIZE, TemplateValues, fillTemplate, getMissingVariables, getTemplateVariables, isTemplate, parseBatchValues } from '../services/templateService';
 
 interface PromptHistoryModalProps {
     isOpen: boolean;
     onClose: () => void;
     onSelectPrompt: (text: string) => void;
+    onRunBatch: (template: string, rows: TemplateValues[]) => void;
 }
 
-export const PromptHistoryModal: React.FC<PromptHistoryModalProps> = ({ isOpen, onClose, onSelectPrompt }) => {
+const inputClass = "w-full bg-bg-base border border-border-light rounded-lg px-3 py-2 text-sm text-text-primary outline-none focus:border-accent";
+
+interface TemplateFormProps {
+    template: string;
+    onBack: () => void;
+    onInsert: (text: string) => void;
+    onRunBatch: (rows: TemplateValues[]) => void;
+}
+
+// Fills the {{variables}} of a template, either once or for every row of pasted values
+const TemplateForm: React.FC<TemplateFormProps> = ({ template, onBack, onInsert, onRunBatch }) => {
+    const variables = getTemplateVariables(template);
+    const [mode, setMode] = useState<'single' | 'batch'>('single');
+    const [values, setValues] = useState<TemplateValues>({});
+    const [batchInput, setBatchInput] = useState('');
+
+    const rows = parseBatchValues(batchInput, variables);
+    const incompleteRows = rows.filter(r => getMissingVariables(variables, r).length > 0).length;
+    const canInsert = getMissingVariables(variables, values).length === 0;
+    const canRunBatch = rows.length > 0 && rows.length <= MAX_BATCH_SIZE && incompleteRows === 0;
+
+    return (
+        <>
+            <div className="flex items-center gap-2 px-4 py-2 bg-bg-element/30 border-b border-border-light">
+                <button onClick={onBack} className="p-1 rounded text-text-secondary hover:text-text-primary hover:bg-bg-element" title="Back">
+                    <Icon name="chevron-left" className="w-4 h-4" />
+                </button>
+                <div className="flex gap-1 ml-auto">
+                    {(['single', 'batch'] as const).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => setMode(m)}
+                            className={`text-xs font-medium px-2 py-1 rounded transition-colors ${mode === m ? 'bg-accent text-black' : 'text-text-secondary hover:text-text-primary bg-bg-element'}`}
+                        >
+                            {m === 'single' ? 'Fill In' : 'Batch'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-[300px]">
+                <p className="text-sm text-text-secondary whitespace-pre-wrap bg-bg-element/30 rounded-xl p-3 border border-border-light">{template}</p>
+
+                {mode === 'single' ? (
+                    <>
+                        {variables.map((name, i) => (
+                            <div key={name}>
+                                <label className="text-xs text-text-secondary block mb-1 font-mono">{name}</label>
+                                <input
+                                    value={values[name] || ''}
+                                    onChange={e => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                                    onKeyDown={e => { if (e.key === 'Enter' && canInsert) onInsert(fillTemplate(template, values)); }}
+                                    className={inputClass}
+                                    autoFocus={i === 0}
+                                />
+                            </div>
+                        ))}
+                        <div>
+                            <label className="text-xs text-text-secondary block mb-1">Preview</label>
+                            <p className="text-sm text-text-primary whitespace-pre-wrap">{fillTemplate(template, values)}</p>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div>
+                            <label className="text-xs text-text-secondary block mb-1">
+                                {variables.length === 1
+                                    ? `One ${variables[0]} per line`
+                                    : `CSV rows (${variables.join(', ')}), optionally with a header row`}
+                            </label>
+                            <textarea
+                                value={batchInput}
+                                onChange={e => setBatchInput(e.target.value)}
+                                rows={6}
+                                placeholder={variables.length === 1 ? 'red sneaker\nblue sneaker' : `${variables.join(',')}\n...`}
+                                className={`${inputClass} font-mono text-xs resize-y`}
+                                autoFocus
+                            />
+                            <p className={`text-[11px] mt-1 ${incompleteRows > 0 || rows.length > MAX_BATCH_SIZE ? 'text-danger' : 'text-text-tertiary'}`}>
+                                {rows.length} {rows.length === 1 ? 'prompt' : 'prompts'}
+                                {incompleteRows > 0 && ` · ${incompleteRows} missing values`}
+                                {rows.length > MAX_BATCH_SIZE && ` · at most ${MAX_BATCH_SIZE} per batch`}
+                            </p>
+                        </div>
+                        {rows.length > 0 && (
+                            <div className="space-y-1">
+                                {rows.slice(0, 3).map((row, i) => (
+                                    <p key={i} className="text-xs text-text-primary truncate">{i + 1}. {fillTemplate(template, row)}</p>
+                                ))}
+                                {rows.length > 3 && <p className="text-xs text-text-tertiary">… and {rows.length - 3} more</p>}
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+
+            <div className="p-3 bg-bg-surface border-t border-border-light flex justify-end">
+                {mode === 'single' ? (
+                    <button
+                        onClick={() => onInsert(fillTemplate(template, values))}
+                        disabled={!canInsert}
+                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-text-primary text-bg-base disabled:opacity-50 hover:bg-accent hover:text-[var(--text-on-accent)] transition-colors"
+                    >
+                        Insert Prompt
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => onRunBatch(rows)}
+                        disabled={!canRunBatch}
+                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-text-primary text-bg-base disabled:opacity-50 hover:bg-accent hover:text-[var(--text-on-accent)] transition-colors flex items-center gap-1.5"
+                    >
+                        <Icon name="layers" className="w-3.5 h-3.5" />
+                        Generate {rows.length || ''} in New Project
+                    </button>
+                )}
+            </div>
+        </>
+    );
+};
+
+export const PromptHistoryModal: React.FC<PromptHistoryModalProps> = ({ isOpen, onClose, onSelectPrompt, onRunBatch }) => {
     const [activeTab, setActiveTab] = useState<'recent' | 'saved'>('recent');
     const [isMultiSelect, setIsMultiSelect] = useState(false);
     const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+    const [template, setTemplate] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
 
     // Fetch prompts based on tab
     const prompts = useLiveQuery(
@@ -35,6 +159,11 @@ export const PromptHistoryModal: React.FC<PromptHistoryModalProps> = ({ isOpen,
 
     if (!isOpen) return null;
 
+    const handleClose = () => {
+        setTemplate(null);
+        onClose();
+    };
+
     const toggleSelection = (id: number) => {
         const newSet = new Set(selectedIds);
         if (newSet.has(id)) {
@@ -73,6 +202,17 @@ export const PromptHistoryModal: React.FC<PromptHistoryModalProps> = ({ isOpen,
         }
     };
 
+    // Saved prompts can be written directly, so templates don't have to be sent first
+    const handleAddSaved = async () => {
+        const text = draft.trim();
+        if (!text) return;
+        const existing = await db.prompts.where({ type: 'saved', text }).first();
+        if (!existing) {
+            await db.prompts.add({ text, type: 'saved', timestamp: Date.now() });
+        }
+        setDraft('');
+    };
+
     const handleDelete = async (id: number) => {
         await db.prompts.delete(id);
     };
@@ -94,7 +234,7 @@ export const PromptHistoryModal: React.FC<PromptHistoryModalProps> = ({ isOpen,
 
     return (
         <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4 animate-fade-in">
-            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={handleClose}></div>
 
             <div className="relative w-full max-w-lg bg-bg-surface border border-border-light rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[80vh] animate-slide-up">
 
@@ -102,138 +242,174 @@ export const PromptHistoryModal: React.FC<PromptHistoryModalProps> = ({ isOpen,
                 <div className="flex items-center justify-between p-4 border-b border-border-light bg-bg-surface">
                     <h3 className="font-bold text-text-primary flex items-center gap-2">
                         <Icon name="clock" className="text-accent" />
-                        Prompt History
+                        {template ? 'Prompt Template' : 'Prompt History'}
                     </h3>
-                    <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary">
+                    <button onClick={handleClose} className="p-1 text-text-secondary hover:text-text-primary">
                         <Icon name="x" />
                     </button>
                 </div>
 
-                {/* Tabs */}
-                <div className="flex border-b border-border-light">
-                    <button
-                        onClick={() => { setActiveTab('recent'); setIsMultiSelect(false); setSelectedIds(new Set()); }}
-                        className={`flex-1 py-3 text-sm font-medium transition-colors border-b-2 ${activeTab === 'recent' ? 'border-accent text-text-primary bg-bg-element/50' : 'border-transparent text-text-secondary hover:bg-bg-element hover:text-text-primary'}`}
-                    >
-                        Recent
-                    </button>
-                    <button
-                        onClick={() => { setActiveTab('saved'); setIsMultiSelect(false); setSelectedIds(new Set()); }}
-                        className={`flex-1 py-3 text-sm font-medium transition-colors border-b-2 ${activeTab === 'saved' ? 'border-accent text-text-primary bg-bg-element/50' : 'border-transparent text-text-secondary hover:bg-bg-element hover:text-text-primary'}`}
-                    >
-                        Saved Prompts
-                    </button>
-                </div>
-
-                {/* Toolbar */}
-                {prompts.length > 0 && (
-                    <div className="flex items-center justify-between px-4 py-2 bg-bg-element/30 border-b border-border-light">
-                        <button
-                            onClick={() => setIsMultiSelect(!isMultiSelect)}
-                            className={`text-xs font-medium px-2 py-1 rounded transition-colors flex items-center gap-1 ${isMultiSelect ? 'bg-accent text-black' : 'text-text-secondary hover:text-text-primary bg-bg-element'}`}
-                        >
-                            <Icon name="check-circle" className="w-3 h-3" />
-                            Multi-Select
-                        </button>
-                        {!isMultiSelect && activeTab === 'recent' && (
+                {template ? (
+                    <TemplateForm
+                        template={template}
+                        onBack={() => setTemplate(null)}
+                        onInsert={(text) => { onSelectPrompt(text); handleClose(); }}
+                        onRunBatch={(rows) => { onRunBatch(template, rows); handleClose(); }}
+                    />
+                ) : (
+                    <>
+                        {/* Tabs */}
+                        <div className="flex border-b border-border-light">
                             <button
-                                onClick={handleClearRecent}
-                                className="text-xs font-medium px-2 py-1 rounded text-text-secondary hover:text-danger hover:bg-danger-bg transition-colors"
+                                onClick={() => { setActiveTab('recent'); setIsMultiSelect(false); setSelectedIds(new Set()); }}
+                                className={`flex-1 py-3 text-sm font-medium transition-colors border-b-2 ${activeTab === 'recent' ? 'border-accent text-text-primary bg-bg-element/50' : 'border-transparent text-text-secondary hover:bg-bg-element hover:text-text-primary'}`}
                             >
-                                Clear All
+                                Recent
                             </button>
+                            <button
+                                onClick={() => { setActiveTab('saved'); setIsMultiSelect(false); setSelectedIds(new Set()); }}
+                                className={`flex-1 py-3 text-sm font-medium transition-colors border-b-2 ${activeTab === 'saved' ? 'border-accent text-text-primary bg-bg-element/50' : 'border-transparent text-text-secondary hover:bg-bg-element hover:text-text-primary'}`}
+                            >
+                                Saved Prompts
+                            </button>
+                        </div>
+
+                        {/* New Saved Prompt */}
+                        {activeTab === 'saved' && !isMultiSelect && (
+                            <div className="flex gap-2 px-4 py-2 border-b border-border-light">
+                                <input
+                                    value={draft}
+                                    onChange={e => setDraft(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') handleAddSaved(); }}
+                                    placeholder="New prompt, e.g. {{subject}} on a white background"
+                                    className={`${inputClass} py-1.5`}
+                                />
+                                <button
+                                    onClick={handleAddSaved}
+                                    disabled={!draft.trim()}
+                                    className="shrink-0 p-2 rounded-lg text-text-secondary hover:text-accent hover:bg-bg-element disabled:opacity-50 transition-colors"
+                                    title="Save Prompt"
+                                >
+                                    <Icon name="plus" className="w-4 h-4" />
+                                </button>
+                            </div>
                         )}
-                    </div>
-                )}
 
-                {/* List */}
-                <div className="flex-1 overflow-y-auto p-2 space-y-2 min-h-[300px]">
-                    {prompts.length === 0 ? (
-                        <div className="flex flex-col items-center justify-center h-full text-text-tertiary">
-                            <Icon name={activeTab === 'recent' ? 'history' : 'bookmark'} className="w-12 h-12 mb-2 opacity-20" />
-                            <p className="text-sm">No {activeTab} prompts found.</p>
-                        </div>
-                    ) : (
-                        prompts.map(prompt => (
-                            <div
-                                key={prompt.id}
-                                className={`group relative flex items-center p-3 rounded-xl border transition-all ${isMultiSelect && selectedIds.has(prompt.id!) ? 'bg-accent/10 border-accent' : 'bg-bg-element/30 border-transparent hover:bg-bg-element hover:border-border-light'}`}
-                            >
-                                {/* Multi-Select Checkbox */}
-                                {isMultiSelect && (
+                        {/* Toolbar */}
+                        {prompts.length > 0 && (
+                            <div className="flex items-center justify-between px-4 py-2 bg-bg-element/30 border-b border-border-light">
+                                <button
+                                    onClick={() => setIsMultiSelect(!isMultiSelect)}
+                                    className={`text-xs font-medium px-2 py-1 rounded transition-colors flex items-center gap-1 ${isMultiSelect ? 'bg-accent text-black' : 'text-text-secondary hover:text-text-primary bg-bg-element'}`}
+                                >
+                                    <Icon name="check-circle" className="w-3 h-3" />
+                                    Multi-Select
+                                </button>
+                                {!isMultiSelect && activeTab === 'recent' && (
                                     <button
-                                        onClick={() => toggleSelection(prompt.id!)}
-                                        className="mr-3 text-text-secondary hover:text-accent"
+                                        onClick={handleClearRecent}
+                                        className="text-xs font-medium px-2 py-1 rounded text-text-secondary hover:text-danger hover:bg-danger-bg transition-colors"
                                     >
-                                        <Icon name={selectedIds.has(prompt.id!) ? "check-circle" : "circle"} className={selectedIds.has(prompt.id!) ? "text-accent" : ""} />
+                                        Clear All
                                     </button>
                                 )}
+                            </div>
+                        )}
 
-                                {/* Prompt Text */}
-                                <div
-                                    className="flex-1 cursor-pointer min-w-0 pr-2"
-                                    onClick={() => {
-                                        if (isMultiSelect) toggleSelection(prompt.id!);
-                                        else {
-                                            onSelectPrompt(prompt.text);
-                                            onClose();
-                                        }
-                                    }}
-                                >
-                                    <p className="text-sm text-text-primary truncate">{prompt.text}</p>
-                                    <p className="text-[10px] text-text-tertiary mt-0.5">
-                                        {new Date(prompt.timestamp).toLocaleDateString()} • {new Date(prompt.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                                    </p>
+                        {/* List */}
+                        <div className="flex-1 overflow-y-auto p-2 space-y-2 min-h-[300px]">
+                            {prompts.length === 0 ? (
+                                <div className="flex flex-col items-center justify-center h-full text-text-tertiary">
+                                    <Icon name={activeTab === 'recent' ? 'history' : 'bookmark'} className="w-12 h-12 mb-2 opacity-20" />
+                                    <p className="text-sm">No {activeTab} prompts found.</p>
                                 </div>
-
-                                {/* Item Actions */}
-                                {!isMultiSelect && (
-                                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                        {activeTab === 'recent' && (
+                            ) : (
+                                prompts.map(prompt => (
+                                    <div
+                                        key={prompt.id}
+                                        className={`group relative flex items-center p-3 rounded-xl border transition-all ${isMultiSelect && selectedIds.has(prompt.id!) ? 'bg-accent/10 border-accent' : 'bg-bg-element/30 border-transparent hover:bg-bg-element hover:border-border-light'}`}
+                                    >
+                                        {/* Multi-Select Checkbox */}
+                                        {isMultiSelect && (
                                             <button
-                                                onClick={(e) => { e.stopPropagation(); handleToggleSaved(prompt); }}
-                                                className={`p-1.5 rounded-md transition-colors hover:bg-bg-surface ${isSaved(prompt.text) ? 'text-accent' : 'text-text-secondary hover:text-accent'}`}
-                                                title={isSaved(prompt.text) ? "Remove from Saved" : "Bookmark to Saved"}
+                                                onClick={() => toggleSelection(prompt.id!)}
+                                                className="mr-3 text-text-secondary hover:text-accent"
                                             >
-                                                <Icon name="bookmark" className={`w-4 h-4 ${isSaved(prompt.text) ? 'fill-current' : ''}`} />
+                                                <Icon name={selectedIds.has(prompt.id!) ? "check-circle" : "circle"} className={selectedIds.has(prompt.id!) ? "text-accent" : ""} />
                                             </button>
                                         )}
-                                        <button
-                                            onClick={(e) => { e.stopPropagation(); handleDelete(prompt.id!); }}
-                                            className="p-1.5 rounded-md text-text-secondary hover:text-danger hover:bg-danger-bg"
-                                            title="Delete"
+
+                                        {/* Prompt Text */}
+                                        <div
+                                            className="flex-1 cursor-pointer min-w-0 pr-2"
+                                            onClick={() => {
+                                                if (isMultiSelect) toggleSelection(prompt.id!);
+                                                else if (isTemplate(prompt.text)) setTemplate(prompt.text);
+                                                else {
+                                                    onSelectPrompt(prompt.text);
+                                                    onClose();
+                                                }
+                                            }}
                                         >
-                                            <Icon name="trash" className="w-4 h-4" />
-                                        </button>
-                                    </div>
-                                )}
-                            </div>
-                        ))
-                    )}
-                </div>
+                                            <p className="text-sm text-text-primary truncate">
+                                                {isTemplate(prompt.text) && <span className="mr-1.5 px-1.5 py-0.5 rounded bg-accent/10 text-accent text-[10px] font-mono align-middle">{'{{ }}'}</span>}
+                                                {prompt.text}
+                                            </p>
+                                            <p className="text-[10px] text-text-tertiary mt-0.5">
+                                                {new Date(prompt.timestamp).toLocaleDateString()} • {new Date(prompt.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                            </p>
+                                        </div>
 
-                {/* Multi-Select Footer */}
-                {isMultiSelect && (
-                    <div className="p-3 bg-bg-surface border-t border-border-light flex items-center justify-between animate-slide-up">
-                        <button onClick={handleSelectAll} className="text-xs font-medium text-text-secondary hover:text-text-primary px-2">
-                            {selectedIds.size === prompts.length ? 'Deselect All' : 'Select All'}
-                        </button>
-                        <div className="flex gap-2">
-                            <button
-                                onClick={() => { setIsMultiSelect(false); setSelectedIds(new Set()); }}
-                                className="px-3 py-1.5 rounded-lg text-xs font-medium text-text-secondary hover:bg-bg-element"
-                            >
-                                Cancel
-                            </button>
-                            <button
-                                onClick={handleBulkDelete}
-                                disabled={selectedIds.size === 0}
-                                className="px-3 py-1.5 rounded-lg text-xs font-bold bg-danger text-white disabled:opacity-50 hover:brightness-110"
-                            >
-                                Delete ({selectedIds.size})
-                            </button>
+                                        {/* Item Actions */}
+                                        {!isMultiSelect && (
+                                            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                {activeTab === 'recent' && (
+                                                    <button
+                                                        onClick={(e) => { e.stopPropagation(); handleToggleSaved(prompt); }}
+                                                        className={`p-1.5 rounded-md transition-colors hover:bg-bg-surface ${isSaved(prompt.text) ? 'text-accent' : 'text-text-secondary hover:text-accent'}`}
+                                                        title={isSaved(prompt.text) ? "Remove from Saved" : "Bookmark to Saved"}
+                                                    >
+                                                        <Icon name="bookmark" className={`w-4 h-4 ${isSaved(prompt.text) ? 'fill-current' : ''}`} />
+                                                    </button>
+                                                )}
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); handleDelete(prompt.id!); }}
+                                                    className="p-1.5 rounded-md text-text-secondary hover:text-danger hover:bg-danger-bg"
+                                                    title="Delete"
+                                                >
+                                                    <Icon name="trash" className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                ))
+                            )}
                         </div>
-                    </div>
+
+                        {/* Multi-Select Footer */}
+                        {isMultiSelect && (
+                            <div className="p-3 bg-bg-surface border-t border-border-light flex items-center justify-between animate-slide-up">
+                                <button onClick={handleSelectAll} className="text-xs font-medium text-text-secondary hover:text-text-primary px-2">
+                                    {selectedIds.size === prompts.length ? 'Deselect All' : 'Select All'}
+                                </button>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => { setIsMultiSelect(false); setSelectedIds(new Set()); }}
+                                        className="px-3 py-1.5 rounded-lg text-xs font-medium text-text-secondary hover:bg-bg-element"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={handleBulkDelete}
+                                        disabled={selectedIds.size === 0}
+                                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-danger text-white disabled:opacity-50 hover:brightness-110"
+                                    >
+                                        Delete ({selectedIds.size})
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </>
                 )}
             </div>
         </div>
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icon } from './Icon';
+import { db } from '../db';
+import { search, getSnippet, highlightTokens, SearchResults } from '../services/searchService';
+
+interface SearchPaletteProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onOpenProject: (chatId: string) => void;
+    onOpenMessage: (chatId: string, messageId: string) => void;
+    onUsePrompt: (text: string) => void;
+}
+
+type SearchItem =
+    | { kind: 'project'; chatId: string }
+    | { kind: 'message'; chatId: string; messageId: string }
+    | { kind: 'prompt'; text: string };
+
+const Thumb: React.FC<{ imageId: string }> = ({ imageId }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        let u: string | null = null;
+        let cancelled = false;
+        db.images.get(imageId).then(img => {
+            if (!img || cancelled) return;
+            u = URL.createObjectURL(img.thumbnail || img.blob);
+            setUrl(u);
+        });
+        return () => {
+            cancelled = true;
+            if (u) URL.revokeObjectURL(u);
+        };
+    }, [imageId]);
+
+    return (
+        <div className="w-10 h-10 rounded-md overflow-hidden bg-bg-element shrink-0 border border-border-light">
+            {url && <img src={url} alt="" className="w-full h-full object-cover" />}
+        </div>
+    );
+};
+
+const Highlighted: React.FC<{ text: string; tokens: string[] }> = ({ text, tokens }) => (
+    <>
+        {highlightTokens(text, tokens).map((part, i) =>
+            part.match ? <mark key={i} className="bg-accent/30 text-text-primary rounded-sm">{part.text}</mark> : <React.Fragment key={i}>{part.text}</React.Fragment>
+        )}
+    </>
+);
+
+// Searches every project, message and prompt; arrow keys move through the flat result list
+export const SearchPalette: React.FC<SearchPaletteProps> = ({ isOpen, onClose, onOpenProject, onOpenMessage, onUsePrompt }) => {
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<SearchResults | null>(null);
+    const [selected, setSelected] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setQuery('');
+            setResults(null);
+        }
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            search(query).then(r => {
+                if (cancelled) return;
+                setResults(r);
+                setSelected(0);
+            }).catch(console.error);
+        }, 150);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [query, isOpen]);
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [selected]);
+
+    if (!isOpen) return null;
+
+    const tokens = results?.tokens || [];
+    const items: SearchItem[] = [];
+    results?.projects.forEach(p => {
+        items.push({ kind: 'project', chatId: p.chat.id });
+        p.messages.forEach(h => items.push({ kind: 'message', chatId: p.chat.id, messageId: h.message.id }));
+    });
+    results?.prompts.forEach(p => items.push({ kind: 'prompt', text: p.text }));
+
+    const choose = (item: SearchItem) => {
+        if (item.kind === 'project') onOpenProject(item.chatId);
+        else if (item.kind === 'message') onOpenMessage(item.chatId, item.messageId);
+        else onUsePrompt(item.text);
+        onClose();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.stopPropagation();
+            onClose();
+        } else if (e.key === 'ArrowDown' && items.length > 0) {
+            e.preventDefault();
+            setSelected(s => (s + 1) % items.length);
+        } else if (e.key === 'ArrowUp' && items.length > 0) {
+            e.preventDefault();
+            setSelected(s => (s - 1 + items.length) % items.length);
+        } else if (e.key === 'Enter' && items[selected]) {
+            e.preventDefault();
+            choose(items[selected]);
+        }
+    };
+
+    let index = 0;
+    const rowClass = (i: number) => `w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors ${i === selected ? 'bg-bg-element' : 'hover:bg-bg-element/50'}`;
+
+    return (
+        <div className="fixed inset-0 z-[3000] flex items-start justify-center p-4 pt-[12vh] animate-fade-in">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+
+            <div className="relative w-full max-w-2xl bg-bg-surface border border-border-light rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[70vh] animate-slide-up" onKeyDown={handleKeyDown}>
+
+                {/* Query */}
+                <div className="flex items-center gap-3 px-4 py-3 border-b border-border-light">
+                    <Icon name="search" className="text-text-tertiary shrink-0" />
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search projects, prompts and messages..."
+                        className="flex-1 bg-transparent text-text-primary outline-none placeholder-text-tertiary"
+                    />
+                    <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary">
+                        <Icon name="x" />
+                    </button>
+                </div>
+
+                <div ref={listRef} className="flex-1 overflow-y-auto p-2">
+                    {!query.trim() ? (
+                        <p className="text-sm text-text-tertiary text-center py-10">Type to search. Words match by their beginning.</p>
+                    ) : results && items.length === 0 ? (
+                        <p className="text-sm text-text-tertiary text-center py-10">No results for "{query.trim()}".</p>
+                    ) : (
+                        <>
+                            {results?.projects.map(p => {
+                                const projectIndex = index++;
+                                return (
+                                    <div key={p.chat.id} className="mb-2">
+                                        <button data-index={projectIndex} onClick={() => choose(items[projectIndex])} onMouseEnter={() => setSelected(projectIndex)} className={rowClass(projectIndex)}>
+                                            <Icon name="layers" className="w-4 h-4 text-accent shrink-0" />
+                                            <span className="flex-1 min-w-0 truncate text-sm font-semibold text-text-primary">
+                                                {p.titleMatch ? <Highlighted text={p.chat.title || 'Untitled Project'} tokens={tokens} /> : (p.chat.title || 'Untitled Project')}
+                                            </span>
+                                            {!!p.chat.archived && <span className="text-[10px] text-text-tertiary shrink-0">Archived</span>}
+                                            {p.messages.length > 0 && <span className="text-[10px] text-text-tertiary shrink-0">{p.messages.length} {p.messages.length === 1 ? 'match' : 'matches'}</span>}
+                                        </button>
+                                        {p.messages.map(({ message, imageIds }) => {
+                                            const i = index++;
+                                            return (
+                                                <button key={message.id} data-index={i} onClick={() => choose(items[i])} onMouseEnter={() => setSelected(i)} className={`${rowClass(i)} pl-10`}>
+                                                    <div className="flex-1 min-w-0">
+                                                        <p className="text-xs text-text-secondary line-clamp-2">
+                                                            <Highlighted text={getSnippet(message.text, tokens)} tokens={tokens} />
+                                                        </p>
+                                                        <p className="text-[10px] text-text-tertiary mt-0.5">
+                                                            {message.role === 'user' ? 'Prompt' : 'Response'} · {new Date(message.timestamp).toLocaleDateString()}
+                                                        </p>
+                                                    </div>
+                                                    {imageIds.length > 0 && (
+                                                        <div className="flex gap-1 shrink-0">
+                                                            {imageIds.map(id => <Thumb key={id} imageId={id} />)}
+                                                        </div>
+                                                    )}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                );
+                            })}
+
+                            {results && results.prompts.length > 0 && (
+                                <div>
+                                    <p className="px-3 pt-2 pb-1 text-[10px] font-bold text-text-tertiary uppercase tracking-wider">Prompt Library</p>
+                                    {results.prompts.map(prompt => {
+                                        const i = index++;
+                                        return (
+                                            <button key={prompt.id} data-index={i} onClick={() => choose(items[i])} onMouseEnter={() => setSelected(i)} className={rowClass(i)}>
+                                                <Icon name={prompt.type === 'saved' ? 'bookmark' : 'history'} className="w-4 h-4 text-text-tertiary shrink-0" />
+                                                <span className="flex-1 min-w-0 text-xs text-text-secondary line-clamp-2">
+                                                    <Highlighted text={getSnippet(prompt.text, tokens)} tokens={tokens} />
+                                                </span>
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <div className="px-4 py-2 border-t border-border-light text-[10px] text-text-tertiary flex gap-4">
+                    <span>↑↓ to move</span>
+                    <span>Enter to open</span>
+                    <span>Esc to close</span>
+                    {results?.truncated && <span className="ml-auto text-accent">Too many matches, some are not shown. Add words to narrow the search.</span>}
+                </div>
+            </div>
+        </div>
+    );
+};
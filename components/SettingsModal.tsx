@@ -1,15 +1,38 @@
 import React, { useState, useEffect } from "react";
 import { CustomColorPicker } from "./CustomColorPicker";
 import { Icon } from "./Icon";
-import { AppConfig, ModalConfig, Confirmations } from "../types";
-import { SAFETY_SETTINGS, DB_NAME } from "../constants";
+import {
+  AppConfig,
+  ModalConfig,
+  Confirmations,
+  SafetyCategory,
+} from "../types";
+import {
+  SAFETY_SETTINGS,
+  SAFETY_CATEGORIES,
+  THINKING_LEVELS,
+  CONTEXT_BUDGETS,
+  GALLERY_LIMITS,
+  DB_NAME,
+} from "../constants";
 import Dexie from "dexie";
 import { validateApiKey } from "../services/geminiService";
+import {
+  DEFAULT_IMAGE_MODEL_ID,
+  getImageModels,
+  isBuiltInModel,
+} from "../services/modelRegistry";
 import {
   exportData,
   importData,
+  previewImport,
   ExportProgress,
+  ExportScope,
+  ImportPolicy,
+  ImportPreview,
 } from "../services/importExportService";
+import { BackupValidationError } from "../services/backupSchema";
+import { ImportPreviewModal } from "./ImportPreviewModal";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -17,6 +40,7 @@ interface SettingsModalProps {
   config: AppConfig;
   onSave: (config: AppConfig) => void;
   showModal: (config: ModalConfig) => void;
+  onOpenStorage: () => void;
 }
 
 const COLORS = [
@@ -28,24 +52,44 @@ const COLORS = [
   "#ffffff",
 ];
 
+// Validation errors name the offending record, which is worth showing
+const importErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof BackupValidationError
+    ? `This backup is invalid and nothing was imported: ${err.message}`
+    : fallback;
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
   config,
   onSave,
   showModal,
+  onOpenStorage,
 }) => {
   const [localConfig, setLocalConfig] = useState(config);
 
   // Export/Import State
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [rangeFrom, setRangeFrom] = useState("");
+  const [rangeTo, setRangeTo] = useState("");
+  const [pendingImport, setPendingImport] = useState<{
+    file: File;
+    preview: ImportPreview | null;
+  } | null>(null);
 
   // API Key Validation State
   const [apiKeyDraft, setApiKeyDraft] = useState("");
   const [isValidating, setIsValidating] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
 
+  // Custom model draft, based on a built-in model for its capabilities and pricing
+  const [modelDraft, setModelDraft] = useState({
+    id: "",
+    label: "",
+    baseId: DEFAULT_IMAGE_MODEL_ID,
+  });
+
   useEffect(() => {
     setLocalConfig(config);
   }, [config, isOpen]);
@@ -77,6 +121,41 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     onSave(newConfig);
   };
 
+  const handleSafetyOverrideChange = (key: SafetyCategory, value: string) => {
+    const newOverrides = { ...(localConfig.safetyOverrides || {}) };
+    if (value) newOverrides[key] = value;
+    else delete newOverrides[key];
+    const newConfig = { ...localConfig, safetyOverrides: newOverrides };
+    setLocalConfig(newConfig);
+    onSave(newConfig);
+  };
+
+  const customModels = localConfig.customModels || [];
+
+  const handleAddModel = () => {
+    const id = modelDraft.id.trim();
+    if (!id) return;
+    if (isBuiltInModel(id) || customModels.some((m) => m.id === id)) {
+      showModal({
+        type: "alert",
+        title: "Model Exists",
+        message: `"${id}" is already in the model list.`,
+      });
+      return;
+    }
+    handleChange("customModels", [
+      ...customModels,
+      { id, label: modelDraft.label.trim() || id, baseId: modelDraft.baseId },
+    ]);
+    setModelDraft({ ...modelDraft, id: "", label: "" });
+  };
+
+  const handleRemoveModel = (id: string) =>
+    handleChange(
+      "customModels",
+      customModels.filter((m) => m.id !== id),
+    );
+
   const handleValidateAndSave = async () => {
     setIsValidating(true);
     setValidationError(null);
@@ -97,17 +176,20 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     setValidationError(null);
   };
 
-  const handleExport = async () => {
+  const handleExport = async (scope: ExportScope = { type: "all" }) => {
     setIsProcessing(true);
     setProgress({ message: "Starting export...", percent: 0 });
 
     try {
-      const blob = await exportData(localConfig, (p) => setProgress(p));
+      const blob = await exportData(localConfig, (p) => setProgress(p), scope);
 
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `okobit-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+      a.download =
+        scope.type === "range"
+          ? `okobit-${rangeFrom}-to-${rangeTo}.zip`
+          : `okobit-backup-${new Date().toISOString().slice(0, 10)}.zip`;
       a.click();
       URL.revokeObjectURL(url);
 
@@ -129,56 +211,67 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   };
 
+  // Runs a dry run first; the import itself starts from the preview dialog
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    // Reset input so the same file can be picked again
+    e.target.value = "";
 
-    const performImport = async () => {
-      setIsProcessing(true);
-      setProgress({ message: "Reading file...", percent: 0 });
-
-      try {
-        const newConfig = await importData(file, (p) => setProgress(p));
-
-        let finalConfig = newConfig || localConfig;
-        if (!finalConfig.apiKey && localConfig.apiKey) {
-          finalConfig.apiKey = localConfig.apiKey;
-        }
-
-        onSave(finalConfig);
-        showModal({
-          type: "alert",
-          title: "Success",
-          message: "Import successful! Reloading...",
-          onConfirm: () => window.location.reload(),
-        });
-      } catch (err) {
-        console.error("Import error", err);
-        showModal({
-          type: "alert",
-          title: "Error",
-          message: "Failed to import data.",
-        });
-      } finally {
-        setIsProcessing(false);
-        setProgress(null);
-        // Reset input
-        e.target.value = "";
+    setPendingImport({ file, preview: null });
+    try {
+      const preview = await previewImport(file);
+      setPendingImport((p) => (p?.file === file ? { file, preview } : p));
+    } catch (err) {
+      console.error("Import preview error", err);
+      setPendingImport(null);
+      showModal({
+        type: "alert",
+        title: "Error",
+        message: importErrorMessage(err, "Could not read this backup file."),
+      });
+    }
+  };
+
+  const performImport = async (file: File, policy: ImportPolicy) => {
+    setPendingImport(null);
+    setIsProcessing(true);
+    setProgress({ message: "Reading file...", percent: 0 });
+
+    try {
+      const newConfig = await importData(file, (p) => setProgress(p), policy);
+
+      // Settings missing from the backup keep their current value
+      const finalConfig: AppConfig = {
+        ...localConfig,
+        ...newConfig,
+        confirmations: {
+          ...localConfig.confirmations,
+          ...newConfig?.confirmations,
+        },
+      };
+      if (!finalConfig.apiKey && localConfig.apiKey) {
+        finalConfig.apiKey = localConfig.apiKey;
       }
-    };
 
-    // Always confirm for import
-    showModal({
-      type: "confirm",
-      title: "Merge Data?",
-      message:
-        "This will merge the backup into your current library. Existing data will be preserved.",
-      confirmText: "Merge",
-      onConfirm: performImport,
-      onCancel: () => {
-        e.target.value = "";
-      },
-    });
+      onSave(finalConfig);
+      showModal({
+        type: "alert",
+        title: "Success",
+        message: "Import successful! Reloading...",
+        onConfirm: () => window.location.reload(),
+      });
+    } catch (err) {
+      console.error("Import error", err);
+      showModal({
+        type: "alert",
+        title: "Error",
+        message: importErrorMessage(err, "Failed to import data."),
+      });
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
   };
 
   const handleFactoryReset = async () => {
@@ -338,11 +431,251 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               ))}
             </select>
 
+            <div className="space-y-2 bg-bg-element/30 rounded-xl p-4 border border-border-light">
+              <span className="text-[10px] font-bold text-text-tertiary uppercase tracking-wider block mb-1">
+                Per-Category Overrides
+              </span>
+              {SAFETY_CATEGORIES.map((c) => (
+                <div
+                  key={c.value}
+                  className="flex items-center justify-between gap-3"
+                >
+                  <span className="text-sm text-text-secondary font-medium">
+                    {c.label}
+                  </span>
+                  <select
+                    value={localConfig.safetyOverrides?.[c.value] || ""}
+                    onChange={(e) =>
+                      handleSafetyOverrideChange(c.value, e.target.value)
+                    }
+                    className="w-36 bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs text-text-secondary focus:border-accent focus:text-text-primary outline-none"
+                  >
+                    <option value="">Default</option>
+                    {SAFETY_SETTINGS.map((s) => (
+                      <option key={s.value} value={s.value}>
+                        {s.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
             <ConfirmationToggle
               label="Stats for Nerds"
               checked={localConfig.detailedVerbosity}
               onChange={(v) => handleChange("detailedVerbosity", v)}
             />
+
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-sm text-text-secondary font-medium">
+                Parallel Generations
+              </span>
+              <select
+                value={localConfig.maxConcurrentJobs ?? 2}
+                onChange={(e) =>
+                  handleChange(
+                    "maxConcurrentJobs",
+                    parseInt(e.target.value, 10),
+                  )
+                }
+                className="w-36 bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs text-text-secondary focus:border-accent focus:text-text-primary outline-none"
+              >
+                {[1, 2, 3, 4].map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <span
+                className="text-sm text-text-secondary font-medium"
+                title="Older turns are summarized or dropped to stay within this estimate"
+              >
+                Context Budget
+              </span>
+              <select
+                value={localConfig.contextTokenBudget ?? 32000}
+                onChange={(e) =>
+                  handleChange(
+                    "contextTokenBudget",
+                    parseInt(e.target.value, 10),
+                  )
+                }
+                className="w-36 bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs text-text-secondary focus:border-accent focus:text-text-primary outline-none"
+              >
+                {CONTEXT_BUDGETS.map((b) => (
+                  <option key={b.value} value={b.value}>
+                    {b.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-sm text-text-secondary font-medium">
+                Gallery Limit
+              </span>
+              <select
+                value={localConfig.galleryLimit ?? 0}
+                onChange={(e) =>
+                  handleChange("galleryLimit", parseInt(e.target.value, 10))
+                }
+                className="w-36 bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs text-text-secondary focus:border-accent focus:text-text-primary outline-none"
+              >
+                {GALLERY_LIMITS.map((l) => (
+                  <option key={l.value} value={l.value}>
+                    {l.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-sm text-text-secondary font-medium">
+                Storage
+              </span>
+              <button
+                onClick={onOpenStorage}
+                className="w-36 flex items-center justify-center gap-1.5 bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs text-text-secondary hover:border-accent hover:text-text-primary transition-colors"
+              >
+                <Icon name="layers" className="w-3.5 h-3.5" />
+                Manage Storage
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Custom Models */}
+        <div
+          className="mb-6 opacity-0 animate-slide-up"
+          style={{ animationDelay: "0.33s" }}
+        >
+          <label className="text-xs font-bold text-accent uppercase tracking-wider mb-2 block">
+            Custom Models
+          </label>
+          <div className="space-y-2 bg-bg-element/30 rounded-xl p-4 border border-border-light">
+            <p className="text-xs text-text-tertiary">
+              Add a newer image model by its API name. It runs with the options
+              and pricing of the model it is based on.
+            </p>
+            {customModels.map((m) => (
+              <div
+                key={m.id}
+                className="flex items-center justify-between gap-3"
+              >
+                <span className="text-sm text-text-secondary font-medium truncate">
+                  {m.label}{" "}
+                  <span className="font-mono text-xs text-text-tertiary">
+                    {m.id}
+                  </span>
+                </span>
+                <button
+                  onClick={() => handleRemoveModel(m.id)}
+                  className="text-xs text-text-secondary hover:text-danger underline decoration-transparent hover:decoration-danger transition-all"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              <input
+                value={modelDraft.id}
+                onChange={(e) =>
+                  setModelDraft({ ...modelDraft, id: e.target.value })
+                }
+                placeholder="Model name"
+                className="flex-1 min-w-[120px] bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs font-mono text-text-primary focus:border-accent outline-none"
+              />
+              <input
+                value={modelDraft.label}
+                onChange={(e) =>
+                  setModelDraft({ ...modelDraft, label: e.target.value })
+                }
+                placeholder="Label (optional)"
+                className="flex-1 min-w-[120px] bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs text-text-primary focus:border-accent outline-none"
+              />
+              <select
+                value={modelDraft.baseId}
+                onChange={(e) =>
+                  setModelDraft({ ...modelDraft, baseId: e.target.value })
+                }
+                className="w-36 bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs text-text-secondary focus:border-accent focus:text-text-primary outline-none"
+                title="Based on"
+              >
+                {getImageModels()
+                  .filter((m) => isBuiltInModel(m.id))
+                  .map((m) => (
+                    <option key={m.id} value={m.id}>
+                      Like {m.label}
+                    </option>
+                  ))}
+              </select>
+              <button
+                onClick={handleAddModel}
+                disabled={!modelDraft.id.trim()}
+                className="bg-bg-element hover:bg-bg-surface border border-border-light hover:border-accent text-text-primary px-3 rounded-lg font-medium text-xs transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Reasoning */}
+        <div
+          className="mb-6 opacity-0 animate-slide-up"
+          style={{ animationDelay: "0.35s" }}
+        >
+          <label className="text-xs font-bold text-accent uppercase tracking-wider mb-2 block">
+            Reasoning
+          </label>
+          <div className="space-y-3">
+            <ConfirmationToggle
+              label="Show Model Reasoning"
+              checked={localConfig.includeThoughts ?? true}
+              onChange={(v) => handleChange("includeThoughts", v)}
+            />
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-sm text-text-secondary font-medium">
+                Thinking Level
+              </span>
+              <select
+                value={localConfig.thinkingLevel || "auto"}
+                onChange={(e) => handleChange("thinkingLevel", e.target.value)}
+                className="w-36 bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs text-text-secondary focus:border-accent focus:text-text-primary outline-none"
+              >
+                {THINKING_LEVELS.map((l) => (
+                  <option key={l.value} value={l.value}>
+                    {l.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {(localConfig.thinkingLevel || "auto") === "auto" && (
+              <div className="flex items-center justify-between gap-3 animate-fade-in">
+                <span className="text-sm text-text-secondary font-medium">
+                  Thinking Budget
+                </span>
+                <input
+                  type="number"
+                  min={-1}
+                  step={128}
+                  value={localConfig.thinkingBudget ?? -1}
+                  onChange={(e) => {
+                    const v = parseInt(e.target.value, 10);
+                    handleChange(
+                      "thinkingBudget",
+                      isNaN(v) ? -1 : Math.max(-1, v),
+                    );
+                  }}
+                  title="Token budget for thinking. -1 lets the model decide."
+                  className="w-36 bg-bg-base border border-border-light rounded-lg px-2 py-1 text-xs font-mono text-text-secondary focus:border-accent focus:text-text-primary outline-none"
+                />
+              </div>
+            )}
           </div>
         </div>
 
@@ -463,7 +796,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             <div className="space-y-3">
               <div className="flex gap-2">
                 <button
-                  onClick={handleExport}
+                  onClick={() => handleExport()}
                   disabled={isProcessing}
                   className="flex-1 bg-bg-element border border-dashed border-text-tertiary text-text-secondary hover:border-accent hover:text-text-primary hover:bg-bg-surface rounded-lg py-2 px-4 text-sm font-medium transition-all disabled:opacity-50"
                 >
@@ -482,6 +815,38 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   />
                 </label>
               </div>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-text-secondary shrink-0">
+                  Projects active
+                </span>
+                <input
+                  type="date"
+                  value={rangeFrom}
+                  onChange={(e) => setRangeFrom(e.target.value)}
+                  className="min-w-0 flex-1 bg-bg-base border border-border-light rounded-lg px-2 py-1.5 text-text-primary outline-none focus:border-accent"
+                />
+                <span className="text-text-tertiary">to</span>
+                <input
+                  type="date"
+                  value={rangeTo}
+                  min={rangeFrom}
+                  onChange={(e) => setRangeTo(e.target.value)}
+                  className="min-w-0 flex-1 bg-bg-base border border-border-light rounded-lg px-2 py-1.5 text-text-primary outline-none focus:border-accent"
+                />
+                <button
+                  onClick={() =>
+                    handleExport({
+                      type: "range",
+                      from: new Date(`${rangeFrom}T00:00:00`).getTime(),
+                      to: new Date(`${rangeTo}T23:59:59.999`).getTime(),
+                    })
+                  }
+                  disabled={isProcessing || !rangeFrom || !rangeTo}
+                  className="shrink-0 px-3 py-1.5 rounded-lg border border-border-light text-text-secondary hover:border-accent hover:text-text-primary transition-colors disabled:opacity-50"
+                >
+                  Export
+                </button>
+              </div>
             </div>
           )}
         </div>
@@ -500,6 +865,15 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
           </button>
         </div>
       </div>
+
+      {pendingImport && (
+        <ImportPreviewModal
+          fileName={pendingImport.file.name}
+          preview={pendingImport.preview}
+          onCancel={() => setPendingImport(null)}
+          onImport={(policy) => performImport(pendingImport.file, policy)}
+        />
+      )}
     </div>
   );
 };
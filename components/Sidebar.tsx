@@ -1,34 +1,195 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Icon } from './Icon';
-import { Chat } from '../types';
+import { Chat, Folder } from '../types';
 import { BananaLogo } from './BananaLogo';
+import { JobStatus } from '../services/generationQueue';
+import { groupProjects } from '../services/folderService';
 
 interface SidebarProps {
   isOpen: boolean;
   onToggle: () => void;
   chats: Chat[];
+  folders: Folder[];
+  folderCounts: Record<string, number>;
+  hasMoreChats: boolean;
+  onLoadMoreChats: () => void;
+  archiveOpen: boolean;
+  onToggleArchive: () => void;
+  archivedChats: Chat[];
+  archivedCount: number;
+  hasMoreArchived: boolean;
+  onLoadMoreArchived: () => void;
+  onArchiveChat: (id: string, archived: boolean) => void;
+  onExportChat: (chat: Chat) => void;
   activeChatId: string | null;
   onSelectChat: (id: string) => void;
   onNewChat: () => void;
   onDeleteChat: (id: string) => void;
   onPinChat: (id: string) => void;
   onEditTitle: (id: string, currentTitle: string) => void;
+  onNewFolder: () => void;
+  onRenameFolder: (folder: Folder) => void;
+  onDeleteFolder: (folder: Folder) => void;
+  onToggleFolder: (folder: Folder) => void;
+  onMoveChat: (chatId: string, folderId: string | null, beforeChatId?: string | null, afterChatId?: string | null) => void;
+  onMoveFolder: (folderId: string, beforeFolderId: string | null) => void;
   currentView: 'chat' | 'gallery';
   onViewChange: (view: 'chat' | 'gallery') => void;
   onOpenSettings: () => void;
-  generatingChatId: string | null;
+  onOpenSearch: () => void;
+  jobStatuses: Record<string, JobStatus>;
   stats?: { totalTokens: number; totalCost: number };
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
-  isOpen, onToggle, chats, activeChatId, onSelectChat, onNewChat, onDeleteChat, onPinChat, onEditTitle, currentView, onViewChange, onOpenSettings, generatingChatId, stats
+  isOpen, onToggle, chats, folders, folderCounts, hasMoreChats, onLoadMoreChats,
+  archiveOpen, onToggleArchive, archivedChats, archivedCount, hasMoreArchived, onLoadMoreArchived, onArchiveChat, onExportChat, activeChatId, onSelectChat, onNewChat, onDeleteChat, onPinChat, onEditTitle,
+  onNewFolder, onRenameFolder, onDeleteFolder, onToggleFolder, onMoveChat, onMoveFolder,
+  currentView, onViewChange, onOpenSettings, onOpenSearch, jobStatuses, stats
 }) => {
-  // Sort chats: pinned first, then by date
-  const sortedChats = [...chats].sort((a, b) => {
-    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
-    return b.updatedAt - a.updatedAt;
-  });
+  // Folders in manual order; within each, pinned first, then dragged order, then by date
+  const { groups, unfiled } = groupProjects(chats, folders);
+  const [dragItem, setDragItem] = useState<{ type: 'chat' | 'folder'; id: string } | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // Row id, or 'end'
+  const [moveMenuChatId, setMoveMenuChatId] = useState<string | null>(null);
+
+  const startDrag = (e: React.DragEvent, type: 'chat' | 'folder', id: string) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', id);
+    setDragItem({ type, id });
+  };
+
+  const endDrag = () => {
+    setDragItem(null);
+    setDropTarget(null);
+  };
+
+  // Marks a row as the drop target when it accepts the item being dragged
+  const allowDrop = (e: React.DragEvent, targetId: string, accepts: ('chat' | 'folder')[]) => {
+    if (!dragItem || !accepts.includes(dragItem.type) || dragItem.id === targetId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(targetId);
+  };
+
+  const drop = (e: React.DragEvent, action: (item: { type: 'chat' | 'folder'; id: string }) => void) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragItem) action(dragItem);
+    endDrag();
+  };
+
+  let rowIndex = 0;
+  const renderChat = (chat: Chat, folderId: string | null) => {
+    const index = rowIndex++;
+    return (
+      <div key={chat.id} className="relative">
+        <div 
+          draggable
+          onDragStart={(e) => startDrag(e, 'chat', chat.id)}
+          onDragEnd={endDrag}
+          onDragOver={(e) => allowDrop(e, chat.id, ['chat'])}
+          onDrop={(e) => drop(e, item => onMoveChat(item.id, folderId, chat.id))}
+          onClick={() => onSelectChat(chat.id)}
+          style={{ animationDelay: `${index * 0.05}s` }}
+          className={`group relative flex items-center justify-between px-3 py-2.5 rounded-lg cursor-pointer transition-all duration-200 border border-transparent opacity-0 animate-slide-in-right ${activeChatId === chat.id ? 'bg-bg-element text-text-primary border-border-light shadow-sm' : 'text-text-secondary hover:bg-bg-surface hover:translate-x-1 hover:text-text-primary'} ${dropTarget === chat.id ? 'border-t-accent' : ''}`}
+        >
+          {chat.pinned && <div className="absolute left-0 top-2 bottom-2 w-0.5 bg-accent rounded-r-full"></div>}
+          
+          <div className="flex-1 min-w-0 flex items-center gap-2">
+              <span className="truncate text-sm">{chat.title || "Untitled Project"}</span>
+              {jobStatuses[chat.id] === 'running' && (
+                  <Icon name="sparkles" className="w-3 h-3 text-accent animate-spin flex-shrink-0" />
+              )}
+              {jobStatuses[chat.id] === 'queued' && (
+                  <span title="Queued"><Icon name="clock" className="w-3 h-3 text-text-tertiary animate-pulse flex-shrink-0" /></span>
+              )}
+              {jobStatuses[chat.id] === 'done' && (
+                  <span title="Generation finished"><Icon name="check-circle" className="w-3 h-3 text-accent flex-shrink-0" /></span>
+              )}
+              {jobStatuses[chat.id] === 'error' && (
+                  <span title="Generation failed"><Icon name="alert" className="w-3 h-3 text-danger flex-shrink-0" /></span>
+              )}
+          </div>
+          
+          {/* Actions */}
+          <div className="absolute right-2 flex gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity bg-bg-element/80 backdrop-blur-sm rounded-md shadow-sm">
+            <button 
+              onClick={(e) => { e.stopPropagation(); onPinChat(chat.id); }}
+              className={`p-1 hover:text-accent ${chat.pinned ? 'text-accent' : ''}`}
+            >
+              <Icon name="pin" className="w-3.5 h-3.5" />
+            </button>
+            <button 
+              onClick={(e) => { e.stopPropagation(); onExportChat(chat); }}
+              className="p-1 hover:text-accent"
+              title="Export Project"
+            >
+              <Icon name="download" className="w-3.5 h-3.5" />
+            </button>
+            <button 
+              onClick={(e) => { e.stopPropagation(); onArchiveChat(chat.id, true); }}
+              className="p-1 hover:text-accent"
+              title="Archive"
+            >
+              <Icon name="archive" className="w-3.5 h-3.5" />
+            </button>
+            {folders.length > 0 && (
+              <button 
+                onClick={(e) => { e.stopPropagation(); setMoveMenuChatId(moveMenuChatId === chat.id ? null : chat.id); }}
+                className="p-1 hover:text-accent"
+                title="Move to Folder"
+              >
+                <Icon name="folder" className="w-3.5 h-3.5" />
+              </button>
+            )}
+             <button 
+              onClick={(e) => { 
+                  e.stopPropagation(); 
+                  onEditTitle(chat.id, chat.title);
+              }}
+              className="p-1 hover:text-white"
+            >
+              <Icon name="edit" className="w-3.5 h-3.5" />
+            </button>
+            <button 
+              onClick={(e) => { e.stopPropagation(); onDeleteChat(chat.id); }}
+              className="p-1 hover:text-danger"
+            >
+              <Icon name="trash" className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Move menu, the touch-friendly alternative to dragging */}
+        {moveMenuChatId === chat.id && (
+          <div className="mx-2 mt-1 mb-2 p-1 bg-bg-element border border-border-light rounded-lg shadow-lg animate-fade-in">
+            {[{ id: null, name: 'No Folder' }, ...groups.map(g => g.folder)].map(f => (
+              <button
+                key={f.id ?? 'none'}
+                onClick={() => { onMoveChat(chat.id, f.id); setMoveMenuChatId(null); }}
+                disabled={(chat.folderId ?? null) === f.id}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-xs text-left text-text-secondary hover:bg-bg-surface hover:text-text-primary disabled:text-accent disabled:hover:bg-transparent"
+              >
+                <Icon name={f.id ? 'folder' : 'layers'} className="w-3.5 h-3.5" />
+                <span className="truncate">{f.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const loadMoreButton = (onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className="w-full py-2 text-xs text-text-tertiary hover:text-text-primary transition-colors"
+    >
+      Load more
+    </button>
+  );
 
   return (
     <>
@@ -50,61 +211,145 @@ export const Sidebar: React.FC<SidebarProps> = ({
         </div>
 
         {/* New Chat */}
-        <div className="p-4">
+        <div className="p-4 flex gap-2">
           <button 
             onClick={onNewChat}
-            className="w-full flex items-center justify-center gap-2 bg-bg-element border border-dashed border-text-tertiary text-text-secondary hover:border-accent hover:text-text-primary hover:bg-bg-surface rounded-xl py-3 text-sm font-medium transition-all active:scale-95 group"
+            className="flex-1 flex items-center justify-center gap-2 bg-bg-element border border-dashed border-text-tertiary text-text-secondary hover:border-accent hover:text-text-primary hover:bg-bg-surface rounded-xl py-3 text-sm font-medium transition-all active:scale-95 group"
           >
             <Icon name="plus" className="transition-transform group-hover:rotate-90" />
             New Project
           </button>
+          <button
+            onClick={onNewFolder}
+            className="px-3.5 flex items-center justify-center bg-bg-element border border-border-light text-text-secondary hover:border-accent hover:text-text-primary rounded-xl transition-all active:scale-95"
+            title="New Folder"
+          >
+            <Icon name="folder" />
+          </button>
+          <button
+            onClick={onOpenSearch}
+            className="px-3.5 flex items-center justify-center bg-bg-element border border-border-light text-text-secondary hover:border-accent hover:text-text-primary rounded-xl transition-all active:scale-95"
+            title="Search (Alt+K)"
+          >
+            <Icon name="search" />
+          </button>
         </div>
 
         {/* List */}
-        <div className="flex-1 overflow-y-auto px-3 pb-4 space-y-1">
-          {sortedChats.map((chat, index) => (
-            <div 
-              key={chat.id}
-              onClick={() => onSelectChat(chat.id)}
-              style={{ animationDelay: `${index * 0.05}s` }}
-              className={`group relative flex items-center justify-between px-3 py-2.5 rounded-lg cursor-pointer transition-all duration-200 border border-transparent opacity-0 animate-slide-in-right ${activeChatId === chat.id ? 'bg-bg-element text-text-primary border-border-light shadow-sm' : 'text-text-secondary hover:bg-bg-surface hover:translate-x-1 hover:text-text-primary'}`}
-            >
-              {chat.pinned && <div className="absolute left-0 top-2 bottom-2 w-0.5 bg-accent rounded-r-full"></div>}
-              
-              <div className="flex-1 min-w-0 flex items-center gap-2">
-                  <span className="truncate text-sm">{chat.title || "Untitled Project"}</span>
-                  {generatingChatId === chat.id && (
-                      <Icon name="sparkles" className="w-3 h-3 text-accent animate-spin flex-shrink-0" />
-                  )}
+        {archiveOpen ? (
+          <div className="flex-1 overflow-y-auto px-3 pb-4 space-y-1 animate-fade-in">
+            <p className="px-3 pb-1 text-[10px] font-bold text-text-tertiary uppercase tracking-wider">Archived Projects</p>
+            {archivedChats.map(chat => (
+              <div 
+                key={chat.id}
+                onClick={() => onSelectChat(chat.id)}
+                className={`group relative flex items-center justify-between px-3 py-2.5 rounded-lg cursor-pointer transition-colors border border-transparent ${activeChatId === chat.id ? 'bg-bg-element text-text-primary border-border-light' : 'text-text-tertiary hover:bg-bg-surface hover:text-text-primary'}`}
+              >
+                <span className="truncate text-sm">{chat.title || "Untitled Project"}</span>
+                <div className="absolute right-2 flex gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity bg-bg-element/80 backdrop-blur-sm rounded-md shadow-sm">
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onExportChat(chat); }}
+                    className="p-1 hover:text-accent"
+                    title="Export Project"
+                  >
+                    <Icon name="download" className="w-3.5 h-3.5" />
+                  </button>
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onArchiveChat(chat.id, false); }}
+                    className="p-1 hover:text-accent"
+                    title="Restore"
+                  >
+                    <Icon name="upload" className="w-3.5 h-3.5" />
+                  </button>
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onDeleteChat(chat.id); }}
+                    className="p-1 hover:text-danger"
+                  >
+                    <Icon name="trash" className="w-3.5 h-3.5" />
+                  </button>
+                </div>
               </div>
-              
-              {/* Actions */}
-              <div className="absolute right-2 flex gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity bg-bg-element/80 backdrop-blur-sm rounded-md shadow-sm">
-                <button 
-                  onClick={(e) => { e.stopPropagation(); onPinChat(chat.id); }}
-                  className={`p-1 hover:text-accent ${chat.pinned ? 'text-accent' : ''}`}
-                >
-                  <Icon name="pin" className="w-3.5 h-3.5" />
-                </button>
-                 <button 
-                  onClick={(e) => { 
-                      e.stopPropagation(); 
-                      onEditTitle(chat.id, chat.title);
-                  }}
-                  className="p-1 hover:text-white"
-                >
-                  <Icon name="edit" className="w-3.5 h-3.5" />
-                </button>
-                <button 
-                  onClick={(e) => { e.stopPropagation(); onDeleteChat(chat.id); }}
-                  className="p-1 hover:text-danger"
-                >
-                  <Icon name="trash" className="w-3.5 h-3.5" />
-                </button>
+            ))}
+            {archivedChats.length === 0 && (
+              <p className="px-3 py-6 text-center text-xs text-text-tertiary">Nothing archived.</p>
+            )}
+            {hasMoreArchived && loadMoreButton(onLoadMoreArchived)}
+          </div>
+        ) : (
+        <div className="flex-1 overflow-y-auto px-3 pb-4 space-y-1">
+          {groups.map(({ folder, chats: folderChats }) => (
+            <div key={folder.id} className="space-y-1">
+              <div
+                draggable
+                onDragStart={(e) => startDrag(e, 'folder', folder.id)}
+                onDragEnd={endDrag}
+                onDragOver={(e) => allowDrop(e, folder.id, ['chat', 'folder'])}
+                onDrop={(e) => drop(e, item => item.type === 'chat' ? onMoveChat(item.id, folder.id) : onMoveFolder(item.id, folder.id))}
+                onClick={() => onToggleFolder(folder)}
+                className={`group relative flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer text-text-secondary hover:text-text-primary hover:bg-bg-surface transition-colors border ${dropTarget === folder.id ? (dragItem?.type === 'chat' ? 'border-accent bg-accent/10' : 'border-transparent border-t-accent') : 'border-transparent'} ${dragItem?.id === folder.id ? 'opacity-40' : ''}`}
+              >
+                <Icon name={folder.collapsed ? 'chevron-right' : 'chevron-down'} className="w-3.5 h-3.5 flex-shrink-0" />
+                <Icon name="folder" className="w-4 h-4 flex-shrink-0 text-accent" />
+                <span className="flex-1 min-w-0 truncate text-xs font-bold uppercase tracking-wider">{folder.name}</span>
+                <span className="text-[10px] text-text-tertiary group-hover:opacity-0 transition-opacity">{folderCounts[folder.id] ?? folderChats.length}</span>
+
+                <div className="absolute right-2 flex gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity bg-bg-element/80 backdrop-blur-sm rounded-md shadow-sm">
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onRenameFolder(folder); }}
+                    className="p-1 hover:text-white"
+                  >
+                    <Icon name="edit" className="w-3.5 h-3.5" />
+                  </button>
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); onDeleteFolder(folder); }}
+                    className="p-1 hover:text-danger"
+                  >
+                    <Icon name="trash" className="w-3.5 h-3.5" />
+                  </button>
+                </div>
               </div>
+
+              {!folder.collapsed && (
+                <div className="pl-3 space-y-1">
+                  {folderChats.map(chat => renderChat(chat, folder.id))}
+                  {folderChats.length === 0 && (
+                    <p className="px-3 py-1.5 text-[11px] text-text-tertiary">Drag projects here</p>
+                  )}
+                </div>
+              )}
             </div>
           ))}
+
+          {groups.length > 0 && unfiled.length > 0 && <div className="h-px bg-border-light my-2 mx-2"></div>}
+          {unfiled.map(chat => renderChat(chat, null))}
+
+          {/* End of the list: moves a project out of its folder, or a folder to the bottom. With more projects to load, that is below the last one shown */}
+          {dragItem && (
+            <div
+              onDragOver={(e) => allowDrop(e, 'end', ['chat', 'folder'])}
+              onDrop={(e) => drop(e, item => item.type === 'chat'
+                ? onMoveChat(item.id, null, null, hasMoreChats ? unfiled.filter(c => c.id !== item.id).pop()?.id : null)
+                : onMoveFolder(item.id, null))}
+              className={`py-3 rounded-lg border border-dashed text-center text-[11px] transition-colors ${dropTarget === 'end' ? 'border-accent text-accent' : 'border-border-light text-text-tertiary'}`}
+            >
+              {dragItem.type === 'chat' ? 'Move to top level' : 'Move to bottom'}
+            </div>
+          )}
+
+          {hasMoreChats && loadMoreButton(onLoadMoreChats)}
         </div>
+        )}
+
+        {/* Archive toggle */}
+        {(archivedCount > 0 || archiveOpen) && (
+          <button
+            onClick={onToggleArchive}
+            className="mx-3 mb-2 flex items-center gap-2 px-3 py-2 rounded-lg text-xs text-text-secondary hover:text-text-primary hover:bg-bg-element transition-colors"
+          >
+            <Icon name={archiveOpen ? 'chevron-left' : 'archive'} className="w-3.5 h-3.5" />
+            {archiveOpen ? 'Back to Projects' : `Archived · ${archivedCount}`}
+          </button>
+        )}
 
         {/* Project Stats Summary */}
         {stats && (stats.totalTokens > 0 || stats.totalCost > 0) && (
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { Icon } from './Icon';
+import { ModalConfig } from '../types';
+import {
+    StorageBreakdown, StorageEstimate, QUOTA_WARNING_RATIO,
+    downloadOffloadArchive, formatBytes, getStorageBreakdown, getStorageEstimate, isNearQuota, replaceWithThumbnails, requestPersistentStorage
+} from '../services/storageService';
+
+interface StorageManagerModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    showModal: (config: ModalConfig) => void;
+}
+
+const UsageRow: React.FC<{ label: string; bytes: number; count?: number; total: number; action?: React.ReactNode }> = ({ label, bytes, count, total, action }) => (
+    <div className="flex items-center gap-3 py-2">
+        <div className="flex-1 min-w-0">
+            <div className="flex items-baseline justify-between gap-2 text-sm">
+                <span className="text-text-primary truncate">{label}</span>
+                <span className="text-xs font-mono text-text-secondary shrink-0">
+                    {formatBytes(bytes)}{count !== undefined && ` · ${count}`}
+                </span>
+            </div>
+            <div className="mt-1 h-1 bg-bg-element rounded-full overflow-hidden">
+                <div className="h-full bg-accent rounded-full" style={{ width: `${total > 0 ? Math.min(100, (bytes / total) * 100) : 0}%` }}></div>
+            </div>
+        </div>
+        {action}
+    </div>
+);
+
+export const StorageManagerModal: React.FC<StorageManagerModalProps> = ({ isOpen, onClose, showModal }) => {
+    const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+    const [breakdown, setBreakdown] = useState<StorageBreakdown | null>(null);
+    const [busy, setBusy] = useState<string | null>(null); // Key of the running offload
+    // Downloaded but not yet confirmed: originals stay until the saved zip is picked
+    const [pendingOffload, setPendingOffload] = useState<{ key: string; label: string; imageIds: string[]; count: number } | null>(null);
+
+    const refresh = async () => {
+        const [e, b] = await Promise.all([getStorageEstimate(), getStorageBreakdown()]);
+        setEstimate(e);
+        setBreakdown(b);
+    };
+
+    useEffect(() => {
+        if (isOpen) refresh().catch(console.error);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handlePersist = async () => {
+        const granted = await requestPersistentStorage();
+        if (!granted) {
+            showModal({ type: 'alert', title: 'Not Granted', message: 'The browser declined persistent storage. Bookmarking or installing the app usually makes it more likely to be granted.' });
+        }
+        refresh();
+    };
+
+    const handleOffload = (key: string, label: string, imageIds: string[]) => {
+        showModal({
+            type: 'confirm',
+            title: 'Offload Full Resolution?',
+            message: `Full-resolution copies of "${label}" will be downloaded as a zip. Once it is saved, select it here and only the images it really contains are replaced by their thumbnails.`,
+            confirmText: 'Download',
+            onConfirm: async () => {
+                setBusy(key);
+                try {
+                    const { count } = await downloadOffloadArchive(imageIds);
+                    if (count > 0) setPendingOffload({ key, label, imageIds, count });
+                    else showModal({ type: 'alert', title: 'Nothing to Offload', message: 'These images are already as small as their thumbnails.' });
+                } catch (e) {
+                    console.error("Offload download failed", e);
+                    showModal({ type: 'alert', title: 'Error', message: 'Failed to create the download.' });
+                } finally {
+                    setBusy(null);
+                }
+            }
+        });
+    };
+
+    const handleConfirmOffload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !pendingOffload) return;
+
+        setBusy(pendingOffload.key);
+        try {
+            const { offloaded, unverified, bytesFreed } = await replaceWithThumbnails(pendingOffload.imageIds, file);
+            setPendingOffload(null);
+            showModal({
+                type: 'alert',
+                title: 'Offload Complete',
+                message: `Offloaded ${offloaded} images, freeing ${formatBytes(bytesFreed)}.` +
+                    (unverified > 0 ? ` ${unverified} images were not found unchanged in the zip and keep their full resolution.` : '')
+            });
+        } catch (err) {
+            console.error("Offload failed", err);
+            showModal({ type: 'alert', title: 'Error', message: 'Could not read this zip. Nothing was replaced.' });
+        } finally {
+            setBusy(null);
+            refresh();
+        }
+    };
+
+    const offloadButton = (key: string, label: string, imageIds: string[]) => (
+        <button
+            onClick={() => handleOffload(key, label, imageIds)}
+            disabled={!!busy || !!pendingOffload || imageIds.length === 0}
+            className="shrink-0 p-1.5 rounded-md text-text-secondary hover:text-accent hover:bg-bg-element disabled:opacity-40 transition-colors"
+            title="Download full resolution and keep thumbnails"
+        >
+            <Icon name={busy === key ? 'refresh' : 'download'} className={`w-4 h-4 ${busy === key ? 'animate-spin' : ''}`} />
+        </button>
+    );
+
+    const usageRatio = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+    const imageBytes = breakdown ? breakdown.attachments.bytes + breakdown.generated.bytes : 0;
+
+    return (
+        <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4 animate-fade-in">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose}></div>
+
+            <div className="relative w-full max-w-lg bg-bg-surface border border-border-light rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-slide-up">
+
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-border-light bg-bg-surface">
+                    <h3 className="font-bold text-text-primary flex items-center gap-2">
+                        <Icon name="layers" className="text-accent" />
+                        Storage
+                    </h3>
+                    <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary">
+                        <Icon name="x" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-5">
+                    {!estimate || !breakdown ? (
+                        <div className="flex justify-center py-12 text-text-tertiary">
+                            <Icon name="refresh" className="w-6 h-6 animate-spin" />
+                        </div>
+                    ) : (
+                        <>
+                            {pendingOffload && (
+                                <div className="bg-accent/10 border border-accent/40 rounded-xl p-4 space-y-3">
+                                    <p className="text-sm text-text-primary">
+                                        Downloaded {pendingOffload.count} full-resolution images of "{pendingOffload.label}". Nothing has been removed yet: select the saved zip to replace the originals with thumbnails.
+                                    </p>
+                                    <div className="flex gap-2">
+                                        <label className={`flex-1 bg-accent text-black rounded-lg py-2 px-4 text-sm font-bold text-center cursor-pointer hover:opacity-90 transition-opacity ${busy ? 'opacity-50 cursor-not-allowed' : ''}`}>
+                                            {busy === pendingOffload.key ? 'Checking...' : 'Select Saved Zip'}
+                                            <input type="file" accept=".zip" onChange={handleConfirmOffload} className="hidden" disabled={!!busy} />
+                                        </label>
+                                        <button onClick={() => setPendingOffload(null)} disabled={!!busy} className="px-4 py-2 rounded-lg text-sm text-text-secondary hover:text-text-primary hover:bg-bg-element transition-colors disabled:opacity-40">
+                                            Cancel
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Quota */}
+                            <div className="bg-bg-element/30 rounded-xl p-4 border border-border-light">
+                                {estimate.supported ? (
+                                    <>
+                                        <div className="flex items-baseline justify-between text-sm">
+                                            <span className="text-text-primary font-medium">{formatBytes(estimate.usage)} used</span>
+                                            <span className="text-xs text-text-tertiary">of {formatBytes(estimate.quota)} available to this site</span>
+                                        </div>
+                                        <div className="mt-2 h-2 bg-bg-element rounded-full overflow-hidden">
+                                            <div className={`h-full rounded-full transition-all ${isNearQuota(estimate) ? 'bg-danger' : 'bg-accent'}`} style={{ width: `${Math.min(100, usageRatio * 100)}%` }}></div>
+                                        </div>
+                                        {isNearQuota(estimate) && (
+                                            <p className="mt-2 text-xs text-danger flex items-center gap-1.5">
+                                                <Icon name="alert" className="w-3.5 h-3.5" />
+                                                Over {Math.round(QUOTA_WARNING_RATIO * 100)}% of the quota is used. The browser may refuse new images or evict data.
+                                            </p>
+                                        )}
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-text-secondary">This browser does not report storage usage.</p>
+                                )}
+                                <div className="mt-3 flex items-center justify-between text-xs">
+                                    <span className="text-text-secondary">
+                                        {estimate.persisted ? 'Persistent: data will not be evicted automatically.' : 'Best-effort: the browser may clear data under storage pressure.'}
+                                    </span>
+                                    {!estimate.persisted && estimate.supported && (
+                                        <button onClick={handlePersist} className="text-accent hover:underline shrink-0 ml-2">Make Persistent</button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {/* By type */}
+                            <div>
+                                <label className="text-xs font-bold text-accent uppercase tracking-wider mb-1 block">Images</label>
+                                <UsageRow label="Generated" bytes={breakdown.generated.bytes} count={breakdown.generated.count} total={imageBytes} />
+                                <UsageRow label="Attachments & References" bytes={breakdown.attachments.bytes} count={breakdown.attachments.count} total={imageBytes} />
+                                <UsageRow label="Thumbnails" bytes={breakdown.thumbnails.bytes} count={breakdown.thumbnails.count} total={imageBytes} />
+                                <UsageRow label="Gallery" bytes={breakdown.gallery.bytes} count={breakdown.gallery.count} total={imageBytes} action={offloadButton('gallery', 'Gallery', breakdown.gallery.imageIds)} />
+                                {breakdown.offloaded.count > 0 && (
+                                    <p className="text-[11px] text-text-tertiary mt-1">{breakdown.offloaded.count} images are offloaded and kept as previews only.</p>
+                                )}
+                            </div>
+
+                            {/* By project */}
+                            <div>
+                                <label className="text-xs font-bold text-accent uppercase tracking-wider mb-1 block">Projects</label>
+                                {breakdown.projects.length === 0 ? (
+                                    <p className="text-sm text-text-tertiary">No project images stored.</p>
+                                ) : breakdown.projects.map(p => (
+                                    <UsageRow key={p.chatId} label={p.title} bytes={p.bytes} count={p.count} total={imageBytes} action={offloadButton(p.chatId, p.title, p.imageIds)} />
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
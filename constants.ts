@@ -1,3 +1,4 @@
+import { GenConfig, SafetyCategory } from "./types";
 
 
 export const HERO_PROMPTS = [
@@ -53,6 +54,31 @@ export const RESOLUTIONS = [
   { label: "4K (4096x4096)", value: "4K" },
 ];
 
+export const VARIANT_COUNTS = [1, 2, 3, 4];
+
+export const DEFAULT_GEN_CONFIG: GenConfig = {
+  aspectRatio: "auto",
+  resolution: "1K",
+  variants: 1,
+};
+
+export const CONTEXT_BUDGETS = [
+  { label: "8K tokens", value: 8000 },
+  { label: "16K tokens", value: 16000 },
+  { label: "32K tokens", value: 32000 },
+  { label: "64K tokens", value: 64000 },
+  { label: "128K tokens", value: 128000 },
+];
+
+export const GALLERY_LIMITS = [
+  { label: "No Limit", value: 0 },
+  { label: "50 images", value: 50 },
+  { label: "100 images", value: 100 },
+  { label: "250 images", value: 250 },
+  { label: "500 images", value: 500 },
+  { label: "1000 images", value: 1000 },
+];
+
 export const DB_NAME = 'OkobitDB_v1';
 
 export const SAFETY_SETTINGS = [
@@ -60,4 +86,17 @@ export const SAFETY_SETTINGS = [
   { label: "Low", value: "BLOCK_ONLY_HIGH" },
   { label: "Standard", value: "BLOCK_MEDIUM_AND_ABOVE" },
   { label: "Strict", value: "BLOCK_LOW_AND_ABOVE" },
+];
+
+export const SAFETY_CATEGORIES: { label: string; value: SafetyCategory }[] = [
+  { label: "Harassment", value: "HARM_CATEGORY_HARASSMENT" },
+  { label: "Hate Speech", value: "HARM_CATEGORY_HATE_SPEECH" },
+  { label: "Sexual Content", value: "HARM_CATEGORY_SEXUALLY_EXPLICIT" },
+  { label: "Dangerous Content", value: "HARM_CATEGORY_DANGEROUS_CONTENT" },
+];
+
+export const THINKING_LEVELS = [
+  { label: "Auto", value: "auto" },
+  { label: "Low", value: "LOW" },
+  { label: "High", value: "HIGH" },
 ];
\ No newline at end of file
@@ -1,12 +1,17 @@
-import Dexie, { type Table } from 'dexie';
-import { Chat, Message, ImageBlob, Prompt } from './types';
+import Dexie, { type Table, type Transaction } from 'dexie';
+import { Chat, Message, ImageBlob, Prompt, StylePreset, Collection, Folder } from './types';
 import { DB_NAME } from './constants';
+import { linkLinearMessages } from './services/messageTree';
+import { getSearchWords } from './services/searchIndex';
 
 export class OkobitDB extends Dexie {
   chats!: Table<Chat>;
   messages!: Table<Message>;
   images!: Table<ImageBlob>;
   prompts!: Table<Prompt>;
+  presets!: Table<StylePreset>;
+  collections!: Table<Collection>;
+  folders!: Table<Folder>;
 
   constructor() {
     super(DB_NAME);
@@ -33,6 +38,142 @@ export class OkobitDB extends Dexie {
         }
       });
     });
+
+    // Version 4: Messages form a branch tree via parentId; link existing chats linearly
+    this.version(4).stores({
+      messages: 'id, chatId, timestamp, parentId, *imageIds'
+    }).upgrade(async tx => {
+      const messages: Message[] = await tx.table('messages').toArray();
+      const byChat = new Map<string, Message[]>();
+      messages.forEach(m => {
+        if (!byChat.has(m.chatId)) byChat.set(m.chatId, []);
+        byChat.get(m.chatId)!.push(m);
+      });
+
+      for (const [chatId, chatMessages] of byChat) {
+        const { parents, leafId } = linkLinearMessages(chatMessages);
+        for (const [id, parentId] of parents) {
+          await tx.table('messages').update(id, { parentId });
+        }
+        await tx.table('chats').update(chatId, { activeLeafId: leafId ?? undefined });
+      }
+    });
+
+    // Version 5: Index pinned project reference images so cleanup can see them
+    this.version(5).stores({
+      chats: 'id, orderIndex, pinned, updatedAt, *referenceImageIds'
+    });
+
+    // Version 6: Style presets, with their reference images indexed for cleanup
+    this.version(6).stores({
+      presets: 'id, name, createdAt, *referenceImageIds'
+    });
+
+    // Version 7: Index image provenance so the lineage view can find descendants
+    this.version(7).stores({
+      images: 'id, createdAt, isGalleryVisible, galleryTimestamp, *parentImageIds'
+    });
+
+    // Version 8: Gallery collections (many-to-many through images.collectionIds) and image tags
+    this.version(8).stores({
+      collections: 'id, name, createdAt',
+      images: 'id, createdAt, isGalleryVisible, galleryTimestamp, *parentImageIds, *collectionIds, *tags'
+    });
+
+    // Version 9: Word-prefix search index over message text, project titles and prompts
+    this.version(9).stores({
+      chats: 'id, orderIndex, pinned, updatedAt, *referenceImageIds, *searchWords',
+      messages: 'id, chatId, timestamp, parentId, *imageIds, *searchWords',
+      prompts: '++id, type, timestamp, *searchWords'
+    }).upgrade(async tx => {
+      await tx.table('chats').toCollection().modify(c => { c.searchWords = getSearchWords(c.title); });
+      await tx.table('messages').toCollection().modify(m => { m.searchWords = getSearchWords(m.text); });
+      await tx.table('prompts').toCollection().modify(p => { p.searchWords = getSearchWords(p.text); });
+    });
+
+    // Version 10: Sidebar folders, projects point at theirs through folderId
+    this.version(10).stores({
+      folders: 'id, orderIndex',
+      chats: 'id, orderIndex, pinned, updatedAt, folderId, *referenceImageIds, *searchWords'
+    });
+
+    // Version 11: Archived projects and message counts, so the sidebar can page through active projects
+    this.version(11).stores({
+      chats: 'id, orderIndex, pinned, updatedAt, folderId, messageCount, [archived+updatedAt], *referenceImageIds, *searchWords'
+    }).upgrade(async tx => {
+      const counts = new Map<string, number>();
+      await tx.table('messages').each((m: Message) => counts.set(m.chatId, (counts.get(m.chatId) || 0) + 1));
+      await tx.table('chats').toCollection().modify((c: Chat) => {
+        c.archived = c.archived ?? 0;
+        c.messageCount = counts.get(c.id) || 0;
+      });
+    });
+
+    // Version 12: Sidebar groups, active projects per folder and the top level in display order
+    this.version(12).stores({
+      chats: 'id, orderIndex, pinned, updatedAt, folderId, messageCount, [archived+updatedAt], [archived+orderIndex+updatedAt], [folderId+archived], *referenceImageIds, *searchWords'
+    });
+
+    // Version 13: Pinned projects through an index instead of a scan of every active project
+    this.version(13).stores({
+      chats: 'id, orderIndex, pinned, updatedAt, folderId, messageCount, [archived+updatedAt], [archived+orderIndex+updatedAt], [folderId+archived], [archived+pinnedKey], *referenceImageIds, *searchWords'
+    }).upgrade(async tx => {
+      await tx.table('chats').toCollection().modify((c: Chat) => {
+        c.pinnedKey = c.pinned ? 1 : 0;
+      });
+    });
+
+    this.indexSearchWords(this.chats, 'title');
+    this.indexSearchWords(this.messages, 'text');
+    this.indexSearchWords(this.prompts, 'text');
+    this.trackMessageCounts();
+  }
+
+  // Keeps searchWords in sync with the indexed field on every write, so callers never set it
+  private indexSearchWords<T extends { searchWords?: string[] }>(table: Table<T>, field: keyof T & string) {
+    table.hook('creating', (_key, obj) => {
+      obj.searchWords = getSearchWords(obj[field] as unknown as string);
+    });
+    table.hook('updating', (mods: Record<string, any>) => {
+      if (field in mods) return { searchWords: getSearchWords(mods[field]) };
+    });
+  }
+
+  // Recounts Chat.messageCount once a transaction adding or deleting messages commits, whichever code path wrote them
+  private trackMessageCounts() {
+    const pending = new WeakMap<Transaction, Set<string>>();
+    const touch = (chatId: string, tx: Transaction) => {
+      let chatIds = pending.get(tx);
+      if (!chatIds) {
+        const ids = chatIds = new Set<string>();
+        pending.set(tx, ids);
+        tx.on('complete', () => { this.recountMessages(Array.from(ids)).catch(console.error); });
+      }
+      chatIds.add(chatId);
+    };
+
+    this.chats.hook('creating', (_key, chat) => {
+      chat.archived = chat.archived ?? 0;
+      chat.messageCount = chat.messageCount ?? 0;
+      chat.pinnedKey = chat.pinned ? 1 : 0;
+    });
+    // A put over an existing record reports the dropped pinnedKey as a modification too
+    this.chats.hook('updating', (mods: Record<string, any>, _key, chat) => {
+      if ('pinned' in mods || 'pinnedKey' in mods) {
+        return { pinnedKey: ('pinned' in mods ? mods.pinned : chat.pinned) ? 1 : 0 };
+      }
+    });
+    this.messages.hook('creating', (_key, msg, tx) => touch(msg.chatId, tx));
+    this.messages.hook('deleting', (_key, msg, tx) => { if (msg) touch(msg.chatId, tx); });
+  }
+
+  private async recountMessages(chatIds: string[]) {
+    await this.transaction('rw', this.chats, this.messages, async () => {
+      for (const chatId of chatIds) {
+        const messageCount = await this.messages.where('chatId').equals(chatId).count();
+        await this.chats.update(chatId, { messageCount });
+      }
+    });
   }
 }
 
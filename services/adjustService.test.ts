@@ -0,0 +1,35 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '../db';
+import { DEFAULT_ADJUSTMENTS, saveAdjustedImage } from './adjustService';
+
+// Thumbnails need a canvas, which node does not have
+vi.mock('./geminiService', async importOriginal => ({
+    ...await importOriginal<typeof import('./geminiService')>(),
+    createThumbnail: async (blob: Blob) => blob
+}));
+
+describe('saveAdjustedImage', () => {
+    beforeEach(async () => {
+        await db.images.clear();
+    });
+
+    it('adds the copy to the gallery while there is a free slot', async () => {
+        const { id, inGallery } = await saveAdjustedImage('src', new Blob(['x'], { type: 'image/png' }), DEFAULT_ADJUSTMENTS, 1);
+
+        expect(inGallery).toBe(true);
+        expect((await db.images.get(id))!.galleryTimestamp).toBeGreaterThan(0);
+    });
+
+    it('saves the copy hidden once the gallery is full', async () => {
+        await db.images.add({ id: 'kept', blob: new Blob(['k']), mimeType: 'image/png', createdAt: 1, isGalleryVisible: true, galleryTimestamp: 1 });
+
+        const { id, inGallery } = await saveAdjustedImage('src', new Blob(['x'], { type: 'image/png' }), DEFAULT_ADJUSTMENTS, 1);
+        const saved = (await db.images.get(id))!;
+
+        expect(inGallery).toBe(false);
+        expect(saved.isGalleryVisible).toBe(false);
+        expect(saved.galleryTimestamp).toBeUndefined();
+        expect(saved.parentImageIds).toEqual(['src']);
+    });
+});
@@ -0,0 +1,131 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { ImageAdjustments, ImageExportFormat } from '../types';
+import { createThumbnail, loadImage } from './geminiService';
+import { getGallerySlots } from './storageService';
+
+/**
+ * Client-side post-processing for the Lightbox's Adjust mode. Edits are rendered
+ * onto a canvas and saved as a new image, the original is never replaced.
+ */
+
+// Keeps upscaled output within what browsers can reliably allocate for a canvas
+const MAX_OUTPUT_DIMENSION = 8192;
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+    crop: 'auto',
+    rotation: 0,
+    flipH: false,
+    flipV: false,
+    brightness: 100,
+    contrast: 100,
+    scale: 1,
+    format: 'image/png',
+    quality: 0.92
+};
+
+export const EXPORT_FORMATS: { label: string; value: ImageExportFormat; ext: string }[] = [
+    { label: 'PNG', value: 'image/png', ext: 'png' },
+    { label: 'JPEG', value: 'image/jpeg', ext: 'jpg' },
+    { label: 'WebP', value: 'image/webp', ext: 'webp' }
+];
+
+export const UPSCALE_FACTORS = [1, 2, 4];
+
+export function getFormatExtension(format: ImageExportFormat): string {
+    return EXPORT_FORMATS.find(f => f.value === format)?.ext || 'png';
+}
+
+/**
+ * Largest centred rectangle of the given aspect ratio ("16:9") inside width x height.
+ */
+export function getCropRect(width: number, height: number, ratio: string) {
+    const [rw, rh] = ratio.split(':').map(Number);
+    if (!rw || !rh) return { x: 0, y: 0, width, height };
+
+    const target = rw / rh;
+    let w = width;
+    let h = Math.round(width / target);
+    if (h > height) {
+        h = height;
+        w = Math.round(height * target);
+    }
+    return { x: Math.round((width - w) / 2), y: Math.round((height - h) / 2), width: w, height: h };
+}
+
+/**
+ * Applies the adjustments in order: rotate/flip and tone, then crop, then scale.
+ * `maxDimension` caps the output size, used for fast previews.
+ */
+export async function renderAdjustedImage(source: Blob, adj: ImageAdjustments, maxDimension?: number): Promise<Blob> {
+    const img = await loadImage(source);
+    const quarterTurn = adj.rotation === 90 || adj.rotation === 270;
+    const rotatedW = quarterTurn ? img.naturalHeight : img.naturalWidth;
+    const rotatedH = quarterTurn ? img.naturalWidth : img.naturalHeight;
+
+    const crop = adj.crop === 'auto'
+        ? { x: 0, y: 0, width: rotatedW, height: rotatedH }
+        : getCropRect(rotatedW, rotatedH, adj.crop);
+
+    const limit = Math.min(maxDimension || MAX_OUTPUT_DIMENSION, MAX_OUTPUT_DIMENSION);
+    const scale = Math.min(adj.scale, limit / Math.max(crop.width, crop.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(crop.width * scale));
+    canvas.height = Math.max(1, Math.round(crop.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported");
+
+    // JPEG has no alpha channel, transparent areas would otherwise turn black
+    if (adj.format === 'image/jpeg') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.filter = `brightness(${adj.brightness}%) contrast(${adj.contrast}%)`;
+
+    // Work in rotated-image coordinates: shift so the crop lands at the origin, then flip and
+    // rotate about the centre. Flipping first keeps "horizontal" horizontal after a quarter turn.
+    ctx.scale(scale, scale);
+    ctx.translate(-crop.x + rotatedW / 2, -crop.y + rotatedH / 2);
+    ctx.scale(adj.flipH ? -1 : 1, adj.flipV ? -1 : 1);
+    ctx.rotate((adj.rotation * Math.PI) / 180);
+    ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            b => b ? resolve(b) : reject(new Error("Failed to encode image")),
+            adj.format,
+            adj.format === 'image/png' ? undefined : adj.quality
+        );
+    });
+}
+
+/**
+ * Saves a rendered copy as a new image derived from the source. The copy goes to the
+ * gallery when it has a free slot under `galleryLimit` (0 = no limit), otherwise it is saved hidden.
+ */
+export async function saveAdjustedImage(sourceId: string, blob: Blob, adj: ImageAdjustments, galleryLimit: number): Promise<{ id: string; inGallery: boolean }> {
+    const id = uuidv4();
+    const createdAt = Date.now();
+    const thumbnail = await createThumbnail(blob, blob.type, 300);
+
+    let inGallery = false;
+    await db.transaction('rw', db.images, async () => {
+        inGallery = await getGallerySlots(galleryLimit) > 0;
+        await db.images.add({
+            id,
+            blob,
+            thumbnail,
+            mimeType: blob.type,
+            createdAt,
+            isGalleryVisible: inGallery,
+            galleryTimestamp: inGallery ? createdAt : undefined,
+            parentImageIds: [sourceId],
+            adjustments: adj
+        });
+    });
+    return { id, inGallery };
+}
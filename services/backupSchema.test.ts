@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_VERSION, BackupValidationError, hashBlob, parseBackup } from './backupSchema';
+
+const EMPTY_MANIFEST = { algorithm: 'SHA-256', images: {} };
+
+function current(patch: Record<string, unknown> = {}): string {
+    return JSON.stringify({
+        version: BACKUP_VERSION,
+        chats: [],
+        messages: [],
+        prompts: [],
+        collections: [],
+        folders: [],
+        images: [],
+        manifest: EMPTY_MANIFEST,
+        ...patch
+    });
+}
+
+function expectInvalid(text: string, message: string) {
+    expect(() => parseBackup(text)).toThrow(BackupValidationError);
+    expect(() => parseBackup(text)).toThrow(message);
+}
+
+describe('parseBackup', () => {
+    it('keeps only the fields the schema lists', () => {
+        const backup = parseBackup(current({
+            chats: [{ id: 'c1', title: 'A', pinned: false, orderIndex: 0, createdAt: 1, updatedAt: 1, injected: '<script>' }]
+        }));
+
+        expect(backup.chats).toEqual([{ id: 'c1', title: 'A', pinned: false, orderIndex: 0, createdAt: 1, updatedAt: 1 }]);
+    });
+
+    it('migrates an unversioned export and links its messages into a chain', () => {
+        const backup = parseBackup(JSON.stringify({
+            chats: [{ id: 'c1', title: 'Old', createdAt: 1, updatedAt: 3 }],
+            messages: [
+                { id: 'reply', chatId: 'c1', role: 'model', text: 'hi', timestamp: 2 },
+                { id: 'ask', chatId: 'c1', role: 'user', text: 'hello', timestamp: 1 }
+            ]
+        }));
+
+        expect(backup.version).toBe(BACKUP_VERSION);
+        expect(backup.chats[0]).toMatchObject({ pinned: false, orderIndex: 0, activeLeafId: 'reply' });
+        expect(backup.messages.map(m => [m.id, m.parentId])).toEqual([['reply', 'ask'], ['ask', null]]);
+        expect(backup).toMatchObject({ prompts: [], images: [], collections: [], folders: [] });
+        expect(backup.manifest).toBeUndefined();
+    });
+
+    it('links sibling variants of a version 4 export to the same prompt', () => {
+        const backup = parseBackup(JSON.stringify({
+            version: 4,
+            chats: [{ id: 'c1', title: 'V', pinned: false, orderIndex: 0, createdAt: 1, updatedAt: 1 }],
+            messages: [
+                { id: 'ask', chatId: 'c1', role: 'user', text: 'go', timestamp: 1 },
+                { id: 'v1', chatId: 'c1', role: 'model', text: 'a', timestamp: 2, variantGroupId: 'g' },
+                { id: 'v2', chatId: 'c1', role: 'model', text: 'b', timestamp: 3, variantGroupId: 'g', variantPicked: true },
+                { id: 'next', chatId: 'c1', role: 'user', text: 'more', timestamp: 4 }
+            ],
+            prompts: [],
+            images: []
+        }));
+
+        const parents = Object.fromEntries(backup.messages.map(m => [m.id, m.parentId]));
+        expect(parents).toEqual({ ask: null, v1: 'ask', v2: 'ask', next: 'v2' });
+    });
+
+    it('rejects files it cannot read', () => {
+        expectInvalid('not json', 'is not valid JSON');
+        expectInvalid('[]', 'should be an object, got an array');
+        expectInvalid(current({ version: BACKUP_VERSION + 1 }), 'is newer than this app supports');
+        expectInvalid(current({ version: 0 }), 'should be a positive whole number');
+    });
+
+    it('requires the manifest from version 5 on', () => {
+        expectInvalid(current({ manifest: undefined }), 'manifest is missing');
+        expectInvalid(current({ manifest: { algorithm: 'SHA-256', images: { a: 'nope' } } }), 'should be a SHA-256 hex digest');
+    });
+
+    it('names the record and field that is wrong', () => {
+        const chat = { id: 'c1', title: 'A', pinned: false, orderIndex: 0, createdAt: 1, updatedAt: 1 };
+
+        expectInvalid(current({ messages: [{ id: 'm1', chatId: 'c1', role: 'system', text: '', timestamp: 1 }] }), 'messages[0] (id "m1").role should be one of "user", "model"');
+        expectInvalid(current({ chats: [{ ...chat, id: '../escape' }] }), 'chats[0] (id "../escape").id has an invalid value');
+        expectInvalid(current({ chats: [chat, chat] }), 'chats[1] (id "c1") repeats an ID');
+        expectInvalid(current({ chats: [{ ...chat, title: 5 }] }), 'chats[0] (id "c1").title should be string, got 5');
+    });
+});
+
+describe('hashBlob', () => {
+    it('hashes the bytes as hex SHA-256', async () => {
+        expect(await hashBlob(new Blob(['abc']))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+});
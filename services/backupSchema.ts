@@ -0,0 +1,469 @@
+import { AppConfig, Chat, Collection, Confirmations, CustomModel, Folder, GenConfig, GenerationSnapshot, GroundingInfo, GroundingSource, ImageAdjustments, ImageBlob, Message, Prompt, SafetyCategory, SafetyRating } from '../types';
+import { linkLinearMessages } from './messageTree';
+
+/**
+ * The backup format: okobit_data.json inside an export zip, or a whole legacy JSON
+ * export. Files are migrated up to BACKUP_VERSION and every record is checked against
+ * the schemas below before import, so a malformed or hostile file is rejected with the
+ * offending record named instead of being written to IndexedDB. Fields a schema does
+ * not list are dropped.
+ *
+ * Versions:
+ * - 1-3 (or no version): plain JSON exports, images embedded as base64
+ * - 4: zip with an images/ folder, later also provenance, collections and folders
+ * - 5: integrity manifest with a SHA-256 hash of every image file, required from
+ *   this version on; only backups migrated from older versions may lack it
+ */
+
+export const BACKUP_VERSION = 5;
+
+// Image record without its blobs; those travel as files in images/
+export interface BackupImage extends Pick<ImageBlob,
+    'id' | 'mimeType' | 'createdAt' | 'isGalleryVisible' | 'galleryTimestamp' | 'sourceMessageId' |
+    'parentImageIds' | 'generation' | 'adjustments' | 'collectionIds' | 'tags'> {
+    blob?: string; // Base64 image data, only in legacy JSON exports
+}
+
+export interface BackupManifest {
+    algorithm: 'SHA-256';
+    images: Record<string, string>; // Image ID -> hex hash of its file in images/
+}
+
+// Settings as a backup carries them; any of them may be missing
+export type BackupConfig = Partial<Omit<AppConfig, 'confirmations'>> & { confirmations?: Partial<Confirmations> };
+
+export interface Backup {
+    version: number;
+    exportedAt?: number;
+    scope?: string; // ExportScope type the backup was made with
+    config?: BackupConfig; // Full exports only, without the API key
+    chats: Chat[];
+    messages: Message[];
+    prompts: Prompt[];
+    collections: Collection[];
+    folders: Folder[];
+    images: BackupImage[];
+    manifest?: BackupManifest;
+}
+
+export class BackupValidationError extends Error {
+    path: string; // Where the problem is, e.g. messages[12] (id "abc").role
+
+    constructor(path: string, problem: string) {
+        super(`${path} ${problem}`);
+        this.name = 'BackupValidationError';
+        this.path = path;
+    }
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'string[]';
+
+interface FieldSpec {
+    type: FieldType;
+    optional?: boolean;
+    nullable?: boolean;
+    oneOf?: readonly (string | number)[];
+    pattern?: RegExp; // Checked on strings and on each item of a string[]
+    schema?: Record<string, FieldSpec>; // Fields of a nested object
+    items?: Record<string, FieldSpec>; // Fields of each object in an array
+}
+
+type Schema<T> = { [K in keyof Required<T>]: FieldSpec };
+
+const required = (type: FieldType, rules: Partial<FieldSpec> = {}): FieldSpec => ({ type, ...rules });
+const optional = (type: FieldType, rules: Partial<FieldSpec> = {}): FieldSpec => ({ type, optional: true, ...rules });
+
+// IDs end up in file names inside the archive, so they stay plain
+const ID_PATTERN = /^[\w-]{1,128}$/;
+const ID = required('string', { pattern: ID_PATTERN });
+const ID_LIST = optional('string[]', { pattern: ID_PATTERN });
+
+const GEN_CONFIG: Schema<GenConfig> = {
+    aspectRatio: required('string'),
+    resolution: required('string'),
+    variants: required('number')
+};
+
+const GROUNDING_SOURCE: Schema<GroundingSource> = {
+    uri: required('string', { pattern: /^https?:\/\//i }), // Rendered as a link
+    title: optional('string'),
+    domain: optional('string')
+};
+
+const GROUNDING: Schema<GroundingInfo> = {
+    sources: required('array', { items: GROUNDING_SOURCE }),
+    queries: required('string[]'),
+    searchEntryPointHtml: optional('string')
+};
+
+const SAFETY_RATING: Schema<SafetyRating> = {
+    category: required('string'),
+    probability: optional('string'),
+    blocked: optional('boolean')
+};
+
+const MESSAGE_META: Schema<NonNullable<Message['meta']>> = {
+    model: required('string'),
+    modelId: optional('string'),
+    requestedModelId: optional('string'),
+    modelVersion: optional('string'),
+    duration: required('string'),
+    tokens: optional('object', {
+        schema: { prompt: required('number'), output: required('number'), thoughts: optional('number'), total: required('number') }
+    }),
+    costUsd: optional('number'),
+    finishReason: optional('string'),
+    safetyBlocked: optional('boolean'),
+    safetyRatings: optional('array', { items: SAFETY_RATING }),
+    grounding: optional('object', { schema: GROUNDING }),
+    errorCode: optional('string', { oneOf: ['rate_limit', 'overloaded', 'invalid_key', 'payload_too_large', 'safety', 'network', 'timeout', 'unknown'] }),
+    attempts: optional('number')
+};
+
+const GENERATION: Schema<GenerationSnapshot> = {
+    prompt: required('string'),
+    modelId: required('string'),
+    aspectRatio: required('string'),
+    resolution: required('string'),
+    seed: optional('number')
+};
+
+const ADJUSTMENTS: Schema<ImageAdjustments> = {
+    crop: required('string'),
+    rotation: required('number', { oneOf: [0, 90, 180, 270] }),
+    flipH: required('boolean'),
+    flipV: required('boolean'),
+    brightness: required('number'),
+    contrast: required('number'),
+    scale: required('number'),
+    format: required('string', { oneOf: ['image/png', 'image/jpeg', 'image/webp'] }),
+    quality: required('number')
+};
+
+const CHAT: Schema<Chat> = {
+    id: ID,
+    title: required('string'),
+    pinned: required('boolean'),
+    pinnedKey: optional('number', { oneOf: [0, 1] }),
+    orderIndex: required('number'),
+    folderId: optional('string', { nullable: true, pattern: ID_PATTERN }),
+    archived: optional('number', { oneOf: [0, 1] }),
+    messageCount: optional('number'),
+    createdAt: required('number'),
+    updatedAt: required('number'),
+    modelId: optional('string'),
+    activeLeafId: optional('string', { pattern: ID_PATTERN }),
+    referenceImageIds: ID_LIST,
+    genConfig: optional('object', { schema: GEN_CONFIG }),
+    systemInstruction: optional('string'),
+    searchWords: optional('string[]')
+};
+
+const MESSAGE: Schema<Message> = {
+    id: ID,
+    chatId: ID,
+    parentId: optional('string', { nullable: true, pattern: ID_PATTERN }),
+    role: required('string', { oneOf: ['user', 'model'] }),
+    text: required('string'),
+    imageIds: ID_LIST,
+    composedPrompt: optional('string'),
+    presets: optional('array', { items: { id: required('string'), name: required('string') } }),
+    timestamp: required('number'),
+    thoughts: optional('string'),
+    variantGroupId: optional('string'),
+    variantIndex: optional('number'),
+    variantPicked: optional('boolean'),
+    batchId: optional('string'),
+    searchWords: optional('string[]'),
+    meta: optional('object', { schema: MESSAGE_META }),
+    error: optional('boolean')
+};
+
+const PROMPT: Schema<Prompt> = {
+    id: optional('number'),
+    text: required('string'),
+    type: required('string', { oneOf: ['recent', 'saved'] }),
+    timestamp: required('number'),
+    searchWords: optional('string[]')
+};
+
+const COLLECTION: Schema<Collection> = {
+    id: ID,
+    name: required('string'),
+    createdAt: required('number')
+};
+
+const FOLDER: Schema<Folder> = {
+    id: ID,
+    name: required('string'),
+    orderIndex: required('number'),
+    collapsed: optional('boolean'),
+    createdAt: required('number')
+};
+
+const IMAGE: Schema<BackupImage> = {
+    id: ID,
+    mimeType: required('string', { pattern: /^[\w.+-]+\/[\w.+-]+$/ }),
+    createdAt: required('number'),
+    isGalleryVisible: required('boolean'),
+    galleryTimestamp: optional('number'),
+    sourceMessageId: optional('string', { pattern: ID_PATTERN }),
+    parentImageIds: ID_LIST,
+    generation: optional('object', { schema: GENERATION }),
+    adjustments: optional('object', { schema: ADJUSTMENTS }),
+    collectionIds: ID_LIST,
+    tags: optional('string[]'),
+    blob: optional('string', { pattern: /^[A-Za-z0-9+/]*={0,2}$/ })
+};
+
+const SAFETY_OVERRIDES: Schema<Record<SafetyCategory, string>> = {
+    HARM_CATEGORY_HARASSMENT: optional('string'),
+    HARM_CATEGORY_HATE_SPEECH: optional('string'),
+    HARM_CATEGORY_SEXUALLY_EXPLICIT: optional('string'),
+    HARM_CATEGORY_DANGEROUS_CONTENT: optional('string')
+};
+
+// Optional so backups made before a confirmation existed still pass; missing ones keep their current value
+const CONFIRMATIONS: Schema<Confirmations> = {
+    deleteProject: optional('boolean'),
+    deleteMessage: optional('boolean'),
+    deleteImage: optional('boolean'),
+    regenerate: optional('boolean'),
+    fork: optional('boolean'),
+    import: optional('boolean'),
+    factoryReset: optional('boolean')
+};
+
+const CUSTOM_MODEL: Schema<CustomModel> = {
+    id: required('string'),
+    label: required('string'),
+    baseId: required('string')
+};
+
+// Every setting is optional in a backup; missing ones keep their current value
+const CONFIG: Schema<AppConfig> = {
+    apiKey: optional('string'),
+    themeAccent: optional('string'),
+    safetyThreshold: optional('string'),
+    safetyOverrides: optional('object', { schema: SAFETY_OVERRIDES }),
+    detailedVerbosity: optional('boolean'),
+    searchGrounding: optional('boolean'),
+    includeThoughts: optional('boolean'),
+    thinkingLevel: optional('string'),
+    thinkingBudget: optional('number'),
+    lightMode: optional('boolean'),
+    maxConcurrentJobs: optional('number'),
+    contextTokenBudget: optional('number'),
+    galleryLimit: optional('number'),
+    customModels: optional('array', { items: CUSTOM_MODEL }),
+    confirmations: optional('object', { schema: CONFIRMATIONS })
+};
+
+const MANIFEST: Schema<BackupManifest> = {
+    algorithm: required('string', { oneOf: ['SHA-256'] }),
+    images: required('object')
+};
+
+type RawRecord = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'object') return 'an object';
+    if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+    return String(value);
+};
+
+// Names the record by position and, when it has a usable one, by ID
+const recordPath = (table: string, index: number, record: unknown) =>
+    isObject(record) && typeof record.id === 'string'
+        ? `${table}[${index}] (id ${describe(record.id)})`
+        : `${table}[${index}]`;
+
+const hasType = (value: unknown, type: FieldType): boolean => {
+    switch (type) {
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'object': return isObject(value);
+        case 'array': return Array.isArray(value);
+        case 'string[]': return Array.isArray(value) && value.every(v => typeof v === 'string');
+        default: return typeof value === type;
+    }
+};
+
+/**
+ * Checks a record against its schema and returns a copy holding only the listed fields.
+ */
+function checkRecord<T>(value: unknown, schema: Record<string, FieldSpec>, path: string): T {
+    if (!isObject(value)) throw new BackupValidationError(path, `should be an object, got ${describe(value)}`);
+
+    const clean: RawRecord = {};
+    for (const [key, spec] of Object.entries(schema)) {
+        const field = value[key];
+        const fieldPath = `${path}.${key}`;
+
+        if (field === undefined) {
+            if (!spec.optional) throw new BackupValidationError(fieldPath, 'is missing');
+            continue;
+        }
+        if (field === null && spec.nullable) {
+            clean[key] = null;
+            continue;
+        }
+        if (!hasType(field, spec.type)) {
+            throw new BackupValidationError(fieldPath, `should be ${spec.type}, got ${describe(field)}`);
+        }
+        if (spec.oneOf && !spec.oneOf.includes(field as string | number)) {
+            throw new BackupValidationError(fieldPath, `should be one of ${spec.oneOf.map(v => JSON.stringify(v)).join(', ')}, got ${describe(field)}`);
+        }
+        if (spec.pattern) {
+            const bad = (Array.isArray(field) ? field : [field]).find(v => !spec.pattern!.test(v as string));
+            if (bad !== undefined) throw new BackupValidationError(fieldPath, `has an invalid value ${describe(bad)}`);
+        }
+        if (spec.schema) clean[key] = checkRecord(field, spec.schema, fieldPath);
+        else if (spec.items) clean[key] = (field as unknown[]).map((item, i) => checkRecord(item, spec.items!, `${fieldPath}[${i}]`));
+        else clean[key] = field;
+    }
+    return clean as T;
+}
+
+function checkTable<T>(data: RawRecord, table: string, schema: Schema<T>): T[] {
+    const records = data[table];
+    if (!Array.isArray(records)) throw new BackupValidationError(table, `should be an array, got ${describe(records)}`);
+
+    const seen = new Set<unknown>();
+    return records.map((record, i) => {
+        const path = recordPath(table, i, record);
+        const clean = checkRecord<T>(record, schema, path);
+        const id = (clean as { id?: unknown }).id;
+        if (id !== undefined) {
+            if (seen.has(id)) throw new BackupValidationError(path, 'repeats an ID used earlier in the backup');
+            seen.add(id);
+        }
+        return clean;
+    });
+}
+
+const objectsIn = (value: unknown): RawRecord[] => (Array.isArray(value) ? value.filter(isObject) : []);
+
+/**
+ * Backups made before branching existed have no parentId on their messages.
+ * Links those chats into a single chain, the same way the schema upgrade does.
+ */
+function linkLegacyChats(data: RawRecord) {
+    const byChat = new Map<unknown, RawRecord[]>();
+    objectsIn(data.messages).forEach(m => {
+        if (!byChat.has(m.chatId)) byChat.set(m.chatId, []);
+        byChat.get(m.chatId)!.push(m);
+    });
+
+    const chats = objectsIn(data.chats);
+    byChat.forEach((chatMessages, chatId) => {
+        if (chatMessages.some(m => m.parentId !== undefined)) return;
+        // Still unchecked here; anything malformed is rejected by validation right after
+        const { parents, leafId } = linkLinearMessages(chatMessages as unknown as Message[]);
+        chatMessages.forEach(m => { m.parentId = parents.get(m.id as string) ?? null; });
+        const chat = chats.find(c => c.id === chatId);
+        if (chat && !chat.activeLeafId && leafId) chat.activeLeafId = leafId;
+    });
+}
+
+/**
+ * Steps that bring a backup from the previous version up to `to`. They run on the
+ * parsed JSON before validation, so they must tolerate records of the wrong shape.
+ */
+const MIGRATIONS: { to: number; migrate: (data: RawRecord) => void }[] = [
+    {
+        // Plain JSON exports could leave out empty tables and the sidebar fields
+        to: 4,
+        migrate: data => {
+            for (const table of ['chats', 'messages', 'prompts', 'images']) data[table] ??= [];
+            objectsIn(data.chats).forEach(c => {
+                c.pinned ??= false;
+                c.orderIndex ??= 0;
+            });
+            objectsIn(data.images).forEach(img => { img.isGalleryVisible ??= false; });
+        }
+    },
+    {
+        // Version 4 predates collections, folders and, in early exports, branching
+        to: 5,
+        migrate: data => {
+            data.collections ??= [];
+            data.folders ??= [];
+            linkLegacyChats(data);
+        }
+    }
+];
+
+/**
+ * Parses the text of okobit_data.json or a legacy JSON export, migrates it to the
+ * current version and validates every record. Throws BackupValidationError naming
+ * the first problem found.
+ */
+export function parseBackup(text: string): Backup {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new BackupValidationError('Backup data', 'is not valid JSON');
+    }
+    if (!isObject(data)) throw new BackupValidationError('Backup data', `should be an object, got ${describe(data)}`);
+
+    // The first exports carried no version
+    const version = data.version ?? 1;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new BackupValidationError('version', `should be a positive whole number, got ${describe(version)}`);
+    }
+    if (version > BACKUP_VERSION) {
+        throw new BackupValidationError('version', `${version} is newer than this app supports (${BACKUP_VERSION}), update the app first`);
+    }
+
+    MIGRATIONS.filter(step => step.to > version).forEach(step => step.migrate(data as RawRecord));
+
+    if (data.exportedAt !== undefined && !hasType(data.exportedAt, 'number')) {
+        throw new BackupValidationError('exportedAt', `should be number, got ${describe(data.exportedAt)}`);
+    }
+    if (data.scope !== undefined && typeof data.scope !== 'string') {
+        throw new BackupValidationError('scope', `should be string, got ${describe(data.scope)}`);
+    }
+
+    const backup: Backup = {
+        version: BACKUP_VERSION,
+        exportedAt: data.exportedAt as number | undefined,
+        scope: data.scope as string | undefined,
+        config: data.config == null ? undefined : checkRecord<BackupConfig>(data.config, CONFIG, 'config'),
+        chats: checkTable(data, 'chats', CHAT),
+        messages: checkTable(data, 'messages', MESSAGE),
+        prompts: checkTable(data, 'prompts', PROMPT),
+        collections: checkTable(data, 'collections', COLLECTION),
+        folders: checkTable(data, 'folders', FOLDER),
+        images: checkTable(data, 'images', IMAGE)
+    };
+
+    // Current-format archives must carry the manifest, or stripping it would skip the integrity check
+    if (data.manifest === undefined && version >= 5) {
+        throw new BackupValidationError('manifest', 'is missing, version 5 backups must list a hash for every image');
+    }
+    if (data.manifest !== undefined) {
+        const manifest = checkRecord<BackupManifest>(data.manifest, MANIFEST, 'manifest');
+        Object.entries(manifest.images).forEach(([id, hash]) => {
+            if (typeof hash !== 'string' || !/^[0-9a-f]{64}$/.test(hash)) {
+                throw new BackupValidationError(`manifest.images[${describe(id)}]`, `should be a SHA-256 hex digest, got ${describe(hash)}`);
+            }
+        });
+        backup.manifest = manifest;
+    }
+
+    return backup;
+}
+
+/**
+ * Hex SHA-256 of a blob's bytes, as recorded in the manifest.
+ */
+export async function hashBlob(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,86 @@
+import { db } from '../db';
+import { Message } from '../types';
+import { deleteMessagesWithCleanup } from './cleanupService';
+import { getActivePath, getLatestLeaf } from './messageTree';
+
+/**
+ * Loads the active branch of a chat, root first.
+ */
+export async function getActiveBranch(chatId: string): Promise<Message[]> {
+    const chat = await db.chats.get(chatId);
+    const messages = await db.messages.where('chatId').equals(chatId).toArray();
+    return getActivePath(messages, chat?.activeLeafId);
+}
+
+/**
+ * Loads the branch ending at leafId, root first.
+ */
+export async function getBranch(chatId: string, leafId: string): Promise<Message[]> {
+    const messages = await db.messages.where('chatId').equals(chatId).toArray();
+    return getActivePath(messages, leafId);
+}
+
+export async function setActiveLeaf(chatId: string, leafId: string | null) {
+    await db.chats.update(chatId, { activeLeafId: leafId ?? undefined });
+}
+
+/**
+ * Moves the active leaf from fromId to a new reply. Left alone when the user switched to
+ * another branch in the meantime, e.g. while a generation was running.
+ */
+export async function advanceActiveLeaf(chatId: string, fromId: string | null, leafId: string) {
+    await db.transaction('rw', db.chats, async () => {
+        const chat = await db.chats.get(chatId);
+        if (!chat) return;
+        await db.chats.update(chatId, {
+            updatedAt: Date.now(),
+            ...((chat.activeLeafId ?? null) === fromId ? { activeLeafId: leafId } : {})
+        });
+    });
+}
+
+/**
+ * Makes the branch through messageId active, continuing down its most recent replies.
+ */
+export async function switchBranch(chatId: string, messageId: string) {
+    const messages = await db.messages.where('chatId').equals(chatId).toArray();
+    await setActiveLeaf(chatId, getLatestLeaf(messages, messageId));
+}
+
+/**
+ * Deletes a single message from the tree, keeping the turns after it. Replies only
+ * follow on from the message's parent when the user/model alternation allows it; the
+ * others (in practice the direct replies, as turns alternate) are deleted too and their
+ * own replies re-attached instead. The active leaf moves up if it was removed.
+ */
+export async function deleteMessageFromTree(messageId: string) {
+    const msg = await db.messages.get(messageId);
+    if (!msg) return;
+    const parentId = msg.parentId ?? null;
+    const removedIds = [messageId];
+
+    await db.transaction('rw', db.chats, db.messages, async () => {
+        const parent = parentId ? await db.messages.get(parentId) : undefined;
+        const nextRole: Message['role'] = parent?.role === 'user' ? 'model' : 'user';
+
+        const reattached: Message[] = [];
+        for (const child of await db.messages.where('parentId').equals(messageId).sortBy('timestamp')) {
+            if (child.role === nextRole) {
+                reattached.push(child);
+            } else {
+                removedIds.push(child.id);
+                reattached.push(...await db.messages.where('parentId').equals(child.id).sortBy('timestamp'));
+            }
+        }
+        for (const m of reattached) {
+            await db.messages.update(m.id, { parentId });
+        }
+
+        const chat = await db.chats.get(msg.chatId);
+        if (chat?.activeLeafId && removedIds.includes(chat.activeLeafId)) {
+            await db.chats.update(msg.chatId, { activeLeafId: reattached[reattached.length - 1]?.id ?? parentId ?? undefined });
+        }
+    });
+
+    await deleteMessagesWithCleanup(removedIds);
+}
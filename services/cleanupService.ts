@@ -2,23 +2,27 @@
 import { db } from '../db';
 
 /**
- * Checks if an image is referenced by any message in the database.
- * Requires 'imageIds' to be indexed in db.messages.
+ * Checks if an image is referenced by any message, project reference set or style preset.
+ * Requires 'imageIds' to be indexed in db.messages and 'referenceImageIds' in db.chats and db.presets.
  */
 async function isImageReferenced(imageId: string): Promise<boolean> {
     const count = await db.messages.where('imageIds').equals(imageId).count();
-    return count > 0;
+    if (count > 0) return true;
+    const pinnedCount = await db.chats.where('referenceImageIds').equals(imageId).count();
+    if (pinnedCount > 0) return true;
+    const presetCount = await db.presets.where('referenceImageIds').equals(imageId).count();
+    return presetCount > 0;
 }
 
 /**
  * Checks a list of image IDs and deletes them if they are:
  * 1. Not in the gallery (isGalleryVisible is false)
- * 2. Not referenced by any existing message
+ * 2. Not referenced by any existing message, project reference set or style preset
  */
 export async function deleteImagesIfOrphaned(imageIds: string[]) {
     if (imageIds.length === 0) return;
 
-    await db.transaction('rw', db.images, db.messages, async () => {
+    await db.transaction('rw', db.chats, db.presets, db.images, db.messages, async () => {
         // 1. Filter out images that are bookmarked in gallery
         const images = await db.images.where('id').anyOf(imageIds).toArray();
         const candidates = images.filter(img => !img.isGalleryVisible).map(img => img.id);
@@ -49,7 +53,7 @@ export async function deleteImagesIfOrphaned(imageIds: string[]) {
 export async function forceDeleteImages(imageIds: string[]) {
     if (imageIds.length === 0) return;
 
-    await db.transaction('rw', db.images, db.messages, async () => {
+    await db.transaction('rw', db.chats, db.presets, db.images, db.messages, async () => {
         // 1. Delete the image blobs
         await db.images.bulkDelete(imageIds);
 
@@ -69,6 +73,18 @@ export async function forceDeleteImages(imageIds: string[]) {
                 }
             }
         }
+
+        // 4. Unpin them from any project reference set
+        const pinnedIn = await db.chats.where('referenceImageIds').anyOf(imageIds).toArray();
+        for (const c of pinnedIn) {
+            await db.chats.update(c.id, { referenceImageIds: (c.referenceImageIds || []).filter(id => !imageIds.includes(id)) });
+        }
+
+        // 5. And from any style preset
+        const presets = await db.presets.where('referenceImageIds').anyOf(imageIds).toArray();
+        for (const p of presets) {
+            await db.presets.update(p.id, { referenceImageIds: (p.referenceImageIds || []).filter(id => !imageIds.includes(id)) });
+        }
     });
 }
 
@@ -79,7 +95,7 @@ export async function forceDeleteImages(imageIds: string[]) {
 export async function deleteMessagesWithCleanup(messageIds: string[]) {
     if (messageIds.length === 0) return;
 
-    await db.transaction('rw', db.messages, db.images, async () => {
+    await db.transaction('rw', db.chats, db.presets, db.messages, db.images, async () => {
         // 1. Identify potential orphan images BEFORE deleting messages
         const messages = await db.messages.where('id').anyOf(messageIds).toArray();
         const candidateImageIds = new Set<string>();
@@ -104,11 +120,12 @@ export async function deleteMessagesWithCleanup(messageIds: string[]) {
  * Deletes a chat and performs cleanup.
  */
 export async function deleteChatWithCleanup(chatId: string) {
-    await db.transaction('rw', db.chats, db.messages, db.images, async () => {
-        // 1. Gather messages and images
+    await db.transaction('rw', db.chats, db.presets, db.messages, db.images, async () => {
+        // 1. Gather messages and images, including the chat's pinned references
+        const chat = await db.chats.get(chatId);
         const messages = await db.messages.where('chatId').equals(chatId).toArray();
         const messageIds = messages.map(m => m.id);
-        const candidateImageIds = new Set<string>();
+        const candidateImageIds = new Set<string>(chat?.referenceImageIds || []);
         
         messages.forEach(msg => {
             if (msg.imageIds && msg.imageIds.length > 0) {
@@ -133,7 +150,7 @@ export async function deleteChatWithCleanup(chatId: string) {
  */
 export async function cleanupOrphanedImages(): Promise<number> {
     try {
-        return await db.transaction('rw', db.images, db.messages, async () => {
+        return await db.transaction('rw', db.chats, db.presets, db.images, db.messages, async () => {
             const allImages = await db.images.toArray();
             // Candidates: Not in gallery
             const candidates = allImages.filter(img => !img.isGalleryVisible).map(img => img.id);
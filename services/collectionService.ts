@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { ImageBlob } from '../types';
+
+/**
+ * Gallery collections and tags. Membership lives on the image (collectionIds), so an
+ * image can sit in any number of collections; both fields are multi-entry indexed.
+ */
+
+export function normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Splits free-form input ("red, product shot") into normalized tags.
+ */
+export function parseTags(input: string): string[] {
+    return Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)));
+}
+
+export async function createCollection(name: string): Promise<string> {
+    const id = uuidv4();
+    await db.collections.add({ id, name: name.trim(), createdAt: Date.now() });
+    return id;
+}
+
+export async function renameCollection(id: string, name: string) {
+    await db.collections.update(id, { name: name.trim() });
+}
+
+/**
+ * Deletes the collection only, its images stay in the gallery.
+ */
+export async function deleteCollection(id: string) {
+    await db.transaction('rw', db.collections, db.images, async () => {
+        await db.images.where('collectionIds').equals(id).modify(img => {
+            img.collectionIds = (img.collectionIds || []).filter(cid => cid !== id);
+        });
+        await db.collections.delete(id);
+    });
+}
+
+export async function addToCollection(imageIds: string[], collectionId: string) {
+    await db.images.where('id').anyOf(imageIds).modify(img => {
+        if (!img.collectionIds?.includes(collectionId)) {
+            img.collectionIds = [...(img.collectionIds || []), collectionId];
+        }
+    });
+}
+
+export async function removeFromCollection(imageIds: string[], collectionId: string) {
+    await db.images.where('id').anyOf(imageIds).modify(img => {
+        img.collectionIds = (img.collectionIds || []).filter(cid => cid !== collectionId);
+    });
+}
+
+export async function addTags(imageIds: string[], tags: string[]) {
+    const normalized = tags.map(normalizeTag).filter(Boolean);
+    if (normalized.length === 0) return;
+    await db.images.where('id').anyOf(imageIds).modify(img => {
+        img.tags = Array.from(new Set([...(img.tags || []), ...normalized]));
+    });
+}
+
+export async function removeTag(imageIds: string[], tag: string) {
+    await db.images.where('id').anyOf(imageIds).modify(img => {
+        img.tags = (img.tags || []).filter(t => t !== tag);
+    });
+}
+
+/**
+ * Tags used by gallery images, most used first.
+ */
+export async function getGalleryTags(): Promise<string[]> {
+    const counts = new Map<string, number>();
+    await db.images.where('galleryTimestamp').above(0).each(img => {
+        (img.tags || []).forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([t]) => t);
+}
+
+/**
+ * Gallery images in a collection (or all of them) that carry every one of the given tags, newest first.
+ */
+export async function queryGallery(collectionId: string | null, tags: string[], limit: number): Promise<{ images: ImageBlob[]; total: number }> {
+    if (!collectionId && tags.length === 0) {
+        const [images, total] = await Promise.all([
+            db.images.orderBy('galleryTimestamp').reverse().limit(limit).toArray(),
+            db.images.where('galleryTimestamp').above(0).count()
+        ]);
+        return { images, total };
+    }
+
+    // Narrow through the most selective index available, then filter the rest in memory
+    const candidates = collectionId
+        ? await db.images.where('collectionIds').equals(collectionId).toArray()
+        : await db.images.where('tags').equals(tags[0]).toArray();
+
+    const matches = candidates
+        .filter(img => img.isGalleryVisible && tags.every(t => img.tags?.includes(t)))
+        .sort((a, b) => (b.galleryTimestamp || 0) - (a.galleryTimestamp || 0));
+    return { images: matches.slice(0, limit), total: matches.length };
+}
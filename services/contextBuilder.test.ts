@@ -0,0 +1,109 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from '../db';
+import { Message } from '../types';
+import { buildContents, planContext } from './contextBuilder';
+import { createMockUploader } from './filesService';
+
+// FileReader is browser-only
+vi.mock('./geminiService', async importOriginal => ({
+    ...await importOriginal<typeof import('./geminiService')>(),
+    blobToBase64: async (blob: Blob) => Buffer.from(await blob.arrayBuffer()).toString('base64')
+}));
+
+function message(id: string, role: Message['role'], text: string, patch: Partial<Message> = {}): Message {
+    return { id, chatId: 'c', parentId: null, role, text, timestamp: 0, ...patch };
+}
+
+async function addImage(id: string, mimeType = 'image/png') {
+    await db.images.add({ id, blob: new Blob([id], { type: mimeType }), mimeType, createdAt: 0, isGalleryVisible: false });
+}
+
+describe('planContext', () => {
+    beforeEach(async () => {
+        await db.images.clear();
+    });
+
+    it('skips failed responses and merges consecutive turns of one role', async () => {
+        const plan = await planContext([
+            message('u1', 'user', 'first'),
+            message('e1', 'model', 'failed', { error: true }),
+            message('u2', 'user', 'second'),
+            message('m1', 'model', 'reply')
+        ], { tokenBudget: 1000 });
+
+        expect(plan.turns.map(t => [t.role, t.messageIds])).toEqual([['user', ['u1', 'u2']], ['model', ['m1']]]);
+        expect(plan.droppedMessages).toBe(0);
+    });
+
+    it('drops the attachments of an older turn before its text', async () => {
+        await addImage('img');
+        const plan = await planContext([
+            message('u1', 'user', 'a'.repeat(400), { imageIds: ['img'] }),
+            message('m1', 'model', 'b'.repeat(400)),
+            message('u2', 'user', 'c'.repeat(40))
+        ], { tokenBudget: 300 });
+
+        expect(plan.turns[0]).toMatchObject({ messageIds: ['u1'], imagesDropped: 1 });
+        expect(plan.turns[0].parts.every(p => p.kind === 'text')).toBe(true);
+        expect(plan).toMatchObject({ droppedMessages: 0, droppedImages: 1, totalTokens: 210, overBudget: false });
+    });
+
+    it('summarizes the turns that no longer fit', async () => {
+        await addImage('img');
+        const plan = await planContext([
+            message('u1', 'user', 'a'.repeat(400), { imageIds: ['img'] }),
+            message('m1', 'model', 'b'.repeat(400)),
+            message('u2', 'user', 'c'.repeat(40))
+        ], { tokenBudget: 150 });
+
+        expect(plan.turns.map(t => t.kind)).toEqual(['summary', 'history', 'history']);
+        expect(plan.turns[0].parts[0].text).toContain('[1 earlier messages were omitted');
+        expect(plan.turns[0].parts[0].text).toContain(`1. ${'a'.repeat(100)}…`);
+        expect(plan).toMatchObject({ droppedMessages: 1, droppedImages: 1 });
+    });
+
+    it('always sends pinned references and the latest turn', async () => {
+        await addImage('ref');
+        const plan = await planContext([message('u1', 'user', 'x'.repeat(400))], { tokenBudget: 50, pinnedImageIds: ['ref'] });
+
+        expect(plan.turns.map(t => t.kind)).toEqual(['pinned', 'history']);
+        expect(plan.overBudget).toBe(true);
+    });
+
+    it('includes an unsent prompt for previews', async () => {
+        const plan = await planContext([message('u1', 'user', 'first'), message('m1', 'model', 'reply')], {
+            tokenBudget: 1000,
+            pending: { text: 'next', files: [new Blob(['x'], { type: 'image/png' })] }
+        });
+
+        const last = plan.turns[plan.turns.length - 1];
+        expect(last.role).toBe('user');
+        expect(last.parts.map(p => p.kind)).toEqual(['text', 'media']);
+    });
+});
+
+describe('buildContents', () => {
+    beforeEach(async () => {
+        await db.images.clear();
+    });
+
+    it('inlines images, uploads other attachments and joins adjacent user turns', async () => {
+        await addImage('ref');
+        await addImage('doc', 'application/pdf');
+        const uploader = createMockUploader();
+        const plan = await planContext([message('u1', 'user', 'describe', { imageIds: ['doc'] })], { tokenBudget: 10000, pinnedImageIds: ['ref'] });
+
+        const contents = await buildContents(plan, { uploader });
+
+        expect(contents).toHaveLength(1);
+        expect(contents[0].role).toBe('user');
+        expect(contents[0].parts).toEqual([
+            { text: expect.stringContaining('Reference images') },
+            { inlineData: { data: Buffer.from('ref').toString('base64'), mimeType: 'image/png' } },
+            { text: 'describe' },
+            { fileData: { fileUri: 'mock://files/mock-1', mimeType: 'application/pdf' } }
+        ]);
+        expect(uploader.uploads).toHaveLength(1);
+    });
+});
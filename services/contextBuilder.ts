@@ -0,0 +1,250 @@
+import { db } from '../db';
+import { Message } from '../types';
+import { blobToBase64, getEffectiveMimeType } from './geminiService';
+import { FileUploader, ensureUploaded, shouldUploadViaFiles } from './filesService';
+
+/**
+ * Builds the role-tagged `contents` sent with a generation.
+ * History is fitted into a token budget newest-first: when a turn does not fit,
+ * its attachments are dropped before its text, and once a turn is dropped entirely
+ * everything older is replaced by a short summary turn. Pinned reference images
+ * and the latest turn are always kept.
+ */
+
+// Rough estimates, good enough for budgeting. Gemini bills an input image at up to ~1120 tokens.
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 1120;
+const MEDIA_TOKENS = 2000;
+const SUMMARY_SNIPPET_CHARS = 100;
+const SUMMARY_MAX_ITEMS = 10;
+
+export type ContextRole = 'user' | 'model';
+
+export interface ContextPart {
+    kind: 'text' | 'media';
+    text?: string;
+    imageId?: string; // Attachment stored in db.images
+    blob?: Blob; // Attachment not saved yet (pending preview)
+    mimeType?: string;
+    viaFiles?: boolean; // Sent as a Files API reference instead of inline data
+    tokens: number;
+}
+
+export interface ContextTurn {
+    role: ContextRole;
+    parts: ContextPart[];
+    tokens: number;
+    messageIds: string[];
+    kind: 'history' | 'summary' | 'pinned';
+    imagesDropped?: number; // Attachments left out to fit the budget
+}
+
+export interface ContextPlan {
+    turns: ContextTurn[];
+    totalTokens: number;
+    tokenBudget: number;
+    droppedMessages: number;
+    droppedImages: number;
+    overBudget: boolean; // Even the required turns exceed the budget
+}
+
+export interface ContextOptions {
+    tokenBudget: number;
+    pinnedImageIds?: string[];
+    pending?: { text: string; files: Blob[] }; // Unsent prompt, for previews
+}
+
+export function estimateTextTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMediaTokens(mimeType: string, size: number): number {
+    if (mimeType.startsWith('image/')) return IMAGE_TOKENS;
+    if (mimeType.startsWith('text/') || mimeType.includes('json')) return Math.ceil(size / CHARS_PER_TOKEN);
+    return MEDIA_TOKENS;
+}
+
+const sumTokens = (parts: ContextPart[]) => parts.reduce((acc, p) => acc + p.tokens, 0);
+
+function textPart(text: string): ContextPart {
+    return { kind: 'text', text, tokens: estimateTextTokens(text) };
+}
+
+async function loadMediaParts(imageIds: string[]): Promise<ContextPart[]> {
+    if (imageIds.length === 0) return [];
+    const records = await db.images.bulkGet(imageIds);
+    return records
+        .filter(r => !!r)
+        .map(r => ({
+            kind: 'media' as const,
+            imageId: r!.id,
+            mimeType: r!.mimeType,
+            viaFiles: shouldUploadViaFiles(r!.mimeType, r!.blob.size),
+            tokens: estimateMediaTokens(r!.mimeType, r!.blob.size)
+        }));
+}
+
+function makeTurn(role: ContextRole, parts: ContextPart[], messageIds: string[], kind: ContextTurn['kind'] = 'history'): ContextTurn {
+    return { role, parts, tokens: sumTokens(parts), messageIds, kind };
+}
+
+// Consecutive messages from the same role become one turn
+function mergeAdjacent(turns: ContextTurn[]): ContextTurn[] {
+    const merged: ContextTurn[] = [];
+    for (const turn of turns) {
+        const prev = merged[merged.length - 1];
+        if (prev && prev.role === turn.role && prev.kind === 'history' && turn.kind === 'history') {
+            merged[merged.length - 1] = {
+                ...prev,
+                parts: [...prev.parts, ...turn.parts],
+                tokens: prev.tokens + turn.tokens,
+                messageIds: [...prev.messageIds, ...turn.messageIds]
+            };
+        } else {
+            merged.push(turn);
+        }
+    }
+    return merged;
+}
+
+function summarizeTurns(turns: ContextTurn[]): ContextTurn {
+    const requests = turns
+        .filter(t => t.role === 'user')
+        .flatMap(t => t.parts.filter(p => p.kind === 'text').map(p => p.text!.replace(/\s+/g, ' ').trim()))
+        .filter(Boolean);
+    const messageCount = turns.reduce((acc, t) => acc + t.messageIds.length, 0);
+
+    const lines = requests.slice(-SUMMARY_MAX_ITEMS).map((r, i) =>
+        `${i + 1}. ${r.length > SUMMARY_SNIPPET_CHARS ? r.slice(0, SUMMARY_SNIPPET_CHARS) + '…' : r}`
+    );
+    const text = `[${messageCount} earlier messages were omitted to fit the context budget.` +
+        (lines.length ? ` Earlier requests, oldest first:\n${lines.join('\n')}]` : ']');
+
+    return makeTurn('user', [textPart(text)], turns.flatMap(t => t.messageIds), 'summary');
+}
+
+/**
+ * Decides what history to send, without encoding any attachments yet.
+ */
+export async function planContext(messages: Message[], { tokenBudget, pinnedImageIds = [], pending }: ContextOptions): Promise<ContextPlan> {
+    // Failed responses carry no useful context
+    const history: ContextTurn[] = [];
+    for (const msg of messages) {
+        if (msg.error) continue;
+        // Prefer the prompt as composed with style presets, that is what the model saw
+        const text = msg.composedPrompt || msg.text;
+        const parts = [
+            ...(text ? [textPart(text)] : []),
+            ...await loadMediaParts(msg.imageIds || [])
+        ];
+        if (parts.length > 0) history.push(makeTurn(msg.role, parts, [msg.id]));
+    }
+
+    if (pending && (pending.text.trim() || pending.files.length > 0)) {
+        const parts: ContextPart[] = pending.text.trim() ? [textPart(pending.text)] : [];
+        pending.files.forEach(file => {
+            const mimeType = getEffectiveMimeType(file);
+            parts.push({
+                kind: 'media',
+                blob: file,
+                mimeType,
+                viaFiles: shouldUploadViaFiles(mimeType, file.size),
+                tokens: estimateMediaTokens(mimeType, file.size)
+            });
+        });
+        history.push(makeTurn('user', parts, []));
+    }
+
+    const turns = mergeAdjacent(history);
+    const pinnedParts = await loadMediaParts(pinnedImageIds);
+    const pinned = pinnedParts.length > 0
+        ? makeTurn('user', [textPart('Reference images for this project. Keep these subjects consistent:'), ...pinnedParts], [], 'pinned')
+        : null;
+
+    // The latest turn is the request itself and is always sent in full
+    const kept: ContextTurn[] = [];
+    let used = pinned?.tokens || 0;
+    let droppedImages = 0;
+    let cutoff = -1;
+
+    for (let i = turns.length - 1; i >= 0; i--) {
+        const turn = turns[i];
+        if (i === turns.length - 1 || used + turn.tokens <= tokenBudget) {
+            kept.unshift(turn);
+            used += turn.tokens;
+            continue;
+        }
+
+        const textOnly = turn.parts.filter(p => p.kind === 'text');
+        const textTokens = sumTokens(textOnly);
+        if (textOnly.length > 0 && used + textTokens <= tokenBudget) {
+            const imagesDropped = turn.parts.length - textOnly.length;
+            droppedImages += imagesDropped;
+            kept.unshift({ ...turn, parts: textOnly, tokens: textTokens, imagesDropped });
+            used += textTokens;
+            continue;
+        }
+
+        cutoff = i;
+        break;
+    }
+
+    const dropped = cutoff >= 0 ? turns.slice(0, cutoff + 1) : [];
+    const summary = dropped.length > 0 ? summarizeTurns(dropped) : null;
+    droppedImages += dropped.reduce((acc, t) => acc + t.parts.filter(p => p.kind === 'media').length, 0);
+
+    const planned = [...(pinned ? [pinned] : []), ...(summary ? [summary] : []), ...kept];
+    const totalTokens = sumTokens(planned.flatMap(t => t.parts));
+
+    return {
+        turns: planned,
+        totalTokens,
+        tokenBudget,
+        droppedMessages: dropped.reduce((acc, t) => acc + t.messageIds.length, 0),
+        droppedImages,
+        overBudget: totalTokens > tokenBudget
+    };
+}
+
+/**
+ * Resolves a plan into API `contents`, reading and encoding the attachments it keeps.
+ * Large attachments are referenced through the Files API when an uploader is given.
+ */
+export async function buildContents(
+    plan: ContextPlan,
+    { uploader, signal }: { uploader?: FileUploader; signal?: AbortSignal } = {}
+): Promise<{ role: ContextRole; parts: any[] }[]> {
+    const contents: { role: ContextRole; parts: any[] }[] = [];
+
+    for (const turn of plan.turns) {
+        const parts: any[] = [];
+        for (const part of turn.parts) {
+            if (part.kind === 'text') {
+                parts.push({ text: part.text });
+                continue;
+            }
+
+            const image = part.imageId ? await db.images.get(part.imageId) : undefined;
+            if (image && part.viaFiles && uploader) {
+                parts.push({ fileData: await ensureUploaded(image, uploader, signal) });
+                continue;
+            }
+
+            const blob = part.blob || image?.blob;
+            if (!blob) continue;
+            parts.push({
+                inlineData: {
+                    data: await blobToBase64(blob),
+                    mimeType: part.mimeType
+                }
+            });
+        }
+
+        // Adjacent user turns (pinned, summary, history) are sent as one
+        const prev = contents[contents.length - 1];
+        if (prev && prev.role === turn.role) prev.parts.push(...parts);
+        else if (parts.length > 0) contents.push({ role: turn.role, parts });
+    }
+
+    return contents;
+}
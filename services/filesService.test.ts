@@ -0,0 +1,89 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../db';
+import { ImageBlob } from '../types';
+import { createMockUploader, ensureUploaded, forgetUploads, hasValidUpload, isStaleFileError } from './filesService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function addImage(patch: Partial<ImageBlob> = {}): Promise<ImageBlob> {
+    const image: ImageBlob = {
+        id: `img-${Math.random().toString(36).slice(2)}`,
+        blob: new Blob(['%PDF-1.4'], { type: 'application/pdf' }),
+        mimeType: 'application/pdf',
+        createdAt: Date.now(),
+        isGalleryVisible: false,
+        ...patch
+    };
+    await db.images.add(image);
+    return image;
+}
+
+describe('ensureUploaded', () => {
+    beforeEach(async () => {
+        await db.images.clear();
+    });
+
+    it('uploads once and reuses the cached URI', async () => {
+        const uploader = createMockUploader();
+        const image = await addImage();
+
+        const first = await ensureUploaded(image, uploader);
+        expect(first.fileUri).toBe('mock://files/mock-1');
+
+        const stored = (await db.images.get(image.id))!;
+        expect(stored.fileUri).toBe(first.fileUri);
+        const second = await ensureUploaded(stored, uploader);
+
+        expect(second.fileUri).toBe(first.fileUri);
+        expect(uploader.uploads).toHaveLength(1);
+    });
+
+    it('uploads again once the cached file has expired', async () => {
+        const uploader = createMockUploader();
+        const image = await addImage({ fileUri: 'mock://files/old', fileName: 'files/old', fileExpiresAt: Date.now() - 1000 });
+
+        const result = await ensureUploaded(image, uploader);
+
+        expect(uploader.uploads).toEqual([{ size: image.blob.size, mimeType: 'application/pdf' }]);
+        expect(result.fileUri).toBe('mock://files/mock-1');
+        expect((await db.images.get(image.id))!.fileUri).toBe('mock://files/mock-1');
+    });
+
+    it('treats a file about to expire as expired', async () => {
+        const uploader = createMockUploader(30 * 60 * 1000);
+        const image = await addImage();
+
+        await ensureUploaded(image, uploader);
+        const stored = (await db.images.get(image.id))!;
+
+        expect(hasValidUpload(stored)).toBe(false);
+        await ensureUploaded(stored, uploader);
+        expect(uploader.uploads).toHaveLength(2);
+    });
+
+    it('uploads again after forgetUploads clears the cached URI', async () => {
+        const uploader = createMockUploader();
+        const image = await addImage({ fileUri: 'mock://files/stale', fileName: 'files/stale', fileExpiresAt: Date.now() + 24 * HOUR_MS });
+
+        await forgetUploads([image.id]);
+        const cleared = (await db.images.get(image.id))!;
+        expect(cleared.fileUri).toBeUndefined();
+        expect(cleared.fileExpiresAt).toBeUndefined();
+
+        await ensureUploaded(cleared, uploader);
+        expect(uploader.uploads).toHaveLength(1);
+    });
+});
+
+describe('isStaleFileError', () => {
+    it('recognises missing and inaccessible files', () => {
+        expect(isStaleFileError(new Error('File abc123 not found.'))).toBe(true);
+        expect(isStaleFileError(new Error('You do not have permission to access the File xyz or it may not exist.'))).toBe(true);
+    });
+
+    it('ignores unrelated failures', () => {
+        expect(isStaleFileError(new Error('Resource has been exhausted (e.g. check quota).'))).toBe(false);
+        expect(isStaleFileError(new Error('Permission denied: API key not valid'))).toBe(false);
+    });
+});
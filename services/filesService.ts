@@ -0,0 +1,128 @@
+import { GoogleGenAI, FileState } from "@google/genai";
+import { db } from '../db';
+import { ImageBlob } from '../types';
+
+/**
+ * Gemini Files API support. Large attachments are uploaded once and referenced by URI
+ * instead of being base64-encoded into every request. The URI and its expiry are cached
+ * on the ImageBlob record; expired (or soon to expire) files are uploaded again, as are
+ * files the service no longer recognises.
+ */
+
+// Images above this size, and all non-image media (PDF, audio, video), go through the Files API
+const INLINE_IMAGE_MAX_BYTES = 1024 * 1024;
+// Re-upload a little before the service expires the file (files live for 48 hours)
+const EXPIRY_MARGIN_MS = 60 * 60 * 1000;
+const DEFAULT_TTL_MS = 48 * 60 * 60 * 1000;
+const PROCESSING_POLL_MS = 2000;
+const PROCESSING_TIMEOUT_MS = 120000;
+// Sending the bytes of one file, generous enough for a large video on a slow connection
+const UPLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface UploadedFile {
+    uri: string;
+    name: string;
+    mimeType: string;
+    expiresAt: number;
+}
+
+/**
+ * Uploads a blob and resolves once the file is ready to be referenced.
+ */
+export type FileUploader = (blob: Blob, mimeType: string, signal?: AbortSignal) => Promise<UploadedFile>;
+
+export function shouldUploadViaFiles(mimeType: string, size: number): boolean {
+    return !mimeType.startsWith('image/') || size > INLINE_IMAGE_MAX_BYTES;
+}
+
+export function hasValidUpload(image: ImageBlob, now: number = Date.now()): boolean {
+    return !!image.fileUri && !!image.fileExpiresAt && image.fileExpiresAt - EXPIRY_MARGIN_MS > now;
+}
+
+export function createGeminiUploader(apiKey: string): FileUploader {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return async (blob, mimeType, signal) => {
+        const uploadSignal = signal
+            ? AbortSignal.any([signal, AbortSignal.timeout(UPLOAD_TIMEOUT_MS)])
+            : AbortSignal.timeout(UPLOAD_TIMEOUT_MS);
+        let file;
+        try {
+            file = await ai.files.upload({ file: blob, config: { mimeType, abortSignal: uploadSignal } });
+        } catch (e: any) {
+            if (e?.name === 'TimeoutError' || (uploadSignal.aborted && !signal?.aborted)) throw new Error("File upload timed out");
+            throw e;
+        }
+
+        // Video and large documents are processed before they can be used
+        const startedAt = Date.now();
+        while (file.state === FileState.PROCESSING) {
+            if (Date.now() - startedAt > PROCESSING_TIMEOUT_MS) throw new Error("File processing timed out");
+            if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+            await new Promise(r => setTimeout(r, PROCESSING_POLL_MS));
+            file = await ai.files.get({ name: file.name! });
+        }
+
+        if (file.state === FileState.FAILED || !file.uri) {
+            throw new Error(file.error?.message || "File upload failed");
+        }
+
+        return {
+            uri: file.uri,
+            name: file.name || '',
+            mimeType: file.mimeType || mimeType,
+            expiresAt: file.expirationTime ? Date.parse(file.expirationTime) : Date.now() + DEFAULT_TTL_MS
+        };
+    };
+}
+
+/**
+ * In-memory stand-in for the upload endpoint, for exercising the upload and
+ * expiry paths without network access. `uploads` records every call.
+ */
+export function createMockUploader(ttlMs: number = DEFAULT_TTL_MS): FileUploader & { uploads: { size: number; mimeType: string }[] } {
+    const uploads: { size: number; mimeType: string }[] = [];
+    const uploader = async (blob: Blob, mimeType: string) => {
+        uploads.push({ size: blob.size, mimeType });
+        const name = `files/mock-${uploads.length}`;
+        return { uri: `mock://${name}`, name, mimeType, expiresAt: Date.now() + ttlMs };
+    };
+    return Object.assign(uploader, { uploads });
+}
+
+// The service answers "not found" or "permission denied" for a file that was deleted early
+// or was uploaded with a different API key
+export function isStaleFileError(error: any): boolean {
+    const message = (error?.message || String(error)).toLowerCase();
+    return message.includes('file') && /not found|not exist|permission/.test(message);
+}
+
+/**
+ * Drops the cached uploads of the given attachments so the next request uploads them again.
+ */
+export async function forgetUploads(imageIds: string[]): Promise<void> {
+    if (imageIds.length === 0) return;
+    await db.images.where('id').anyOf(imageIds).modify({
+        fileUri: undefined,
+        fileName: undefined,
+        fileExpiresAt: undefined
+    });
+}
+
+/**
+ * Returns a usable file URI for a stored attachment, uploading it when there is
+ * no cached URI or the cached one has expired.
+ */
+export async function ensureUploaded(image: ImageBlob, uploader: FileUploader, signal?: AbortSignal): Promise<{ fileUri: string; mimeType: string }> {
+    if (hasValidUpload(image)) {
+        return { fileUri: image.fileUri!, mimeType: image.mimeType };
+    }
+
+    const uploaded = await uploader(image.blob, image.mimeType, signal);
+    await db.images.update(image.id, {
+        fileUri: uploaded.uri,
+        fileName: uploaded.name,
+        fileExpiresAt: uploaded.expiresAt
+    });
+    return { fileUri: uploaded.uri, mimeType: uploaded.mimeType };
+}
@@ -0,0 +1,100 @@
+import Dexie from 'dexie';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { Chat, Folder } from '../types';
+
+/**
+ * Sidebar folders and manual project order. Projects keep orderIndex 0 until they are
+ * dragged, so untouched ones still list most recent first; dragging renumbers the
+ * whole target group from 1.
+ */
+
+export interface FolderGroup {
+    folder: Folder;
+    chats: Chat[];
+}
+
+export function sortProjects(chats: Chat[]): Chat[] {
+    return [...chats].sort((a, b) => {
+        if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+        return a.orderIndex - b.orderIndex || b.updatedAt - a.updatedAt;
+    });
+}
+
+/**
+ * Splits projects into their folders, in folder order. Projects whose folder is gone stay at the top level.
+ */
+export function groupProjects(chats: Chat[], folders: Folder[]): { groups: FolderGroup[]; unfiled: Chat[] } {
+    const sorted = sortProjects(chats);
+    const known = new Set(folders.map(f => f.id));
+    const groups = [...folders]
+        .sort((a, b) => a.orderIndex - b.orderIndex)
+        .map(folder => ({ folder, chats: sorted.filter(c => c.folderId === folder.id) }));
+    return { groups, unfiled: sorted.filter(c => !c.folderId || !known.has(c.folderId)) };
+}
+
+export async function createFolder(name: string): Promise<string> {
+    const id = uuidv4();
+    const last = await db.folders.orderBy('orderIndex').last();
+    await db.folders.add({ id, name: name.trim(), orderIndex: (last?.orderIndex ?? 0) + 1, createdAt: Date.now() });
+    return id;
+}
+
+export async function renameFolder(id: string, name: string) {
+    await db.folders.update(id, { name: name.trim() });
+}
+
+export async function setFolderCollapsed(id: string, collapsed: boolean) {
+    await db.folders.update(id, { collapsed });
+}
+
+/**
+ * Deletes the folder only, its projects move to the top level.
+ */
+export async function deleteFolder(id: string) {
+    await db.transaction('rw', db.folders, db.chats, async () => {
+        await db.chats.where('folderId').equals(id).modify({ folderId: null });
+        await db.folders.delete(id);
+    });
+}
+
+/**
+ * Moves a project into a folder (null for the top level), before or after another project, or at the end.
+ */
+export async function moveProject(chatId: string, folderId: string | null, beforeChatId: string | null = null, afterChatId: string | null = null) {
+    await db.transaction('rw', db.chats, async () => {
+        const chat = await db.chats.get(chatId);
+        if (!chat) return;
+
+        // Archived projects keep their place; pinned ones are listed above the top level anyway
+        const siblings = folderId
+            ? await db.chats.where('[folderId+archived]').equals([folderId, 0]).toArray()
+            : await db.chats.where('[archived+orderIndex+updatedAt]')
+                .between([0, Dexie.minKey, Dexie.minKey], [0, Infinity, Dexie.maxKey])
+                .filter(c => !c.folderId && !c.pinned)
+                .toArray();
+        const ordered = sortProjects(siblings.filter(c => c.id !== chatId));
+        const before = beforeChatId ? ordered.findIndex(c => c.id === beforeChatId) : -1;
+        const after = afterChatId ? ordered.findIndex(c => c.id === afterChatId) : -1;
+        const at = before !== -1 ? before : after !== -1 ? after + 1 : -1;
+        ordered.splice(at === -1 ? ordered.length : at, 0, chat);
+
+        for (let i = 0; i < ordered.length; i++) {
+            await db.chats.update(ordered[i].id, { orderIndex: i + 1, folderId });
+        }
+    });
+}
+
+export async function moveFolder(id: string, beforeFolderId: string | null) {
+    await db.transaction('rw', db.folders, async () => {
+        const folders = (await db.folders.orderBy('orderIndex').toArray()).filter(f => f.id !== id);
+        const moved = await db.folders.get(id);
+        if (!moved) return;
+        const at = beforeFolderId ? folders.findIndex(f => f.id === beforeFolderId) : -1;
+        folders.splice(at === -1 ? folders.length : at, 0, moved);
+
+        for (let i = 0; i < folders.length; i++) {
+            await db.folders.update(folders[i].id, { orderIndex: i + 1 });
+        }
+    });
+}
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GenerationError, classifyGenerationError, withRetry } from './geminiService';
+
+describe('classifyGenerationError', () => {
+    it('classifies by HTTP status', () => {
+        expect(classifyGenerationError({ status: 429, message: 'Too many requests' }).code).toBe('rate_limit');
+        expect(classifyGenerationError({ status: 503, message: 'Service error' }).code).toBe('overloaded');
+        expect(classifyGenerationError({ status: 403, message: 'Forbidden' }).code).toBe('invalid_key');
+        expect(classifyGenerationError({ status: 413, message: 'Request entity' }).code).toBe('payload_too_large');
+    });
+
+    it('classifies by message when there is no status', () => {
+        expect(classifyGenerationError(new Error('RESOURCE_EXHAUSTED: quota exceeded')).code).toBe('rate_limit');
+        expect(classifyGenerationError(new Error('The model is overloaded')).code).toBe('overloaded');
+        expect(classifyGenerationError(new Error('Response was blocked due to safety')).code).toBe('safety');
+        expect(classifyGenerationError(new TypeError('Failed to fetch')).code).toBe('network');
+        expect(classifyGenerationError(new Error('File upload timed out')).code).toBe('timeout');
+        expect(classifyGenerationError('something odd').code).toBe('unknown');
+    });
+
+    it('reads the suggested retry delay', () => {
+        const error = classifyGenerationError({ status: 429, message: '{"retryDelay": "37s"}' });
+
+        expect(error.retryAfterMs).toBe(37000);
+    });
+
+    it('returns a GenerationError unchanged', () => {
+        const error = new GenerationError('safety', 'blocked');
+
+        expect(classifyGenerationError(error)).toBe(error);
+    });
+});
+
+describe('withRetry', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('retries rate-limit failures with backoff until a request succeeds', async () => {
+        vi.useFakeTimers();
+        const onRetry = vi.fn();
+        const task = vi.fn()
+            .mockRejectedValueOnce({ status: 429, message: 'quota' })
+            .mockRejectedValueOnce({ status: 503, message: 'unavailable' })
+            .mockResolvedValue('done');
+
+        const pending = withRetry(task, { onRetry });
+        await vi.runAllTimersAsync();
+
+        expect(await pending).toEqual({ result: 'done', attempts: 3 });
+        expect(task.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+        expect(onRetry.mock.calls.map(([info]) => info.attempt)).toEqual([2, 3]);
+    });
+
+    it('gives up after the last attempt and reports the attempt count', async () => {
+        vi.useFakeTimers();
+        const task = vi.fn().mockRejectedValue({ status: 429, message: 'quota' });
+
+        const pending = withRetry(task, { maxAttempts: 2 });
+        const settled = expect(pending).rejects.toMatchObject({ code: 'rate_limit', attempts: 2 });
+        await vi.runAllTimersAsync();
+
+        await settled;
+        expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry other failures', async () => {
+        const task = vi.fn().mockRejectedValue({ status: 403, message: 'API key not valid' });
+
+        await expect(withRetry(task)).rejects.toMatchObject({ code: 'invalid_key', attempts: 1 });
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting when aborted', async () => {
+        const controller = new AbortController();
+        const task = vi.fn().mockRejectedValue({ status: 429, message: 'quota' });
+
+        const pending = withRetry(task, { signal: controller.signal, onRetry: () => controller.abort() });
+
+        await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+});
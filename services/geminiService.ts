@@ -1,6 +1,8 @@
 
 import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import { AppConfig, GenConfig } from "../types";
+import { AppConfig, GenConfig, GenerationErrorCode, GroundingInfo, ModelDescriptor, SafetyCategory, SafetyRating } from "../types";
+import { SAFETY_CATEGORIES } from "../constants";
+import { UTILITY_MODEL_ID, getDefaultModel, registerProvider } from "./modelRegistry";
 
 export const MIME_MAP: Record<string, string> = {
     // Images
@@ -138,6 +140,23 @@ export function base64ToBlob(base64: string, mimeType: string = 'image/png'): Bl
     return new Blob([byteArray], { type: mimeType });
 }
 
+// Decodes a blob for drawing onto a canvas
+export function loadImage(blob: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const url = URL.createObjectURL(blob);
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("Failed to load image"));
+        };
+        img.src = url;
+    });
+}
+
 // Client-side thumbnail generation
 export async function createThumbnail(blob: Blob, mimeType?: string, width: number = 300): Promise<Blob> {
     const type = mimeType || blob.type;
@@ -241,7 +260,7 @@ export async function validateApiKey(apiKey: string): Promise<{ ok: boolean; err
     const ai = new GoogleGenAI({ apiKey });
     try {
         await ai.models.generateContent({
-            model: 'gemini-2.5-flash-lite',
+            model: UTILITY_MODEL_ID,
             contents: { parts: [{ text: 'ping' }] },
         });
         return { ok: true };
@@ -261,7 +280,7 @@ export async function generateChatTitle(apiKey: string, firstPrompt: string): Pr
 
     try {
         const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-lite',
+            model: UTILITY_MODEL_ID,
             contents: `Generate a short, punchy 3-5 word title for this prompt: "${firstPrompt}". Return ONLY the title text.`,
         });
         return response.text?.trim().replace(/^["']|["']$/g, '') || "New Project";
@@ -277,7 +296,7 @@ export async function enhancePrompt(apiKey: string, currentPrompt: string): Prom
 
     try {
         const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-lite',
+            model: UTILITY_MODEL_ID,
             config: {
                 systemInstruction: "You are a prompt engineer. Enhance the user's prompt for an image generation model to be more descriptive, artistic, and detailed. Return ONLY the enhanced prompt."
             },
@@ -290,11 +309,163 @@ export async function enhancePrompt(apiKey: string, currentPrompt: string): Prom
     }
 }
 
-interface GenerationParams {
+// Expand the global threshold across every harm category, letting per-category overrides win
+export function buildSafetySettings(threshold: string, overrides: Partial<Record<SafetyCategory, string>> = {}) {
+    return SAFETY_CATEGORIES.map(c => ({
+        category: c.value,
+        threshold: overrides[c.value] || threshold
+    }));
+}
+
+// Map app thinking options to the API thinkingConfig. Level and budget are mutually exclusive.
+export function buildThinkingConfig(includeThoughts: boolean, level: string = 'auto', budget: number = -1) {
+    const thinkingConfig: any = { includeThoughts };
+    if (level && level !== 'auto') {
+        thinkingConfig.thinkingLevel = level;
+    } else if (budget >= 0) {
+        thinkingConfig.thinkingBudget = budget;
+    }
+    return thinkingConfig;
+}
+
+export const GENERATION_ERROR_MESSAGES: Record<GenerationErrorCode, string> = {
+    rate_limit: "API quota exceeded. Try again in a moment.",
+    overloaded: "The model is overloaded right now. Try again shortly.",
+    invalid_key: "Invalid API Key.",
+    payload_too_large: "The request is too large. Try fewer or smaller images.",
+    safety: "Generation blocked by safety filters.",
+    network: "Network error. Check your connection.",
+    timeout: "The request timed out. Try again.",
+    unknown: "Error generating content."
+};
+
+/**
+ * A generation failure classified by cause. `attempts` counts the requests made,
+ * including automatic retries, before giving up.
+ */
+export class GenerationError extends Error {
+    code: GenerationErrorCode;
+    status?: number;
+    retryAfterMs?: number;
+    attempts = 1;
+
+    constructor(code: GenerationErrorCode, message: string, status?: number, retryAfterMs?: number) {
+        super(message);
+        this.name = 'GenerationError';
+        this.code = code;
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// The API reports a suggested wait in RetryInfo ("retryDelay": "37s") or in the message text
+function parseRetryDelayMs(message: string): number | undefined {
+    const match = message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) || message.match(/retry in ([\d.]+)\s*s/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Maps any error thrown by the SDK or fetch to a GenerationError.
+ */
+export function classifyGenerationError(error: any): GenerationError {
+    if (error instanceof GenerationError) return error;
+
+    const message: string = error?.message || String(error);
+    const lower = message.toLowerCase();
+    const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+
+    let code: GenerationErrorCode = 'unknown';
+    if (status === 429 || lower.includes('resource_exhausted') || lower.includes('quota')) {
+        code = 'rate_limit';
+    } else if (status === 503 || lower.includes('unavailable') || lower.includes('overloaded')) {
+        code = 'overloaded';
+    } else if (status === 401 || status === 403 || lower.includes('api key') || lower.includes('api_key')) {
+        code = 'invalid_key';
+    } else if (status === 413 || lower.includes('payload') || lower.includes('too large') || lower.includes('exceeds the maximum')) {
+        code = 'payload_too_large';
+    } else if (lower.includes('safety') || lower.includes('blocked')) {
+        code = 'safety';
+    } else if (error instanceof TypeError || lower.includes('failed to fetch') || lower.includes('network')) {
+        code = 'network';
+    } else if (lower.includes('timed out')) {
+        code = 'timeout';
+    }
+
+    return new GenerationError(code, message, status, parseRetryDelayMs(message));
+}
+
+export function isRetryableError(error: GenerationError): boolean {
+    return error.code === 'rate_limit' || error.code === 'overloaded';
+}
+
+const RETRY_MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// Exponential backoff with jitter, unless the server told us how long to wait
+function getRetryDelayMs(error: GenerationError, attempt: number): number {
+    if (error.retryAfterMs) return Math.min(error.retryAfterMs, RETRY_MAX_DELAY_MS) + Math.random() * 500;
+    const ceiling = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function waitWithSignal(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export interface RetryInfo {
+    attempt: number; // The attempt about to be made
+    maxAttempts: number;
+    delayMs: number;
+    error: GenerationError;
+}
+
+/**
+ * Runs a request, retrying rate-limit and overload failures with backoff.
+ * Resolves with the result and the number of attempts it took; a final failure
+ * is thrown as a GenerationError carrying the attempt count.
+ */
+export async function withRetry<T>(
+    task: (attempt: number) => Promise<T>,
+    { signal, maxAttempts = RETRY_MAX_ATTEMPTS, onRetry }: { signal?: AbortSignal; maxAttempts?: number; onRetry?: (info: RetryInfo) => void } = {}
+): Promise<{ result: T; attempts: number }> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return { result: await task(attempt), attempts: attempt };
+        } catch (e: any) {
+            if (e?.name === 'AbortError') throw e;
+
+            const error = classifyGenerationError(e);
+            error.attempts = attempt;
+            if (!isRetryableError(error) || attempt >= maxAttempts || signal?.aborted) throw error;
+
+            const delayMs = getRetryDelayMs(error, attempt);
+            onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error });
+            await waitWithSignal(delayMs, signal);
+        }
+    }
+}
+
+export interface GenerationParams {
     apiKey: string;
+    model?: ModelDescriptor;
     contents: any[];
     config: GenConfig;
     safetySetting: string;
+    safetyOverrides?: Partial<Record<SafetyCategory, string>>;
+    thinking?: { includeThoughts: boolean; level: string; budget: number };
+    systemInstruction?: string;
     signal?: AbortSignal;
     searchGrounding?: boolean;
     onProgress?: (text: string, thoughts: string, usage?: any) => void;
@@ -314,36 +485,54 @@ export interface GenerationResult {
     modelVersion?: string;
     finishReason?: string;
     safetyBlocked?: boolean;
+    safetyRatings?: SafetyRating[];
+    grounding?: GroundingInfo;
+}
+
+// Reduce candidate groundingMetadata to the sources, queries and search widget we persist
+function extractGrounding(metadata: any): GroundingInfo | undefined {
+    if (!metadata) return undefined;
+
+    const sources = (metadata.groundingChunks || [])
+        .map((c: any) => c.web)
+        .filter((w: any) => w?.uri)
+        .map((w: any) => ({ uri: w.uri, title: w.title, domain: w.domain }));
+    const queries: string[] = metadata.webSearchQueries || [];
+    const searchEntryPointHtml: string | undefined = metadata.searchEntryPoint?.renderedContent;
+
+    if (sources.length === 0 && queries.length === 0 && !searchEntryPointHtml) return undefined;
+    return { sources, queries, searchEntryPointHtml };
 }
 
-export async function generateImageContentStream({ apiKey, contents, config, safetySetting, signal, searchGrounding, onProgress }: GenerationParams): Promise<GenerationResult> {
+export async function generateImageContentStream({ apiKey, model = getDefaultModel(), contents, config, safetySetting, safetyOverrides, thinking, systemInstruction, signal, searchGrounding, onProgress }: GenerationParams): Promise<GenerationResult> {
     if (!apiKey) throw new Error("API Key is missing");
     const ai = new GoogleGenAI({ apiKey });
 
-    // Use gemini-3-pro-image-preview per spec
-    const modelName = 'gemini-3-pro-image-preview';
-
-    // Map config
+    // Map config, dropping options the model does not support
     const imgConfig: any = {};
-    if (config.aspectRatio !== 'auto') imgConfig.aspectRatio = config.aspectRatio;
-    if (config.resolution) imgConfig.imageSize = config.resolution;
+    if (config.aspectRatio !== 'auto' && model.aspectRatios.includes(config.aspectRatio)) imgConfig.aspectRatio = config.aspectRatio;
+    if (config.resolution && model.capabilities.imageSize && model.resolutions.includes(config.resolution)) imgConfig.imageSize = config.resolution;
 
     const requestConfig: any = {
         imageConfig: imgConfig,
-        safetySettings: [
-            // Map simplified safety setting to API expected format if needed, 
-            // but @google/genai usually takes safetySettings array of objects.
-            // Using simple block logic or assume library handles defaults if not customized heavily.
-        ]
+        safetySettings: buildSafetySettings(safetySetting, safetyOverrides)
     };
 
-    if (searchGrounding) {
+    if (thinking && model.capabilities.thinking) {
+        requestConfig.thinkingConfig = buildThinkingConfig(thinking.includeThoughts, thinking.level, thinking.budget);
+    }
+
+    if (searchGrounding && model.capabilities.searchGrounding) {
         requestConfig.tools = [{ googleSearch: {} }];
     }
 
+    if (systemInstruction?.trim()) {
+        requestConfig.systemInstruction = systemInstruction.trim();
+    }
+
     try {
         const streamResult = await ai.models.generateContentStream({
-            model: modelName,
+            model: model.id,
             contents: contents,
             config: requestConfig
         });
@@ -355,6 +544,8 @@ export async function generateImageContentStream({ apiKey, contents, config, saf
         let modelVersion = "";
         let finishReason = "";
         let safetyBlocked = false;
+        let safetyRatings: SafetyRating[] | undefined = undefined;
+        let grounding: GroundingInfo | undefined = undefined;
 
         for await (const chunk of streamResult) {
             if (signal?.aborted) {
@@ -373,22 +564,49 @@ export async function generateImageContentStream({ apiKey, contents, config, saf
 
             if ((chunk as any).modelVersion) modelVersion = (chunk as any).modelVersion;
 
+            // Prompt-level block (no candidates are returned in this case)
+            if (chunk.promptFeedback?.blockReason) {
+                safetyBlocked = true;
+                finishReason = chunk.promptFeedback.blockReason;
+                if (chunk.promptFeedback.safetyRatings) {
+                    safetyRatings = chunk.promptFeedback.safetyRatings.map(r => ({
+                        category: r.category || 'UNKNOWN',
+                        probability: r.probability,
+                        blocked: r.blocked
+                    }));
+                }
+            }
+
             const candidate = chunk.candidates?.[0];
             if (candidate) {
                 if (candidate.finishReason) finishReason = candidate.finishReason;
                 if (candidate.safetyRatings?.some(r => r.blocked)) safetyBlocked = true;
+                // Ratings usually arrive on the final chunk, keep the latest set
+                if (candidate.safetyRatings && candidate.safetyRatings.length > 0) {
+                    safetyRatings = candidate.safetyRatings.map(r => ({
+                        category: r.category || 'UNKNOWN',
+                        probability: r.probability,
+                        blocked: r.blocked
+                    }));
+                }
+
+                // Grounding metadata usually arrives complete on the final chunk
+                const chunkGrounding = extractGrounding(candidate.groundingMetadata);
+                if (chunkGrounding) grounding = chunkGrounding;
 
                 if (candidate.content?.parts) {
                     for (const part of candidate.content.parts) {
+                        // Thought parts carry the model's reasoning (and interim draft images),
+                        // keep them out of the answer text and final images.
+                        if (part.thought) {
+                            if (part.text) fullThoughts += part.text;
+                            continue;
+                        }
                         if (part.text) {
-                            // Heuristic: If we are using a thinking model (not this one usually), 
-                            // thoughts might be separated. For now, treat all text as text 
-                            // unless we identify a specific thought part which isn't standard in V1 API yet
-                            // but is in V1beta thinking models.
                             // For image models, text is usually the caption or refusal.
                             fullText += part.text;
                         }
-                        if (part.inlineData) {
+                        if (part.inlineData?.data) {
                             const blob = base64ToBlob(part.inlineData.data, part.inlineData.mimeType || 'image/png');
                             finalImages.push(blob);
                         }
@@ -412,11 +630,17 @@ export async function generateImageContentStream({ apiKey, contents, config, saf
             usage,
             modelVersion,
             finishReason,
-            safetyBlocked
+            safetyBlocked,
+            safetyRatings,
+            grounding
         };
 
-    } catch (error) {
+    } catch (error: any) {
+        if (error?.name === 'AbortError') throw error;
         console.error("Generation Error", error);
-        throw error;
+        throw classifyGenerationError(error);
     }
 }
+
+// Gemini runs the built-in models
+registerProvider({ id: 'google', generate: generateImageContentStream });
@@ -0,0 +1,182 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GenerationErrorCode } from '../types';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'error';
+
+export interface GenerationJob {
+    id: string;
+    key: string; // The chatId, or a per-row key for batch rows running alongside in the same chat
+    chatId: string;
+    status: JobStatus;
+    controller: AbortController;
+    createdAt: number;
+    startedAt?: number;
+    streamingText: string;
+    streamingThoughts: string;
+    streamingUsage: any;
+    retry?: JobRetry | null;
+}
+
+// Set while a job waits to retry after a rate-limit or overload error
+export interface JobRetry {
+    attempt: number;
+    maxAttempts: number;
+    resumeAt: number;
+    code: GenerationErrorCode;
+}
+
+export type GenerationTask = (job: GenerationJob) => Promise<void>;
+
+// Keep the stream "active" briefly after a job resolves so useLiveQuery has time
+// to render the saved message before the streaming bubble disappears.
+const SETTLE_DELAY_MS = 1000;
+
+let concurrency = 2;
+let runningCount = 0;
+const pending: { job: GenerationJob; task: GenerationTask; resolve: (status: JobStatus | null) => void }[] = [];
+
+// Latest job per key. Replaced wholesale on every change so it can be used as a React snapshot.
+let jobs: Record<string, GenerationJob> = {};
+const listeners = new Set<() => void>();
+
+function setJob(key: string, job: GenerationJob | null) {
+    const next = { ...jobs };
+    if (job) next[key] = job;
+    else delete next[key];
+    jobs = next;
+    listeners.forEach(l => l());
+}
+
+function patchJob(job: GenerationJob, patch: Partial<GenerationJob>) {
+    // Ignore updates from jobs that have been superseded for their key
+    if (jobs[job.key]?.id !== job.id) return;
+    setJob(job.key, { ...jobs[job.key], ...patch });
+}
+
+function pump() {
+    while (runningCount < concurrency && pending.length > 0) {
+        const next = pending.shift()!;
+        runJob(next.job, next.task).then(next.resolve, () => next.resolve(null));
+    }
+}
+
+async function runJob(job: GenerationJob, task: GenerationTask): Promise<JobStatus | null> {
+    runningCount++;
+    patchJob(job, { status: 'running', startedAt: Date.now() });
+
+    let status: JobStatus = 'done';
+    try {
+        await task(job);
+    } catch {
+        // Tasks persist their own error messages, rethrowing only to flag the job
+        status = 'error';
+    } finally {
+        runningCount--;
+        pump();
+    }
+
+    await new Promise(r => setTimeout(r, SETTLE_DELAY_MS));
+
+    if (job.controller.signal.aborted) {
+        if (jobs[job.key]?.id === job.id) setJob(job.key, null);
+        return null;
+    }
+    patchJob(job, { status, streamingText: '', streamingThoughts: '', streamingUsage: null, retry: null });
+    return status;
+}
+
+/**
+ * Queues a generation for a chat. Resolves with the final status once the task has finished,
+ * or null if it was aborted. Any previous job with the same key is aborted, so a chat never
+ * has two generations at once on its own key; batch rows pass their own keys to run side by side.
+ */
+export function enqueueGeneration(chatId: string, task: GenerationTask, key: string = chatId): Promise<JobStatus | null> {
+    abortGeneration(key);
+
+    const job: GenerationJob = {
+        id: uuidv4(),
+        key,
+        chatId,
+        status: 'queued',
+        controller: new AbortController(),
+        createdAt: Date.now(),
+        streamingText: '',
+        streamingThoughts: '',
+        streamingUsage: null
+    };
+    setJob(key, job);
+
+    return new Promise<JobStatus | null>(resolve => {
+        pending.push({ job, task, resolve });
+        pump();
+    });
+}
+
+/**
+ * Aborts the queued or running job for a key (by default a chat's own key), if any.
+ */
+export function abortGeneration(key: string) {
+    const job = jobs[key];
+    if (!job) return;
+
+    const queuedIdx = pending.findIndex(p => p.job.id === job.id);
+    if (queuedIdx !== -1) {
+        const [entry] = pending.splice(queuedIdx, 1);
+        entry.resolve(null);
+    }
+
+    job.controller.abort();
+    setJob(key, null);
+}
+
+/**
+ * Aborts every job of a chat, batch rows included.
+ */
+export function abortChatGenerations(chatId: string) {
+    Object.values(jobs).filter(j => j.chatId === chatId).forEach(j => abortGeneration(j.key));
+}
+
+/**
+ * Reports streaming progress for a running job.
+ */
+export function updateJobProgress(job: GenerationJob, text: string, thoughts: string, usage?: any) {
+    patchJob(job, {
+        streamingText: text,
+        streamingThoughts: thoughts,
+        ...(usage ? { streamingUsage: usage } : {})
+    });
+}
+
+/**
+ * Reports that a running job is backing off before its next attempt (null once it resumes).
+ */
+export function updateJobRetry(job: GenerationJob, retry: JobRetry | null) {
+    patchJob(job, { retry });
+}
+
+/**
+ * Clears the finished (done/error) job markers of a chat, e.g. once the user has seen the result.
+ */
+export function clearFinishedJobs(chatId: string) {
+    Object.values(jobs)
+        .filter(j => j.chatId === chatId && (j.status === 'done' || j.status === 'error'))
+        .forEach(j => setJob(j.key, null));
+}
+
+export function isJobActive(job?: GenerationJob | null): boolean {
+    return !!job && (job.status === 'queued' || job.status === 'running');
+}
+
+export function setGenerationConcurrency(n: number) {
+    concurrency = Math.max(1, Math.floor(n) || 1);
+    pump();
+}
+
+export function subscribeJobs(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+export function getJobsSnapshot(): Record<string, GenerationJob> {
+    return jobs;
+}
@@ -0,0 +1,89 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../db';
+import { Chat, Message } from '../types';
+import { BACKUP_VERSION } from './backupSchema';
+import { ImportPolicy, importData, previewImport } from './importExportService';
+
+function chat(id: string, title: string, updatedAt: number, activeLeafId?: string): Chat {
+    return { id, title, pinned: false, orderIndex: 0, createdAt: 0, updatedAt, activeLeafId };
+}
+
+function message(id: string, chatId: string, parentId: string | null, timestamp: number): Message {
+    return { id, chatId, parentId, role: parentId ? 'model' : 'user', text: id, timestamp };
+}
+
+// p1 exists locally with a reply (m2) the backup lacks, and the backup has a newer reply (m3); p2 is new
+function backupFile(remoteUpdatedAt = 2): File {
+    const backup = {
+        version: BACKUP_VERSION,
+        chats: [chat('p1', 'Remote', remoteUpdatedAt, 'm3'), chat('p2', 'Other', 1, 'n1')],
+        messages: [message('m1', 'p1', null, 1), message('m3', 'p1', 'm1', 3), message('n1', 'p2', null, 1)],
+        prompts: [{ text: 'hello', type: 'saved', timestamp: 1 }, { text: 'new prompt', type: 'saved', timestamp: 2 }],
+        collections: [],
+        folders: [],
+        images: [],
+        manifest: { algorithm: 'SHA-256', images: {} }
+    };
+    return new File([JSON.stringify(backup)], 'backup.json', { type: 'application/json' });
+}
+
+const runImport = (policy: ImportPolicy, file = backupFile()) => importData(file, () => {}, policy);
+
+describe('import conflict policies', () => {
+    beforeEach(async () => {
+        await Promise.all([db.chats.clear(), db.messages.clear(), db.prompts.clear()]);
+        await db.chats.add(chat('p1', 'Local', 1, 'm2'));
+        await db.messages.bulkAdd([message('m1', 'p1', null, 1), message('m2', 'p1', 'm1', 2)]);
+        await db.prompts.add({ text: 'hello', type: 'saved', timestamp: 1 });
+    });
+
+    it('previews what each policy would write', async () => {
+        const preview = await previewImport(backupFile());
+
+        expect(preview.chats).toEqual({ new: 1, duplicate: 0, conflict: 1 });
+        expect(preview.messages).toEqual({ new: 2, duplicate: 1, conflict: 0 });
+        expect(preview.prompts).toEqual({ new: 1, duplicate: 1, conflict: 0 });
+        expect(preview.outcomes.skip).toEqual({ chats: { added: 1, replaced: 0 }, messages: { added: 2, replaced: 0, removed: 0 }, images: 0, prompts: 1 });
+        expect(preview.outcomes.newer).toEqual({ chats: { added: 1, replaced: 1 }, messages: { added: 2, replaced: 0, removed: 1 }, images: 0, prompts: 1 });
+        expect(preview.outcomes.copy).toEqual({ chats: { added: 2, replaced: 0 }, messages: { added: 3, replaced: 0, removed: 0 }, images: 0, prompts: 1 });
+    });
+
+    it('skip keeps the local project and adds the messages it lacks', async () => {
+        await runImport('skip');
+
+        expect((await db.chats.get('p1'))!.title).toBe('Local');
+        expect((await db.messages.where('chatId').equals('p1').primaryKeys()).sort()).toEqual(['m1', 'm2', 'm3']);
+        expect(await db.chats.get('p2')).toBeDefined();
+        expect(await db.prompts.count()).toBe(2);
+    });
+
+    it('newer replaces a project the backup has a later version of', async () => {
+        await runImport('newer');
+
+        expect((await db.chats.get('p1'))!).toMatchObject({ title: 'Remote', activeLeafId: 'm3' });
+        expect((await db.messages.where('chatId').equals('p1').primaryKeys()).sort()).toEqual(['m1', 'm3']);
+    });
+
+    it('newer keeps a local project that is more recent', async () => {
+        await runImport('newer', backupFile(0));
+
+        expect((await db.chats.get('p1'))!.title).toBe('Local');
+        expect(await db.messages.get('m2')).toBeDefined();
+    });
+
+    it('copy imports a conflicting project alongside with fresh IDs', async () => {
+        await runImport('copy');
+
+        const copy = (await db.chats.filter(c => c.title === 'Remote (Copy)').first())!;
+        const messages = await db.messages.where('chatId').equals(copy.id).toArray();
+        const root = messages.find(m => m.parentId === null)!;
+        const reply = messages.find(m => m.parentId !== null)!;
+
+        expect((await db.chats.get('p1'))!.title).toBe('Local');
+        expect(messages).toHaveLength(2);
+        expect([root.id, reply.id]).not.toContain('m1');
+        expect(reply.parentId).toBe(root.id);
+        expect(copy.activeLeafId).toBe(reply.id);
+    });
+});
@@ -1,7 +1,9 @@
 import JSZip from 'jszip';
 import { db } from '../db';
-import { AppConfig } from '../types';
+import { AppConfig, Chat, Collection, Folder, ImageBlob, Message, Prompt } from '../types';
+import { Backup, BackupConfig, BackupImage, BackupValidationError, BACKUP_VERSION, hashBlob, parseBackup } from './backupSchema';
 import { createThumbnail } from './geminiService';
+import { v4 as uuidv4 } from 'uuid';
 
 export interface ExportProgress {
   message: string;
@@ -9,47 +11,109 @@ export interface ExportProgress {
 }
 
 /**
- * Exports all app data into a ZIP file.
+ * What an export covers. Anything short of 'all' leaves out the app settings and
+ * carries only the images and prompts its projects or images reference.
+ */
+export type ExportScope =
+  | { type: 'all' }
+  | { type: 'chats'; chatIds: string[] }
+  | { type: 'gallery' }
+  | { type: 'collection'; collectionId: string }
+  | { type: 'images'; imageIds: string[] }
+  | { type: 'range'; from: number; to: number }; // Projects with a message in the window, whole
+
+interface ExportRecords {
+  chats: Chat[];
+  messages: Message[];
+  prompts: Prompt[];
+  images: ImageBlob[];
+}
+
+const getImages = async (ids: Iterable<string>): Promise<ImageBlob[]> =>
+  (await db.images.bulkGet(Array.from(new Set(ids)))).filter((img): img is ImageBlob => !!img);
+
+/**
+ * Loads the records a scope covers: whole projects bring their messages, pinned
+ * references and attachments; image scopes bring only the images.
+ */
+const gatherRecords = async (scope: ExportScope): Promise<ExportRecords> => {
+  if (scope.type === 'all') {
+    const [chats, messages, prompts, images] = await Promise.all([
+      db.chats.toArray(), db.messages.toArray(), db.prompts.toArray(), db.images.toArray()
+    ]);
+    return { chats, messages, prompts, images };
+  }
+
+  let chatIds: string[] = [];
+  let images: ImageBlob[] = [];
+  let windowPrompts: Prompt[] = [];
+
+  if (scope.type === 'chats') {
+    chatIds = scope.chatIds;
+  } else if (scope.type === 'range') {
+    chatIds = (await db.messages.where('timestamp').between(scope.from, scope.to, true, true).toArray()).map(m => m.chatId);
+    images = await db.images.where('galleryTimestamp').between(scope.from, scope.to, true, true).toArray();
+    windowPrompts = await db.prompts.where('timestamp').between(scope.from, scope.to, true, true).toArray();
+  } else if (scope.type === 'gallery') {
+    images = await db.images.where('galleryTimestamp').above(0).toArray();
+  } else if (scope.type === 'collection') {
+    images = await db.images.where('collectionIds').equals(scope.collectionId).toArray();
+  } else {
+    images = await getImages(scope.imageIds);
+  }
+
+  chatIds = Array.from(new Set(chatIds));
+  const chats = (await db.chats.bulkGet(chatIds)).filter((c): c is Chat => !!c);
+  const messages = chatIds.length > 0 ? await db.messages.where('chatId').anyOf(chatIds).toArray() : [];
+  const projectImages = await getImages([
+    ...chats.flatMap(c => c.referenceImageIds || []),
+    ...messages.flatMap(m => m.imageIds || [])
+  ]);
+  const projectImageIds = new Set(projectImages.map(img => img.id));
+  const allImages = [...projectImages, ...images.filter(img => !projectImageIds.has(img.id))];
+
+  // Prompt history only for prompts this export actually used
+  const usedTexts = new Set([
+    ...messages.filter(m => m.role === 'user').map(m => m.text.trim()),
+    ...allImages.map(img => img.generation?.prompt.trim()).filter((t): t is string => !!t)
+  ]);
+  const usedPrompts = await db.prompts.filter(p => usedTexts.has(p.text.trim())).toArray();
+  const prompts = [...usedPrompts, ...windowPrompts.filter(p => !usedPrompts.some(u => u.id === p.id))];
+
+  return { chats, messages, prompts, images: allImages };
+};
+
+/**
+ * Exports app data into a ZIP file, the whole database unless a narrower scope is given.
  * Structure:
- * - okobit_data.json: Metadata for chats, messages, prompts, config, and image records.
+ * - okobit_data.json: Metadata for chats, folders, messages, prompts, config, and image records,
+ *   plus a manifest of image hashes (see backupSchema).
  * - images/: Folder containing raw image files named by ID.
  */
 export const exportData = async (
   config: AppConfig,
-  onProgress: (p: ExportProgress) => void
+  onProgress: (p: ExportProgress) => void,
+  scope: ExportScope = { type: 'all' }
 ): Promise<Blob> => {
   const zip = new JSZip();
   
   onProgress({ message: 'Gathering metadata...', percent: 5 });
 
   // 1. Gather Metadata
-  const chats = await db.chats.toArray();
-  const messages = await db.messages.toArray();
-  const prompts = await db.prompts.toArray();
-  const images = await db.images.toArray(); // Get metadata + blobs
+  const { chats, messages, prompts, images } = await gatherRecords(scope);
+  const isFull = scope.type === 'all';
 
-  // Sanitize config (remove API Key)
-  const exportConfig = { ...config, apiKey: '' };
+  // Only the folders and collections the exported records sit in
+  const folderIds = Array.from(new Set(chats.map(c => c.folderId).filter((id): id is string => !!id)));
+  const collectionIds = Array.from(new Set(images.flatMap(img => img.collectionIds || [])));
+  const folders = isFull ? await db.folders.toArray() : (await db.folders.bulkGet(folderIds)).filter((f): f is Folder => !!f);
+  const collections = isFull ? await db.collections.toArray() : (await db.collections.bulkGet(collectionIds)).filter((c): c is Collection => !!c);
 
-  const metadata = {
-    version: 4,
-    exportedAt: Date.now(),
-    config: exportConfig,
-    chats,
-    messages,
-    prompts,
-    images: images.map(img => ({
-      id: img.id,
-      mimeType: img.mimeType,
-      createdAt: img.createdAt,
-      isGalleryVisible: img.isGalleryVisible,
-      galleryTimestamp: img.galleryTimestamp // Include sparse index field
-    }))
-  };
+  // Sanitize config (remove API Key); partial exports are for sharing and leave settings out
+  const exportConfig = isFull ? { ...config, apiKey: '' } : undefined;
 
-  zip.file('okobit_data.json', JSON.stringify(metadata, null, 2));
-
-  // 2. Add Images to Archive
+  // 2. Add Images to Archive, hashing each file for the integrity manifest
+  const manifest: Record<string, string> = {};
   const imgFolder = zip.folder('images');
   if (imgFolder && images.length > 0) {
     let processed = 0;
@@ -60,6 +124,7 @@ export const exportData = async (
        const ext = img.mimeType.split('/')[1] || 'bin';
        const filename = `${img.id}.${ext}`;
        imgFolder.file(filename, img.blob);
+       manifest[img.id] = await hashBlob(img.blob);
        
        processed++;
        // Update progress periodically
@@ -76,6 +141,37 @@ export const exportData = async (
     }
   }
 
+  const backupImages: BackupImage[] = images.map(img => ({
+    id: img.id,
+    mimeType: img.mimeType,
+    createdAt: img.createdAt,
+    isGalleryVisible: img.isGalleryVisible,
+    galleryTimestamp: img.galleryTimestamp, // Include sparse index field
+    sourceMessageId: img.sourceMessageId,
+    parentImageIds: img.parentImageIds,
+    generation: img.generation,
+    adjustments: img.adjustments,
+    collectionIds: img.collectionIds,
+    tags: img.tags
+  }));
+
+  // Layout documented in backupSchema
+  const metadata: Backup = {
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    scope: scope.type,
+    config: exportConfig,
+    chats,
+    messages,
+    prompts,
+    collections,
+    folders,
+    images: backupImages,
+    manifest: { algorithm: 'SHA-256', images: manifest }
+  };
+
+  zip.file('okobit_data.json', JSON.stringify(metadata, null, 2));
+
   // 3. Compress and Generate
   onProgress({ message: 'Compressing archive...', percent: 60 });
 
@@ -96,174 +192,333 @@ export const exportData = async (
 };
 
 /**
- * Imports data from a ZIP file or Legacy JSON.
- * ADDITIVE MERGE: Existing data is preserved. Duplicates are skipped.
+ * How records that already exist locally are handled on import. Identical records are
+ * always skipped; the policy decides what happens to projects that differ.
+ * - skip: keep the local project, only add messages it does not have yet
+ * - newer: replace the local project when the backup's updatedAt is later, including
+ *   its messages: local ones the backup does not have are deleted
+ * - copy: import the backup's version alongside as a new project with fresh IDs
  */
-export const importData = async (
-  file: File,
-  onProgress: (p: ExportProgress) => void
-): Promise<AppConfig | null> => {
-  
-  // Handle Legacy JSON
+export type ImportPolicy = 'skip' | 'newer' | 'copy';
+
+export interface ImportCounts {
+  new: number;
+  duplicate: number; // Already present and identical
+  conflict: number; // Same ID, different content
+}
+
+// What an import would write under one policy
+export interface ImportOutcome {
+  chats: { added: number; replaced: number }; // Copies count as added
+  messages: { added: number; replaced: number; removed: number }; // Removed: local messages of replaced projects
+  images: number;
+  prompts: number;
+}
+
+export interface ImportPreview {
+  chats: ImportCounts;
+  messages: ImportCounts;
+  images: ImportCounts;
+  prompts: ImportCounts;
+  outcomes: Record<ImportPolicy, ImportOutcome>;
+  hasSettings: boolean;
+  hasManifest: boolean; // Image files will be checked against their recorded hashes
+  exportedAt?: number;
+}
+
+type RecordStatus = 'new' | 'duplicate' | 'conflict';
+
+// Parses, migrates and validates the backup data; see backupSchema
+const readBackup = async (file: File): Promise<{ data: Backup; zip: JSZip | null }> => {
   if (file.type === 'application/json' || file.name.endsWith('.json')) {
-      return importLegacyJson(file, onProgress);
+    // Old JSON exports embed images as base64
+    return { data: parseBackup(await file.text()), zip: null };
   }
 
-  onProgress({ message: 'Reading archive...', percent: 0 });
-  
   const zip = await JSZip.loadAsync(file);
-  
   const dataFile = zip.file('okobit_data.json') || zip.file('data.json');
   if (!dataFile) throw new Error("Invalid backup: data file missing");
+  return { data: parseBackup(await dataFile.async('text')), zip };
+};
+
+const promptKey = (p: { type: string; text: string }) => `${p.type}\u0000${p.text.trim()}`;
+
+const countStatuses = (statuses: Iterable<RecordStatus>): ImportCounts => {
+  const counts: ImportCounts = { new: 0, duplicate: 0, conflict: 0 };
+  for (const status of statuses) counts[status]++;
+  return counts;
+};
+
+/**
+ * Compares backup records with local ones by ID. A record counts as a duplicate when
+ * the fields that change on edit match; prompts have no stable ID and match by type and text.
+ */
+const classifyBackup = async (data: Backup) => {
+  const { chats, messages, images } = data;
+
+  const byId = <T extends { id: string }>(records: (T | undefined)[]) =>
+    new Map(records.filter((r): r is T => !!r).map(r => [r.id, r]));
+  const localChats = byId(await db.chats.bulkGet(chats.map(c => c.id)));
+  const localMessages = byId(await db.messages.bulkGet(messages.map(m => m.id)));
+  const localImages = byId(await db.images.bulkGet(images.map(img => img.id)));
+
+  const status = (exists: boolean, same: boolean): RecordStatus => !exists ? 'new' : same ? 'duplicate' : 'conflict';
+
+  const chatStatus = new Map<string, RecordStatus>(chats.map(c => {
+    const local = localChats.get(c.id);
+    return [c.id, status(!!local, local?.updatedAt === c.updatedAt && local?.title === c.title)];
+  }));
+  const messageStatus = new Map<string, RecordStatus>(messages.map(m => {
+    const local = localMessages.get(m.id);
+    return [m.id, status(!!local, local?.text === m.text && local?.timestamp === m.timestamp && (local?.parentId ?? null) === (m.parentId ?? null))];
+  }));
+  const imageStatus = new Map<string, RecordStatus>(images.map(img => {
+    const local = localImages.get(img.id);
+    return [img.id, status(!!local, local?.createdAt === img.createdAt && local?.mimeType === img.mimeType)];
+  }));
 
-  onProgress({ message: 'Parsing metadata...', percent: 10 });
-  const jsonStr = await dataFile.async('text');
-  const data = JSON.parse(jsonStr);
+  // Prompts repeated within the backup count once
+  const seenPrompts = new Set((await db.prompts.toArray()).map(promptKey));
+  const promptStatus: { prompt: Prompt; status: RecordStatus }[] = data.prompts.map(p => {
+    const key = promptKey(p);
+    const seen = seenPrompts.has(key);
+    seenPrompts.add(key);
+    return { prompt: p, status: seen ? 'duplicate' : 'new' };
+  });
+
+  return { localChats, chatStatus, messageStatus, imageStatus, promptStatus };
+};
+
+type Classification = Awaited<ReturnType<typeof classifyBackup>>;
+
+/**
+ * Works out every write an import makes under a policy, so the dry run reports
+ * exactly what the import then does.
+ */
+const planImport = async (data: Backup, classified: Classification, policy: ImportPolicy) => {
+  const { localChats, chatStatus, messageStatus, imageStatus, promptStatus } = classified;
+
+  // Decide per project: the ID each incoming chat is written under, if at all
+  const chatIds = new Map<string, string>();
+  const overwritten = new Set<string>();
+  data.chats.forEach(c => {
+    const status = chatStatus.get(c.id);
+    if (status === 'new') {
+      chatIds.set(c.id, c.id);
+    } else if (status === 'conflict' && policy === 'newer' && c.updatedAt > (localChats.get(c.id)?.updatedAt ?? 0)) {
+      chatIds.set(c.id, c.id);
+      overwritten.add(c.id);
+    } else if (status === 'conflict' && policy === 'copy') {
+      chatIds.set(c.id, uuidv4());
+    }
+  });
+  const isCopy = (chatId: string) => chatIds.has(chatId) && chatIds.get(chatId) !== chatId;
+
+  // Messages follow their project; a kept local project still gains the messages it lacks
+  const messageIds = new Map<string, string>();
+  let replacedMessages = 0;
+  data.messages.forEach(m => {
+    const status = messageStatus.get(m.id);
+    if (isCopy(m.chatId)) {
+      messageIds.set(m.id, uuidv4());
+    } else if (status === 'new' || (status === 'conflict' && overwritten.has(m.chatId))) {
+      messageIds.set(m.id, m.id);
+      if (status === 'conflict') replacedMessages++;
+    }
+  });
+  const remapMessage = (id?: string | null) => (id && messageIds.get(id)) || id;
+
+  // A replaced project ends up exactly as in the backup, branches only it had go
+  const backupMessageIds = new Set(data.messages.map(m => m.id));
+  const removedMessageIds = overwritten.size > 0
+    ? (await db.messages.where('chatId').anyOf(Array.from(overwritten)).primaryKeys()).filter(id => !backupMessageIds.has(id))
+    : [];
+
+  const chatsToWrite: Chat[] = data.chats
+    .filter(c => chatIds.has(c.id))
+    .map(c => ({
+      ...c,
+      id: chatIds.get(c.id)!,
+      title: isCopy(c.id) ? `${c.title} (Copy)` : c.title,
+      activeLeafId: remapMessage(c.activeLeafId) ?? undefined
+    }));
+  const messagesToWrite: Message[] = data.messages
+    .filter(m => messageIds.has(m.id))
+    .map(m => ({
+      ...m,
+      id: messageIds.get(m.id)!,
+      chatId: chatIds.get(m.chatId) ?? m.chatId,
+      parentId: remapMessage(m.parentId)
+    }));
+  const promptsToAdd = promptStatus
+    .filter(p => p.status === 'new')
+    .map(({ prompt }) => {
+      const { id, ...rest } = prompt;
+      return rest;
+    });
+  const newImages = data.images.filter(img => imageStatus.get(img.id) === 'new');
+
+  const outcome: ImportOutcome = {
+    chats: { added: chatsToWrite.length - overwritten.size, replaced: overwritten.size },
+    messages: { added: messagesToWrite.length - replacedMessages, replaced: replacedMessages, removed: removedMessageIds.length },
+    images: newImages.length,
+    prompts: promptsToAdd.length
+  };
+
+  return { chatsToWrite, messagesToWrite, removedMessageIds, promptsToAdd, newImages, remapMessage, outcome };
+};
+
+/**
+ * Dry run: reads a backup and reports what it has in common with the library, and
+ * what importing it would write under each policy.
+ */
+export const previewImport = async (file: File): Promise<ImportPreview> => {
+  const { data } = await readBackup(file);
+  const classified = await classifyBackup(data);
+  const { chatStatus, messageStatus, imageStatus, promptStatus } = classified;
+  const outcomeFor = async (policy: ImportPolicy) => (await planImport(data, classified, policy)).outcome;
+  return {
+    chats: countStatuses(chatStatus.values()),
+    messages: countStatuses(messageStatus.values()),
+    images: countStatuses(imageStatus.values()),
+    prompts: countStatuses(promptStatus.map(p => p.status)),
+    outcomes: { skip: await outcomeFor('skip'), newer: await outcomeFor('newer'), copy: await outcomeFor('copy') },
+    hasSettings: !!data.config,
+    hasManifest: !!data.manifest,
+    exportedAt: data.exportedAt
+  };
+};
+
+// Images come from the zip's images/ folder, or base64 inside old JSON exports
+const loadImageBlob = async (imgMeta: BackupImage, zip: JSZip | null): Promise<Blob | null> => {
+  if (!zip) {
+    if (imgMeta.blob === undefined) return null;
+    const bytes = Uint8Array.from(atob(imgMeta.blob), c => c.charCodeAt(0));
+    return new Blob([bytes], { type: imgMeta.mimeType });
+  }
+
+  const imgFolder = zip.folder('images');
+  const ext = imgMeta.mimeType.split('/')[1] || 'bin';
+  const imgFile = imgFolder?.file(`${imgMeta.id}.${ext}`) || imgFolder?.file(imgMeta.id);
+  if (!imgFile) return null;
+  return new Blob([await imgFile.async('arraybuffer')], { type: imgMeta.mimeType });
+};
+
+/**
+ * Checks the files of the images about to be imported against the manifest before
+ * anything is written, so a tampered or truncated archive is rejected as a whole.
+ */
+const verifyImages = async (
+  data: Backup,
+  images: BackupImage[],
+  zip: JSZip | null,
+  onProgress: (p: ExportProgress) => void
+) => {
+  // Only backups migrated from before version 5 lack one, parseBackup rejects the rest
+  const manifest = data.manifest;
+  if (!manifest) return;
+
+  for (let i = 0; i < images.length; i++) {
+    const img = images[i];
+    const path = `images[${data.images.indexOf(img)}] (id "${img.id}")`;
+    const expected = manifest.images[img.id];
+    if (!expected) throw new BackupValidationError(path, 'is not listed in the manifest');
+
+    const blob = await loadImageBlob(img, zip);
+    if (!blob) throw new BackupValidationError(path, 'has no image file in the archive');
+    if (await hashBlob(blob) !== expected) throw new BackupValidationError(path, 'does not match its SHA-256 hash in the manifest');
+
+    if ((i + 1) % 5 === 0 || i + 1 === images.length) {
+      onProgress({ message: `Verifying images ${i + 1}/${images.length}`, percent: 10 + ((i + 1) / images.length) * 5 });
+    }
+  }
+};
+
+/**
+ * Imports data from a ZIP file or Legacy JSON.
+ * Additive except for projects the 'newer' policy replaces. Existing projects are
+ * handled by the policy, and images already present are kept as they are.
+ */
+export const importData = async (
+  file: File,
+  onProgress: (p: ExportProgress) => void,
+  policy: ImportPolicy = 'skip'
+): Promise<BackupConfig | null> => {
+  onProgress({ message: 'Reading archive...', percent: 0 });
+  const { data, zip } = await readBackup(file);
+
+  onProgress({ message: 'Comparing with your library...', percent: 10 });
+  const { chatsToWrite, messagesToWrite, removedMessageIds, promptsToAdd, newImages, remapMessage } =
+    await planImport(data, await classifyBackup(data), policy);
+  await verifyImages(data, newImages, zip, onProgress);
 
   onProgress({ message: 'Merging metadata...', percent: 15 });
-  
+
   // Transaction 1: Merge Metadata
-  // We check for existing IDs and only insert new ones.
-  await db.transaction('rw', db.chats, db.messages, db.prompts, db.images, async () => {
-      if (data.chats && data.chats.length > 0) {
-          const existingIds = new Set(await db.chats.toCollection().primaryKeys());
-          const newChats = data.chats.filter((c: any) => !existingIds.has(c.id));
-          if (newChats.length > 0) await db.chats.bulkAdd(newChats);
-      }
+  await db.transaction('rw', [db.chats, db.messages, db.prompts, db.collections, db.folders], async () => {
+      if (chatsToWrite.length > 0) await db.chats.bulkPut(chatsToWrite);
+      if (removedMessageIds.length > 0) await db.messages.bulkDelete(removedMessageIds);
+      if (messagesToWrite.length > 0) await db.messages.bulkPut(messagesToWrite);
+      if (promptsToAdd.length > 0) await db.prompts.bulkAdd(promptsToAdd);
 
-      if (data.messages && data.messages.length > 0) {
-          const existingIds = new Set(await db.messages.toCollection().primaryKeys());
-          const newMessages = data.messages.filter((m: any) => !existingIds.has(m.id));
-          if (newMessages.length > 0) await db.messages.bulkAdd(newMessages);
+      if (data.collections.length > 0) {
+          const existingIds = new Set(await db.collections.toCollection().primaryKeys());
+          const newCollections = data.collections.filter(c => !existingIds.has(c.id));
+          if (newCollections.length > 0) await db.collections.bulkAdd(newCollections);
       }
 
-      if (data.prompts && data.prompts.length > 0) {
-          // Prompts are history logs. To prevent ID collision with local auto-increment,
-          // we strip the ID and insert as new entries. 
-          const promptsToAdd = data.prompts.map((p: any) => {
-              const { id, ...rest } = p;
-              return rest;
-          });
-          await db.prompts.bulkAdd(promptsToAdd);
+      // Projects carry their folderId, so only the folders themselves are needed
+      if (data.folders.length > 0) {
+          const existingIds = new Set(await db.folders.toCollection().primaryKeys());
+          const newFolders = data.folders.filter(f => !existingIds.has(f.id));
+          if (newFolders.length > 0) await db.folders.bulkAdd(newFolders);
       }
   });
 
   // Transaction 2+: Process and Insert Images in Batches
-  if (data.images && Array.isArray(data.images)) {
-      const total = data.images.length;
-      let processed = 0;
-      const BATCH_SIZE = 5;
-      const imgFolder = zip.folder('images');
-      
-      for (let i = 0; i < total; i += BATCH_SIZE) {
-          const batch = data.images.slice(i, i + BATCH_SIZE);
-          
-          // Filter out images we already have
-          const batchIds = batch.map((img: any) => img.id);
-          const existingIds = new Set(await db.images.where('id').anyOf(batchIds).primaryKeys());
-          const candidates = batch.filter((img: any) => !existingIds.has(img.id));
-
-          const itemsToAdd: any[] = [];
-
-          // PREPARE batches (Async unzip + Thumbnail Gen) - Safe outside transaction
-          if (candidates.length > 0) {
-              await Promise.all(candidates.map(async (imgMeta: any) => {
-                  const ext = imgMeta.mimeType.split('/')[1] || 'bin';
-                  const filename = `${imgMeta.id}.${ext}`;
-                  
-                  let imgFile = imgFolder?.file(filename);
-                  if (!imgFile) imgFile = imgFolder?.file(imgMeta.id);
-
-                  if (imgFile) {
-                      const arrayBuffer = await imgFile.async('arraybuffer');
-                      const blob = new Blob([arrayBuffer], { type: imgMeta.mimeType });
-                      
-                      // Regenerate thumbnail for UI performance
-                      const thumbnail = await createThumbnail(blob);
-
-                      itemsToAdd.push({
-                          id: imgMeta.id,
-                          blob: blob,
-                          thumbnail: thumbnail,
-                          mimeType: imgMeta.mimeType,
-                          createdAt: imgMeta.createdAt,
-                          isGalleryVisible: imgMeta.isGalleryVisible,
-                          // Restore galleryTimestamp if present, or infer it if visible
-                          galleryTimestamp: imgMeta.isGalleryVisible ? (imgMeta.galleryTimestamp || imgMeta.createdAt) : undefined
-                      });
-                  }
-              }));
-          }
-
-          // INSERT batch
-          if (itemsToAdd.length > 0) {
-              await db.images.bulkAdd(itemsToAdd);
-          }
-
-          processed += batch.length;
-          const percent = 20 + ((Math.min(processed, total) / total) * 80);
-          onProgress({ 
-              message: `Restoring images ${Math.min(processed, total)}/${total}`, 
-              percent 
+  const total = newImages.length;
+  const BATCH_SIZE = 5;
+
+  for (let i = 0; i < total; i += BATCH_SIZE) {
+      const batch = newImages.slice(i, i + BATCH_SIZE);
+      const itemsToAdd: ImageBlob[] = [];
+
+      // PREPARE batches (Async unzip + Thumbnail Gen) - Safe outside transaction
+      await Promise.all(batch.map(async imgMeta => {
+          const blob = await loadImageBlob(imgMeta, zip);
+          if (!blob) return;
+
+          itemsToAdd.push({
+              id: imgMeta.id,
+              blob: blob,
+              // Regenerate thumbnail for UI performance
+              thumbnail: await createThumbnail(blob),
+              mimeType: imgMeta.mimeType,
+              createdAt: imgMeta.createdAt,
+              isGalleryVisible: imgMeta.isGalleryVisible,
+              // Restore galleryTimestamp if present, or infer it if visible
+              galleryTimestamp: imgMeta.isGalleryVisible ? (imgMeta.galleryTimestamp || imgMeta.createdAt) : undefined,
+              sourceMessageId: remapMessage(imgMeta.sourceMessageId) ?? undefined,
+              parentImageIds: imgMeta.parentImageIds,
+              generation: imgMeta.generation,
+              adjustments: imgMeta.adjustments,
+              collectionIds: imgMeta.collectionIds,
+              tags: imgMeta.tags
           });
+      }));
+
+      // INSERT batch
+      if (itemsToAdd.length > 0) {
+          await db.images.bulkAdd(itemsToAdd);
       }
+
+      const processed = Math.min(i + BATCH_SIZE, total);
+      onProgress({ 
+          message: `Restoring images ${processed}/${total}`, 
+          percent: 20 + ((processed / total) * 80)
+      });
   }
 
-  return data.config || null;
+  onProgress({ message: 'Done', percent: 100 });
+  return data.config ?? null;
 };
-
-// Fallback for old JSON exports
-const importLegacyJson = async (file: File, onProgress: (p: ExportProgress) => void): Promise<AppConfig | null> => {
-    onProgress({ message: 'Reading JSON...', percent: 10 });
-    const text = await file.text();
-    const data = JSON.parse(text);
-
-    onProgress({ message: 'Merging data...', percent: 50 });
-    await db.transaction('rw', db.chats, db.messages, db.prompts, db.images, async () => {
-        // Chats
-        if (data.chats) {
-            const existing = new Set(await db.chats.toCollection().primaryKeys());
-            const toAdd = data.chats.filter((x: any) => !existing.has(x.id));
-            if (toAdd.length) await db.chats.bulkAdd(toAdd);
-        }
-        
-        // Messages
-        if (data.messages) {
-            const existing = new Set(await db.messages.toCollection().primaryKeys());
-            const toAdd = data.messages.filter((x: any) => !existing.has(x.id));
-            if (toAdd.length) await db.messages.bulkAdd(toAdd);
-        }
-
-        // Prompts
-        if (data.prompts) {
-             const toAdd = data.prompts.map((p: any) => { const {id, ...r} = p; return r; });
-             await db.prompts.bulkAdd(toAdd);
-        }
-        
-        // Images (Legacy)
-        if (data.images) {
-            const existing = new Set(await db.images.toCollection().primaryKeys());
-            const candidates = data.images.filter((x: any) => !existing.has(x.id));
-            
-            if (candidates.length > 0) {
-                const hydratedImages = candidates.map((img: any) => {
-                    const byteCharacters = atob(img.blob);
-                    const byteNumbers = new Array(byteCharacters.length);
-                    for (let i = 0; i < byteCharacters.length; i++) {
-                        byteNumbers[i] = byteCharacters.charCodeAt(i);
-                    }
-                    const byteArray = new Uint8Array(byteNumbers);
-                    return { 
-                        ...img, 
-                        blob: new Blob([byteArray], { type: img.mimeType }),
-                        galleryTimestamp: img.isGalleryVisible ? img.createdAt : undefined // Infer sparse index
-                    };
-                });
-                await db.images.bulkAdd(hydratedImages);
-            }
-        }
-    });
-    
-    onProgress({ message: 'Done', percent: 100 });
-    return data.config || null;
-};
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { db } from '../db';
+import { ImageBlob, Message } from '../types';
+
+/**
+ * Image provenance. Every generated or derived image records the images it came
+ * from (parentImageIds), so lineage can be walked both ways across projects.
+ */
+
+// Stops runaway walks on long edit chains
+const MAX_LINEAGE_DEPTH = 12;
+
+export interface LineageNode {
+    image: ImageBlob;
+    chatId?: string;
+    chatTitle?: string;
+    prompt?: string;
+}
+
+export interface Lineage {
+    focus: LineageNode;
+    ancestors: LineageNode[][]; // Nearest generation first
+    descendants: LineageNode[][];
+}
+
+/**
+ * Images a generation is built from: the attachments of the prompt being answered or,
+ * when it has none, the latest generated images (iterative edits), plus pinned references.
+ */
+export function getGenerationParents(branch: Message[], pinnedImageIds: string[] = []): string[] {
+    const turns = branch.filter(m => !m.error);
+    const lastUser = [...turns].reverse().find(m => m.role === 'user');
+
+    let parents = lastUser?.imageIds || [];
+    if (parents.length === 0) {
+        const lastModelWithImages = [...turns].reverse().find(m => m.role === 'model' && m.imageIds?.length);
+        parents = lastModelWithImages?.imageIds || [];
+    }
+    return Array.from(new Set([...parents, ...pinnedImageIds]));
+}
+
+async function toNodes(images: ImageBlob[]): Promise<LineageNode[]> {
+    // Resolve the project each image lives in; older images without provenance fall back to any message holding them
+    const nodes: LineageNode[] = [];
+    for (const image of images) {
+        const message = image.sourceMessageId
+            ? await db.messages.get(image.sourceMessageId)
+            : await db.messages.where('imageIds').equals(image.id).first();
+        const chat = message ? await db.chats.get(message.chatId) : undefined;
+        nodes.push({
+            image,
+            chatId: chat?.id,
+            chatTitle: chat?.title,
+            prompt: image.generation?.prompt
+        });
+    }
+    return nodes;
+}
+
+async function walk(start: ImageBlob, next: (images: ImageBlob[]) => Promise<ImageBlob[]>, seen: Set<string>): Promise<LineageNode[][]> {
+    const levels: LineageNode[][] = [];
+    let frontier = [start];
+
+    for (let depth = 0; depth < MAX_LINEAGE_DEPTH && frontier.length > 0; depth++) {
+        const found = (await next(frontier)).filter(img => !seen.has(img.id));
+        found.forEach(img => seen.add(img.id));
+        if (found.length === 0) break;
+        levels.push(await toNodes(found));
+        frontier = found;
+    }
+    return levels;
+}
+
+export async function getLineage(imageId: string): Promise<Lineage | null> {
+    const image = await db.images.get(imageId);
+    if (!image) return null;
+
+    const seen = new Set([imageId]);
+    const ancestors = await walk(image, async images => {
+        const ids = Array.from(new Set(images.flatMap(img => img.parentImageIds || [])));
+        return (await db.images.bulkGet(ids)).filter((img): img is ImageBlob => !!img);
+    }, seen);
+    const descendants = await walk(image, images =>
+        db.images.where('parentImageIds').anyOf(images.map(img => img.id)).distinct().toArray(),
+    seen);
+
+    const [focus] = await toNodes([image]);
+    return { focus, ancestors, descendants };
+}
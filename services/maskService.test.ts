@@ -0,0 +1,37 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../db';
+import { Message } from '../types';
+import { findEditParent } from './maskService';
+
+function message(id: string, role: Message['role'], parentId: string | null, timestamp: number, imageIds: string[] = []): Message {
+    return { id, chatId: 'c', parentId, role, text: id, imageIds, timestamp };
+}
+
+describe('findEditParent', () => {
+    beforeEach(async () => {
+        await db.messages.clear();
+    });
+
+    it('continues from the reply that generated the image', async () => {
+        await db.messages.bulkAdd([message('u1', 'user', null, 1), message('m1', 'model', 'u1', 2, ['img'])]);
+
+        expect((await findEditParent('img'))?.id).toBe('m1');
+    });
+
+    it('continues from the latest reply to the message an image was attached to', async () => {
+        await db.messages.bulkAdd([
+            message('u1', 'user', null, 1, ['img']),
+            message('m1', 'model', 'u1', 2),
+            message('m2', 'model', 'u1', 3)
+        ]);
+
+        expect((await findEditParent('img'))?.id).toBe('m2');
+    });
+
+    it('has no parent for an attachment nobody replied to', async () => {
+        await db.messages.add(message('u1', 'user', null, 1, ['img']));
+
+        expect(await findEditParent('img')).toBeUndefined();
+    });
+});
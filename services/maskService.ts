@@ -0,0 +1,107 @@
+import { db } from '../db';
+import { Message } from '../types';
+import { loadImage } from './geminiService';
+
+/**
+ * Region edits: turns a painted mask layer into the two attachments sent with an
+ * edit turn, a black-and-white mask PNG and a marked-up copy of the image.
+ */
+
+// Colour the masked region is painted with in the marked-up overlay
+const OVERLAY_COLOR = 'rgba(255, 40, 40, 0.55)';
+
+export type MaskEditTarget = 'origin' | 'new';
+
+export interface MaskEditRequest {
+    instruction: string;
+    mask: Blob;
+    overlay: Blob;
+    target: MaskEditTarget;
+}
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(b => b ? resolve(b) : reject(new Error("Failed to encode image")), 'image/png');
+    });
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported");
+    return [canvas, ctx];
+}
+
+// The painted layer recoloured to a single solid colour, keeping its alpha
+function tintLayer(layer: HTMLCanvasElement, color: string): HTMLCanvasElement {
+    const [canvas, ctx] = createCanvas(layer.width, layer.height);
+    ctx.drawImage(layer, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas;
+}
+
+export function isMaskEmpty(layer: HTMLCanvasElement): boolean {
+    const ctx = layer.getContext('2d');
+    if (!ctx) return true;
+    const { data } = ctx.getImageData(0, 0, layer.width, layer.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return false;
+    }
+    return true;
+}
+
+/**
+ * Renders the mask (white = region to edit, black = keep) and the overlay (the
+ * source image with the region highlighted). The layer must match the image's size.
+ */
+export async function renderMaskOutputs(source: Blob, layer: HTMLCanvasElement): Promise<{ mask: Blob; overlay: Blob }> {
+    const img = await loadImage(source);
+
+    const [maskCanvas, maskCtx] = createCanvas(layer.width, layer.height);
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
+    maskCtx.drawImage(tintLayer(layer, '#ffffff'), 0, 0);
+
+    const [overlayCanvas, overlayCtx] = createCanvas(layer.width, layer.height);
+    overlayCtx.drawImage(img, 0, 0, overlayCanvas.width, overlayCanvas.height);
+    overlayCtx.drawImage(tintLayer(layer, OVERLAY_COLOR), 0, 0);
+
+    return {
+        mask: await canvasToPng(maskCanvas),
+        overlay: await canvasToPng(overlayCanvas)
+    };
+}
+
+/**
+ * Model-facing prompt for an edit turn. Attachments are sent as image, overlay, mask.
+ */
+export function buildMaskEditPrompt(instruction: string): string {
+    return [
+        'Edit the first image, changing only the marked region.',
+        'The second image is the same picture with the region highlighted in red. The third image is a mask of it: white is the region to change, black must stay exactly as it is.',
+        `Edit: ${instruction.trim()}`,
+        'Return the full edited image at the original framing, with everything outside the region unchanged.'
+    ].join('\n\n');
+}
+
+/**
+ * The model reply a region edit of an image continues from in its original project: the
+ * message that generated it, or for an attachment the latest reply to the message it was
+ * attached to. The edit is a user turn, so it never follows another user turn directly.
+ */
+export async function findEditParent(imageId: string): Promise<Message | undefined> {
+    const sources = await db.messages.where('imageIds').equals(imageId).toArray();
+    const generated = sources.find(m => m.role === 'model');
+    if (generated) return generated;
+
+    for (const source of sources) {
+        const replies = await db.messages.where('parentId').equals(source.id).sortBy('timestamp');
+        const reply = replies.filter(m => m.role === 'model').pop();
+        if (reply) return reply;
+    }
+    return undefined;
+}
@@ -0,0 +1,96 @@
+import { Message } from '../types';
+
+/**
+ * Pure helpers for the message branch tree.
+ * Every message points at its parent via parentId (null for a root). Editing or
+ * regenerating adds a sibling instead of deleting, and the chat remembers which
+ * leaf is active. Kept free of db imports so the schema upgrade can use it.
+ */
+
+const byTimestamp = (a: Message, b: Message) => a.timestamp - b.timestamp;
+
+export function getChildren(messages: Message[], parentId: string | null): Message[] {
+    return messages.filter(m => (m.parentId ?? null) === parentId).sort(byTimestamp);
+}
+
+export function getSiblings(messages: Message[], msg: Message): Message[] {
+    return getChildren(messages, msg.parentId ?? null);
+}
+
+/**
+ * Follows the most recent child from a message down to a leaf.
+ */
+export function getLatestLeaf(messages: Message[], fromId: string): string {
+    let currentId = fromId;
+    for (;;) {
+        const children = getChildren(messages, currentId);
+        if (children.length === 0) return currentId;
+        currentId = children[children.length - 1].id;
+    }
+}
+
+/**
+ * Returns the root-to-leaf path ending at leafId. Falls back to the most recent
+ * message when the leaf is unknown (e.g. it was deleted).
+ */
+export function getActivePath(messages: Message[], leafId?: string | null): Message[] {
+    if (messages.length === 0) return [];
+    const byId = new Map(messages.map(m => [m.id, m]));
+
+    let leaf = leafId ? byId.get(leafId) : undefined;
+    if (!leaf) {
+        leaf = [...messages].sort(byTimestamp)[messages.length - 1];
+    }
+
+    const path: Message[] = [];
+    const seen = new Set<string>();
+    let current: Message | undefined = leaf;
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        path.push(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path.reverse();
+}
+
+/**
+ * Collects a message and all of its descendants.
+ */
+export function getSubtreeIds(messages: Message[], rootId: string): string[] {
+    const ids: string[] = [];
+    const stack = [rootId];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        ids.push(id);
+        messages.forEach(m => { if (m.parentId === id) stack.push(m.id); });
+    }
+    return ids;
+}
+
+/**
+ * Links legacy messages (saved before branching existed) into a single chain by
+ * timestamp. Sibling variants share the parent of their group and the next turn
+ * continues from the picked variant, or the first one if none was picked.
+ * Returns the parentId for each message and the resulting active leaf.
+ */
+export function linkLinearMessages(messages: Message[]): { parents: Map<string, string | null>; leafId: string | null } {
+    const parents = new Map<string, string | null>();
+    let lastActive: string | null = null;
+    let groupId: string | undefined;
+    let groupParent: string | null = null;
+
+    for (const m of [...messages].sort(byTimestamp)) {
+        if (m.variantGroupId && m.variantGroupId === groupId) {
+            parents.set(m.id, groupParent);
+            if (m.variantPicked) lastActive = m.id;
+            continue;
+        }
+
+        groupId = m.variantGroupId;
+        groupParent = lastActive;
+        parents.set(m.id, lastActive);
+        lastActive = m.id;
+    }
+
+    return { parents, leafId: lastActive };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_IMAGE_MODEL_ID, getImageModels, getModel, resolveProjectModel, setCustomModels } from './modelRegistry';
+
+describe('resolveProjectModel', () => {
+    it('uses the default model when the project has none', () => {
+        expect(resolveProjectModel(undefined)).toEqual({ model: getModel(DEFAULT_IMAGE_MODEL_ID) });
+    });
+
+    it('reports a saved model that is not registered', () => {
+        const { model, missingId } = resolveProjectModel('retired-model');
+
+        expect(getModel('retired-model')).toBeUndefined();
+        expect(model.id).toBe(DEFAULT_IMAGE_MODEL_ID);
+        expect(missingId).toBe('retired-model');
+    });
+});
+
+describe('setCustomModels', () => {
+    it('registers copies of their base model and drops ones that were removed', () => {
+        setCustomModels([{ id: 'gemini-next-image', label: 'Next', baseId: DEFAULT_IMAGE_MODEL_ID }]);
+        const added = getModel('gemini-next-image')!;
+
+        expect(added).toMatchObject({ label: 'Next', provider: getModel(DEFAULT_IMAGE_MODEL_ID)!.provider });
+        expect(getImageModels().map(m => m.id)).toContain('gemini-next-image');
+
+        setCustomModels([]);
+        expect(getModel('gemini-next-image')).toBeUndefined();
+    });
+
+    it('skips models with an unknown base or a built-in id', () => {
+        setCustomModels([
+            { id: 'orphan', label: 'Orphan', baseId: 'missing' },
+            { id: DEFAULT_IMAGE_MODEL_ID, label: 'Shadow', baseId: DEFAULT_IMAGE_MODEL_ID }
+        ]);
+
+        expect(getModel('orphan')).toBeUndefined();
+        expect(getModel(DEFAULT_IMAGE_MODEL_ID)!.label).not.toBe('Shadow');
+    });
+});
@@ -0,0 +1,169 @@
+import { CustomModel, GenConfig, ModelDescriptor } from '../types';
+import { DEFAULT_GEN_CONFIG } from '../constants';
+import type { GenerationParams, GenerationResult } from './geminiService';
+
+/**
+ * Registry of models Okobit can talk to, and of the providers that run them.
+ * A registered model is selectable per project; generation, UI options and cost
+ * estimation all read from the descriptor instead of hard-coded names, and
+ * generations go to the provider named by its `provider` field.
+ */
+
+/**
+ * Runs generations for the models that name it as their provider.
+ */
+export interface ModelProvider {
+    id: string;
+    generate: (params: GenerationParams) => Promise<GenerationResult>;
+}
+
+const providers = new Map<string, ModelProvider>();
+
+// Built-in models, run by the Gemini provider registered in geminiService
+const BUILT_IN_MODELS: ModelDescriptor[] = [
+    {
+        id: 'gemini-3-pro-image-preview',
+        label: 'Gemini 3 Pro Image',
+        provider: 'google',
+        role: 'image',
+        capabilities: { imageOutput: true, imageSize: true, thinking: true, searchGrounding: true },
+        aspectRatios: ['auto', '1:1', '16:9', '9:16', '4:3', '3:4'],
+        resolutions: ['1K', '2K', '4K'],
+        pricing: {
+            inputPerM: 2,
+            outputPerM: 12,
+            imageOutputPerM: 120,
+            imageTokens: { '1K': 1120, '2K': 1120, '4K': 2000 }
+        }
+    },
+    {
+        id: 'gemini-2.5-flash-image',
+        label: 'Gemini 2.5 Flash Image',
+        provider: 'google',
+        role: 'image',
+        capabilities: { imageOutput: true, imageSize: false, thinking: false, searchGrounding: false },
+        aspectRatios: ['auto', '1:1', '16:9', '9:16', '4:3', '3:4'],
+        resolutions: ['1K'],
+        pricing: {
+            inputPerM: 0.3,
+            outputPerM: 2.5,
+            imageOutputPerM: 30,
+            imageTokens: { default: 1290 }
+        }
+    },
+    {
+        id: 'gemini-2.5-flash-lite',
+        label: 'Gemini 2.5 Flash Lite',
+        provider: 'google',
+        role: 'text',
+        capabilities: { imageOutput: false, imageSize: false, thinking: true, searchGrounding: true },
+        aspectRatios: [],
+        resolutions: [],
+        pricing: { inputPerM: 0.1, outputPerM: 0.4 }
+    }
+];
+
+export const DEFAULT_IMAGE_MODEL_ID = 'gemini-3-pro-image-preview';
+
+// Cheap, fast model used for key validation, titles and prompt enhancement
+export const UTILITY_MODEL_ID = 'gemini-2.5-flash-lite';
+
+const models = new Map(BUILT_IN_MODELS.map(m => [m.id, m]));
+
+export function registerProvider(provider: ModelProvider) {
+    providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): ModelProvider {
+    const provider = providers.get(id);
+    if (!provider) throw new Error(`No model provider registered as "${id}"`);
+    return provider;
+}
+
+/**
+ * Adds a model, or replaces the one with the same id. Its provider is resolved
+ * when a generation runs, so the two can be registered in either order.
+ */
+function registerModel(model: ModelDescriptor) {
+    models.set(model.id, model);
+}
+
+let customModelIds: string[] = [];
+
+/**
+ * Replaces the models added in settings. Each is a copy of its base model under its own
+ * id and label; one whose base is unknown, or that would shadow a built-in, is skipped.
+ */
+export function setCustomModels(custom: CustomModel[] = []) {
+    customModelIds.forEach(id => models.delete(id));
+    customModelIds = [];
+    for (const { id, label, baseId } of custom) {
+        const base = BUILT_IN_MODELS.find(m => m.id === baseId);
+        if (!base || isBuiltInModel(id)) continue;
+        registerModel({ ...base, id, label });
+        customModelIds.push(id);
+    }
+}
+
+export function isBuiltInModel(id: string): boolean {
+    return BUILT_IN_MODELS.some(m => m.id === id);
+}
+
+export function getModels(): ModelDescriptor[] {
+    return [...models.values()];
+}
+
+export function getImageModels(): ModelDescriptor[] {
+    return getModels().filter(m => m.role === 'image');
+}
+
+export function getModel(id: string): ModelDescriptor | undefined {
+    return models.get(id);
+}
+
+export function getDefaultModel(): ModelDescriptor {
+    return models.get(DEFAULT_IMAGE_MODEL_ID)!;
+}
+
+/**
+ * The model a project generates with. A saved modelId that is no longer registered
+ * falls back to the default, and comes back as `missingId` so the UI can say so.
+ */
+export function resolveProjectModel(modelId?: string): { model: ModelDescriptor; missingId?: string } {
+    if (!modelId) return { model: getDefaultModel() };
+    const model = getModel(modelId);
+    return model ? { model } : { model: getDefaultModel(), missingId: modelId };
+}
+
+/**
+ * Fills in defaults and keeps a project's generation settings within what its model supports.
+ */
+export function resolveGenConfig(model: ModelDescriptor, genConfig?: Partial<GenConfig>): GenConfig {
+    const merged = { ...DEFAULT_GEN_CONFIG, ...genConfig };
+    return {
+        ...merged,
+        aspectRatio: model.aspectRatios.includes(merged.aspectRatio) ? merged.aspectRatio : 'auto',
+        resolution: model.resolutions.includes(merged.resolution) ? merged.resolution : (model.resolutions[0] || merged.resolution)
+    };
+}
+
+// Estimate request cost from usage metadata using the descriptor pricing
+export function estimateCostUsd(model: ModelDescriptor, usage: any, resolution: string, imageCount: number): number {
+    if (!usage) return 0;
+    const { pricing } = model;
+
+    const promptCost = (usage.promptTokens / 1_000_000) * pricing.inputPerM;
+
+    if (!pricing.imageOutputPerM) {
+        return promptCost + (usage.outputTokens / 1_000_000) * pricing.outputPerM;
+    }
+
+    // Fallback estimate if output tokens are low (heuristic)
+    let outputTokens = usage.outputTokens;
+    if ((!outputTokens || outputTokens === 0) && imageCount > 0) {
+        const perImage = pricing.imageTokens?.[resolution] ?? pricing.imageTokens?.default ?? 0;
+        outputTokens = perImage * imageCount;
+    }
+
+    return promptCost + (outputTokens / 1_000_000) * pricing.imageOutputPerM;
+}
@@ -0,0 +1,54 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { StylePreset } from '../types';
+import { deleteImagesIfOrphaned } from './cleanupService';
+
+/**
+ * Combines the user's prompt with the active presets, in the order they were stacked.
+ */
+export function composePrompt(text: string, presets: StylePreset[]): string {
+    if (presets.length === 0) return text;
+
+    const fragments = presets.map(p => p.promptFragment.trim()).filter(Boolean);
+    const negatives = presets.map(p => p.negativePrompt?.trim()).filter(Boolean);
+
+    const lines = [text.trim()];
+    if (fragments.length > 0) lines.push(`Style: ${fragments.join('; ')}`);
+    if (negatives.length > 0) lines.push(`Avoid: ${negatives.join('; ')}`);
+    return lines.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Generation defaults from the presets, later presets winning.
+ */
+export function getPresetGenDefaults(presets: StylePreset[]): { aspectRatio?: string; resolution?: string } {
+    const defaults: { aspectRatio?: string; resolution?: string } = {};
+    presets.forEach(p => {
+        if (p.aspectRatio) defaults.aspectRatio = p.aspectRatio;
+        if (p.resolution) defaults.resolution = p.resolution;
+    });
+    return defaults;
+}
+
+export async function savePreset(preset: Omit<StylePreset, 'id' | 'createdAt'> & { id?: string }): Promise<string> {
+    const existing = preset.id ? await db.presets.get(preset.id) : undefined;
+    const id = existing?.id || uuidv4();
+
+    await db.presets.put({
+        ...preset,
+        id,
+        createdAt: existing?.createdAt || Date.now()
+    });
+
+    // Reference images removed while editing may now be unused
+    const removed = (existing?.referenceImageIds || []).filter(imgId => !preset.referenceImageIds?.includes(imgId));
+    await deleteImagesIfOrphaned(removed);
+    return id;
+}
+
+export async function deletePreset(id: string) {
+    const preset = await db.presets.get(id);
+    if (!preset) return;
+    await db.presets.delete(id);
+    await deleteImagesIfOrphaned(preset.referenceImageIds || []);
+}
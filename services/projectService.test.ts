@@ -0,0 +1,67 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from '../db';
+import { Chat } from '../types';
+import { getSidebarProjects } from './projectService';
+import { moveProject } from './folderService';
+
+function chat(id: string, patch: Partial<Chat> = {}): Chat {
+    return { id, title: id, pinned: false, orderIndex: 0, createdAt: 0, updatedAt: 0, ...patch };
+}
+
+describe('getSidebarProjects', () => {
+    beforeEach(async () => {
+        await db.chats.clear();
+        await db.folders.clear();
+    });
+
+    it('finds pinned projects through the index as they are pinned and unpinned', async () => {
+        await db.chats.bulkAdd([chat('a', { updatedAt: 1 }), chat('b', { updatedAt: 2 }), chat('c', { pinned: true, archived: 1 })]);
+
+        await db.chats.update('a', { pinned: true });
+        let result = await getSidebarProjects(10);
+        expect(result.chats.map(c => c.id)).toEqual(['a', 'b']);
+        expect(await db.chats.where('[archived+pinnedKey]').equals([0, 1]).primaryKeys()).toEqual(['a']);
+
+        await db.chats.update('a', { pinned: false });
+        result = await getSidebarProjects(10);
+        expect(await db.chats.where('[archived+pinnedKey]').equals([0, 1]).count()).toBe(0);
+        expect(result.chats.map(c => c.id)).toEqual(['b', 'a']);
+    });
+
+    it('keeps the pinned index when a record is replaced', async () => {
+        await db.chats.add(chat('a', { pinned: true }));
+        await db.chats.put(chat('a', { pinned: true, title: 'renamed' }));
+
+        expect((await db.chats.get('a'))!.pinnedKey).toBe(1);
+    });
+
+    it('pages the unpinned top level and reports more', async () => {
+        await db.chats.bulkAdd([1, 2, 3].map(n => chat(`t${n}`, { updatedAt: n })));
+
+        const result = await getSidebarProjects(2);
+        expect(result.chats.map(c => c.id)).toEqual(['t3', 't2']);
+        expect(result.hasMore).toBe(true);
+    });
+});
+
+describe('moveProject', () => {
+    beforeEach(async () => {
+        await db.chats.clear();
+    });
+
+    it('renumbers only active, unpinned top-level projects', async () => {
+        await db.chats.bulkAdd([
+            chat('a', { updatedAt: 3 }),
+            chat('b', { updatedAt: 2 }),
+            chat('c', { updatedAt: 1 }),
+            chat('old', { archived: 1, orderIndex: 7 }),
+            chat('pin', { pinned: true, orderIndex: 5 })
+        ]);
+
+        await moveProject('c', null, 'a');
+
+        const byId = Object.fromEntries((await db.chats.toArray()).map(c => [c.id, c.orderIndex]));
+        expect(byId).toEqual({ c: 1, a: 2, b: 3, old: 7, pin: 5 });
+    });
+});
@@ -0,0 +1,76 @@
+import Dexie from 'dexie';
+import { db } from '../db';
+import { Chat, Folder } from '../types';
+
+/**
+ * Project listing for the sidebar. Archived projects are paged through the
+ * [archived+updatedAt] index, most recently updated first. Active projects are shown in
+ * groups, see getSidebarProjects, so the list never loads every project at once.
+ */
+
+export const PROJECT_PAGE_SIZE = 50;
+
+export interface SidebarProjects {
+    chats: Chat[]; // Pinned top-level projects, those in expanded folders and the loaded top-level page
+    folderCounts: Record<string, number>; // Active projects per folder, collapsed ones included
+    hasMore: boolean; // The top level has projects beyond the loaded page
+}
+
+const byArchived = (archived: 0 | 1) =>
+    db.chats.where('[archived+updatedAt]').between([archived, Dexie.minKey], [archived, Dexie.maxKey]);
+
+const isTopLevel = (c: Chat) => !c.folderId && !c.pinned;
+
+/**
+ * The first `limit` unpinned top-level projects in the order the sidebar shows them:
+ * untouched ones (orderIndex 0) newest first, then dragged ones by orderIndex.
+ */
+async function getTopLevelPage(limit: number): Promise<Chat[]> {
+    const byOrder = db.chats.where('[archived+orderIndex+updatedAt]');
+    const untouched = await byOrder.between([0, 0, Dexie.minKey], [0, 0, Dexie.maxKey]).reverse().filter(isTopLevel).limit(limit).toArray();
+    if (untouched.length >= limit) return untouched;
+    const dragged = await byOrder.between([0, 0, Dexie.maxKey], [0, Infinity, Dexie.maxKey], false).filter(isTopLevel).limit(limit - untouched.length).toArray();
+    return [...untouched, ...dragged];
+}
+
+/**
+ * Active projects for the sidebar. Expanded folders and pinned projects are loaded
+ * whole, so their order is always complete and dragging only places a project among
+ * ones the user can see. Only the unpinned top level is paged, in display order, so
+ * loading more appends below what is shown.
+ */
+export async function getSidebarProjects(limit: number): Promise<SidebarProjects> {
+    const folders: Folder[] = await db.folders.toArray();
+    const expanded = folders.filter(f => !f.collapsed).map(f => [f.id, 0]);
+    const [pinned, foldered, counts, page] = await Promise.all([
+        db.chats.where('[archived+pinnedKey]').equals([0, 1]).filter(c => !c.folderId).toArray(),
+        expanded.length > 0 ? db.chats.where('[folderId+archived]').anyOf(expanded).toArray() : Promise.resolve([] as Chat[]),
+        Promise.all(folders.map(f => db.chats.where('[folderId+archived]').equals([f.id, 0]).count())),
+        getTopLevelPage(limit + 1)
+    ]);
+
+    return {
+        chats: [...pinned, ...foldered, ...page.slice(0, limit)],
+        folderCounts: Object.fromEntries(folders.map((f, i) => [f.id, counts[i]])),
+        hasMore: page.length > limit
+    };
+}
+
+export async function getProjects(archived: boolean, limit: number): Promise<Chat[]> {
+    return byArchived(archived ? 1 : 0).reverse().limit(limit).toArray();
+}
+
+export async function countProjects(archived: boolean): Promise<number> {
+    return byArchived(archived ? 1 : 0).count();
+}
+
+export async function setProjectArchived(chatId: string, archived: boolean) {
+    await db.chats.update(chatId, { archived: archived ? 1 : 0 });
+}
+
+/**
+ * An active project without messages, reused instead of creating another empty one.
+ */
+export async function findEmptyProject(): Promise<Chat | undefined> {
+    return db.chats.where('messageCount').equals(0).filter(c => !c.archived).first();
+}
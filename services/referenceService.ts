@@ -0,0 +1,76 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { deleteImagesIfOrphaned } from './cleanupService';
+import { optimizeInputImage, createThumbnail, getEffectiveMimeType } from './geminiService';
+
+/**
+ * Pins images to a project's reference set. They are sent ahead of the history
+ * on every generation and are never treated as orphans by the cleanup service.
+ */
+export async function pinReferenceImages(chatId: string, imageIds: string[]) {
+    await db.transaction('rw', db.chats, async () => {
+        const chat = await db.chats.get(chatId);
+        if (!chat) return;
+        const current = chat.referenceImageIds || [];
+        const added = imageIds.filter(id => !current.includes(id));
+        if (added.length > 0) {
+            await db.chats.update(chatId, { referenceImageIds: [...current, ...added] });
+        }
+    });
+}
+
+/**
+ * Removes images from a project's reference set, deleting them if nothing else uses them.
+ */
+export async function unpinReferenceImages(chatId: string, imageIds: string[]) {
+    const chat = await db.chats.get(chatId);
+    if (!chat?.referenceImageIds) return;
+
+    await db.chats.update(chatId, {
+        referenceImageIds: chat.referenceImageIds.filter(id => !imageIds.includes(id))
+    });
+    await deleteImagesIfOrphaned(imageIds);
+}
+
+/**
+ * Stores image files for use as references (project or preset).
+ * Non-image files are skipped and their names returned.
+ */
+export async function storeReferenceFiles(files: Blob[]): Promise<{ imageIds: string[]; skipped: string[] }> {
+    const skipped: string[] = [];
+    const imageIds: string[] = [];
+
+    for (const file of files) {
+        const effectiveType = getEffectiveMimeType(file);
+        if (!effectiveType.startsWith('image/')) {
+            skipped.push('name' in file ? (file as File).name : 'File');
+            continue;
+        }
+
+        const optimized = await optimizeInputImage(file, effectiveType);
+        const thumb = await createThumbnail(file, effectiveType, 300);
+
+        const imgId = uuidv4();
+        await db.images.add({
+            id: imgId,
+            blob: optimized,
+            thumbnail: thumb,
+            mimeType: (optimized !== file && optimized.type) ? optimized.type : effectiveType,
+            createdAt: Date.now(),
+            isGalleryVisible: false
+        });
+        imageIds.push(imgId);
+    }
+
+    return { imageIds, skipped };
+}
+
+/**
+ * Stores uploaded files and pins them as project references.
+ * Returns the names of files that were skipped because they are not images.
+ */
+export async function addReferenceFiles(chatId: string, files: Blob[]): Promise<string[]> {
+    const { imageIds, skipped } = await storeReferenceFiles(files);
+    await pinReferenceImages(chatId, imageIds);
+    return skipped;
+}
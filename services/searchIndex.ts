@@ -0,0 +1,27 @@
+/**
+ * Tokenizer behind the full-text search index. Records store their distinct words in
+ * a multi-entry `searchWords` index and queries match words by prefix. Kept free of db
+ * imports so the schema hooks and upgrade can use it.
+ */
+
+// Longer words are cut, prefix matching still finds them
+const MAX_WORD_LENGTH = 32;
+
+export function tokenize(text: string): string[] {
+    const words = text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+/gu) || [];
+    return words.map(w => w.slice(0, MAX_WORD_LENGTH));
+}
+
+/**
+ * Distinct words of a text, the value stored in the index.
+ */
+export function getSearchWords(text: string | undefined): string[] {
+    return text ? Array.from(new Set(tokenize(text))) : [];
+}
+
+/**
+ * True when every query token is a prefix of one of the words.
+ */
+export function matchesTokens(words: string[] | undefined, tokens: string[]): boolean {
+    return !!words && tokens.every(t => words.some(w => w.startsWith(t)));
+}
@@ -0,0 +1,128 @@
+import type { Table } from 'dexie';
+import { db } from '../db';
+import { Chat, Message, Prompt } from '../types';
+import { matchesTokens, tokenize } from './searchIndex';
+
+/**
+ * Global search over project titles, messages and saved or recent prompts, backed by
+ * the word-prefix `searchWords` index (see searchIndex).
+ */
+
+// Caps the matches loaded per table; past it results are flagged as truncated
+const MAX_MATCHES = 500;
+const MAX_THUMBNAILS = 4;
+
+export interface MessageHit {
+    message: Message;
+    imageIds: string[]; // The message's images plus, for a prompt, those of its replies
+}
+
+export interface ProjectHit {
+    chat: Chat;
+    titleMatch: boolean;
+    messages: MessageHit[]; // Newest first
+}
+
+export interface SearchResults {
+    tokens: string[];
+    projects: ProjectHit[];
+    prompts: Prompt[];
+    truncated: boolean; // A table had more matches than MAX_MATCHES, so some are missing
+}
+
+/**
+ * Looks records up through the most selective query token and checks the rest while
+ * scanning, so the cap applies to real matches rather than index entries.
+ */
+async function findByWords<T extends { searchWords?: string[] }>(table: Table<T>, tokens: string[]): Promise<{ matches: T[]; truncated: boolean }> {
+    const key = tokens.reduce((a, b) => (b.length > a.length ? b : a));
+    const matches = await table.where('searchWords').startsWith(key).distinct()
+        .filter(r => matchesTokens(r.searchWords, tokens))
+        .limit(MAX_MATCHES + 1)
+        .toArray();
+    return { matches: matches.slice(0, MAX_MATCHES), truncated: matches.length > MAX_MATCHES };
+}
+
+export async function search(query: string): Promise<SearchResults> {
+    const tokens = Array.from(new Set(tokenize(query)));
+    if (tokens.length === 0) return { tokens, projects: [], prompts: [], truncated: false };
+
+    const [chatHits, messageHits, promptHits] = await Promise.all([
+        findByWords(db.chats, tokens),
+        findByWords(db.messages, tokens),
+        findByWords(db.prompts, tokens)
+    ]);
+    const { matches: chats } = chatHits;
+    const { matches: messages } = messageHits;
+    const { matches: prompts } = promptHits;
+
+    // Thumbnails for a prompt come from the images it produced
+    const userIds = messages.filter(m => m.role === 'user').map(m => m.id);
+    const replies = userIds.length > 0 ? await db.messages.where('parentId').anyOf(userIds).toArray() : [];
+    const replyImages = new Map<string, string[]>();
+    replies.forEach(r => {
+        if (r.parentId && r.imageIds?.length) replyImages.set(r.parentId, [...(replyImages.get(r.parentId) || []), ...r.imageIds]);
+    });
+
+    const projects = new Map<string, ProjectHit>(chats.map(chat => [chat.id, { chat, titleMatch: true, messages: [] }]));
+    const missingChatIds = Array.from(new Set(messages.map(m => m.chatId).filter(id => !projects.has(id))));
+    (await db.chats.bulkGet(missingChatIds)).forEach(chat => {
+        if (chat) projects.set(chat.id, { chat, titleMatch: false, messages: [] });
+    });
+
+    messages.forEach(message => {
+        const project = projects.get(message.chatId);
+        if (!project) return;
+        const imageIds = Array.from(new Set([...(message.imageIds || []), ...(replyImages.get(message.id) || [])]));
+        project.messages.push({ message, imageIds: imageIds.slice(0, MAX_THUMBNAILS) });
+    });
+
+    const latest = (p: ProjectHit) => Math.max(p.chat.updatedAt, ...p.messages.map(h => h.message.timestamp));
+    const sorted = Array.from(projects.values()).sort((a, b) => Number(b.titleMatch) - Number(a.titleMatch) || latest(b) - latest(a));
+    sorted.forEach(p => p.messages.sort((a, b) => b.message.timestamp - a.message.timestamp));
+
+    // A prompt saved and used recently shows once
+    const seenPrompts = new Set<string>();
+    const uniquePrompts = prompts
+        .sort((a, b) => Number(b.type === 'saved') - Number(a.type === 'saved') || b.timestamp - a.timestamp)
+        .filter(p => !seenPrompts.has(p.text) && !!seenPrompts.add(p.text));
+
+    return { tokens, projects: sorted, prompts: uniquePrompts, truncated: chatHits.truncated || messageHits.truncated || promptHits.truncated };
+}
+
+/**
+ * A one-line excerpt of text around the first matching word.
+ */
+export function getSnippet(text: string, tokens: string[], radius = 60): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const lower = flat.toLowerCase();
+    const at = tokens.reduce((min, t) => {
+        const i = lower.search(new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(t)}`, 'u'));
+        return i !== -1 && (min === -1 || i < min) ? i : min;
+    }, -1);
+    if (at === -1 || flat.length <= radius * 2) return flat.slice(0, radius * 2);
+
+    const start = Math.max(0, at - radius / 2);
+    return `${start > 0 ? '…' : ''}${flat.slice(start, start + radius * 2)}${start + radius * 2 < flat.length ? '…' : ''}`;
+}
+
+/**
+ * Splits text into parts, flagging the words that start with a query token.
+ */
+export function highlightTokens(text: string, tokens: string[]): { text: string; match: boolean }[] {
+    if (tokens.length === 0) return [{ text, match: false }];
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${tokens.map(escapeRegExp).join('|')})`, 'giu');
+    const parts: { text: string; match: boolean }[] = [];
+    let last = 0;
+    for (const m of text.matchAll(pattern)) {
+        if (m.index! > last) parts.push({ text: text.slice(last, m.index), match: false });
+        parts.push({ text: m[0], match: true });
+        last = m.index! + m[0].length;
+    }
+    if (last < text.length) parts.push({ text: text.slice(last), match: false });
+    return parts;
+}
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
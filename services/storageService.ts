@@ -0,0 +1,215 @@
+import JSZip from 'jszip';
+import { db } from '../db';
+import { ImageBlob } from '../types';
+import { hashBlob } from './backupSchema';
+
+/**
+ * Storage management: browser quota, per-project byte usage, the optional gallery
+ * limit and offloading full-resolution images to a download while keeping thumbnails.
+ * Offloading is two steps, so nothing is replaced until the saved download is confirmed.
+ */
+
+// Usage above this share of the quota triggers a warning
+export const QUOTA_WARNING_RATIO = 0.8;
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+    supported: boolean;
+}
+
+export interface StorageBucket {
+    bytes: number;
+    count: number;
+}
+
+export interface ProjectStorage extends StorageBucket {
+    chatId: string;
+    title: string;
+    imageIds: string[];
+}
+
+export interface StorageBreakdown {
+    projects: ProjectStorage[]; // Largest first
+    gallery: StorageBucket & { imageIds: string[] };
+    attachments: StorageBucket; // Uploaded by the user, including references
+    generated: StorageBucket;
+    thumbnails: StorageBucket;
+    offloaded: StorageBucket;
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate> {
+    if (!navigator.storage?.estimate) {
+        return { usage: 0, quota: 0, persisted: false, supported: false };
+    }
+    const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+        navigator.storage.estimate(),
+        navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false)
+    ]);
+    return { usage, quota, persisted, supported: true };
+}
+
+/**
+ * Asks the browser not to evict the database under storage pressure.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+}
+
+export function isNearQuota(estimate: StorageEstimate): boolean {
+    return estimate.supported && estimate.quota > 0 && estimate.usage / estimate.quota >= QUOTA_WARNING_RATIO;
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+/**
+ * Bytes held by images, split by project, gallery, and how the image came to be.
+ * An image shared between projects is counted in each of them.
+ */
+export async function getStorageBreakdown(): Promise<StorageBreakdown> {
+    const empty = (): StorageBucket => ({ bytes: 0, count: 0 });
+    const add = (bucket: StorageBucket, bytes: number) => {
+        bucket.bytes += bytes;
+        bucket.count++;
+    };
+
+    // Which projects each image appears in, and whether a user supplied it
+    const chats = await db.chats.toArray();
+    const imageChats = new Map<string, Set<string>>();
+    const uploaded = new Set<string>();
+    const link = (imageId: string, chatId: string) => {
+        if (!imageChats.has(imageId)) imageChats.set(imageId, new Set());
+        imageChats.get(imageId)!.add(chatId);
+    };
+
+    await db.messages.each(m => {
+        (m.imageIds || []).forEach(id => {
+            link(id, m.chatId);
+            if (m.role === 'user') uploaded.add(id);
+        });
+    });
+    chats.forEach(c => (c.referenceImageIds || []).forEach(id => {
+        link(id, c.id);
+        uploaded.add(id);
+    }));
+    (await db.presets.toArray()).forEach(p => (p.referenceImageIds || []).forEach(id => uploaded.add(id)));
+
+    const projects = new Map<string, ProjectStorage>(chats.map(c => [c.id, { chatId: c.id, title: c.title, bytes: 0, count: 0, imageIds: [] }]));
+    const breakdown: StorageBreakdown = {
+        projects: [],
+        gallery: { ...empty(), imageIds: [] },
+        attachments: empty(),
+        generated: empty(),
+        thumbnails: empty(),
+        offloaded: empty()
+    };
+
+    await db.images.each((img: ImageBlob) => {
+        const bytes = img.blob.size;
+        if (img.thumbnail && img.thumbnail !== img.blob) add(breakdown.thumbnails, img.thumbnail.size);
+        if (img.offloadedAt) add(breakdown.offloaded, bytes);
+        add(uploaded.has(img.id) ? breakdown.attachments : breakdown.generated, bytes);
+
+        if (img.isGalleryVisible) {
+            add(breakdown.gallery, bytes);
+            breakdown.gallery.imageIds.push(img.id);
+        }
+        imageChats.get(img.id)?.forEach(chatId => {
+            const project = projects.get(chatId);
+            if (!project) return;
+            add(project, bytes);
+            project.imageIds.push(img.id);
+        });
+    });
+
+    breakdown.projects = Array.from(projects.values()).filter(p => p.count > 0).sort((a, b) => b.bytes - a.bytes);
+    return breakdown;
+}
+
+/**
+ * How many more images fit in the gallery, Infinity when there is no limit.
+ */
+export async function getGallerySlots(limit: number): Promise<number> {
+    if (!limit || limit <= 0) return Infinity;
+    const count = await db.images.where('galleryTimestamp').above(0).count();
+    return Math.max(0, limit - count);
+}
+
+// Images worth offloading: a thumbnail exists and is actually smaller than the original
+const getOffloadable = async (imageIds: string[]): Promise<ImageBlob[]> =>
+    (await db.images.bulkGet(imageIds)).filter((img): img is ImageBlob =>
+        !!img && !img.offloadedAt && !!img.thumbnail && img.thumbnail.size < img.blob.size
+    );
+
+const offloadFileName = (img: ImageBlob) => `${img.id}.${img.mimeType.split('/')[1] || 'bin'}`;
+
+/**
+ * Step one of offloading: downloads the full-resolution blobs of the given images as a
+ * zip. Nothing is changed in the database; see replaceWithThumbnails for step two.
+ */
+export async function downloadOffloadArchive(imageIds: string[], onProgress?: (done: number, total: number) => void): Promise<{ count: number; bytes: number }> {
+    const records = await getOffloadable(imageIds);
+    if (records.length === 0) return { count: 0, bytes: 0 };
+
+    const zip = new JSZip();
+    records.forEach(img => zip.file(offloadFileName(img), img.blob));
+    const content = await zip.generateAsync({ type: 'blob' }, meta => onProgress?.(Math.round(meta.percent), 100));
+
+    const url = URL.createObjectURL(content);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `okobit-offload-${Date.now()}.zip`;
+    a.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+
+    return { count: records.length, bytes: records.reduce((sum, img) => sum + img.blob.size, 0) };
+}
+
+/**
+ * Step two of offloading, run once the user picks the saved zip: each image whose file in
+ * the zip hashes the same as the stored original has that original replaced by its
+ * thumbnail. Images missing from the zip or differing from it are left untouched.
+ */
+export async function replaceWithThumbnails(imageIds: string[], archive: File): Promise<{ offloaded: number; unverified: number; bytesFreed: number }> {
+    const records = await getOffloadable(imageIds);
+    const zip = await JSZip.loadAsync(archive);
+
+    const verified: ImageBlob[] = [];
+    for (const img of records) {
+        const file = zip.file(offloadFileName(img));
+        if (!file) continue;
+        const [saved, original] = await Promise.all([hashBlob(await file.async('blob')), hashBlob(img.blob)]);
+        if (saved === original) verified.push(img);
+    }
+
+    let bytesFreed = 0;
+    const now = Date.now();
+    await db.transaction('rw', db.images, async () => {
+        for (const img of verified) {
+            bytesFreed += img.blob.size - img.thumbnail!.size;
+            await db.images.update(img.id, {
+                blob: img.thumbnail!,
+                mimeType: img.thumbnail!.type || img.mimeType,
+                offloadedAt: now,
+                // The cached upload points at the full-resolution file, which no longer matches
+                fileUri: undefined,
+                fileName: undefined,
+                fileExpiresAt: undefined
+            });
+        }
+    });
+    return { offloaded: verified.length, unverified: records.length - verified.length, bytesFreed };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { fillTemplate, getMissingVariables, getTemplateVariables, parseBatchValues } from './templateService';
+
+describe('getTemplateVariables', () => {
+    it('lists each variable once in order of appearance', () => {
+        expect(getTemplateVariables('A {{ subject }} in {{style}}, {{subject}} again')).toEqual(['subject', 'style']);
+    });
+});
+
+describe('fillTemplate', () => {
+    it('replaces placeholders with trimmed values', () => {
+        expect(fillTemplate('A {{subject}} in {{ style }}', { subject: ' cat ', style: 'watercolor' })).toBe('A cat in watercolor');
+    });
+
+    it('leaves placeholders without a value in place', () => {
+        expect(fillTemplate('A {{subject}} in {{style}}', { subject: 'cat', style: '  ' })).toBe('A cat in {{style}}');
+    });
+});
+
+describe('parseBatchValues', () => {
+    it('takes one value per line for a single variable', () => {
+        expect(parseBatchValues('cat\n\n dog \r\nfox', ['subject'])).toEqual([{ subject: 'cat' }, { subject: 'dog' }, { subject: 'fox' }]);
+    });
+
+    it('matches columns by position without a header row', () => {
+        expect(parseBatchValues('cat,watercolor\ndog,"oil, thick"', ['subject', 'style'])).toEqual([
+            { subject: 'cat', style: 'watercolor' },
+            { subject: 'dog', style: 'oil, thick' }
+        ]);
+    });
+
+    it('matches columns by a header row in any order', () => {
+        expect(parseBatchValues('Style\tSubject\tNotes\nink\tcat\tignored', ['subject', 'style'])).toEqual([{ style: 'ink', subject: 'cat' }]);
+    });
+
+    it('unescapes doubled quotes', () => {
+        expect(parseBatchValues('"a ""big"" cat",ink', ['subject', 'style'])).toEqual([{ subject: 'a "big" cat', style: 'ink' }]);
+    });
+});
+
+describe('getMissingVariables', () => {
+    it('reports variables left empty', () => {
+        expect(getMissingVariables(['subject', 'style'], { subject: 'cat', style: ' ' })).toEqual(['style']);
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Prompt templates: saved prompts containing `{{name}}` placeholders, filled in
+ * from a form or expanded into a batch from pasted CSV / list values.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Upper bound on a single batch, each row becomes its own generation
+export const MAX_BATCH_SIZE = 100;
+
+export type TemplateValues = Record<string, string>;
+
+/**
+ * Variable names in the order they first appear.
+ */
+export function getTemplateVariables(text: string): string[] {
+    const names: string[] = [];
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+        if (!names.includes(match[1])) names.push(match[1]);
+    }
+    return names;
+}
+
+export function isTemplate(text: string): boolean {
+    return getTemplateVariables(text).length > 0;
+}
+
+/**
+ * Replaces each placeholder with its value. Placeholders without a value are left in place.
+ */
+export function fillTemplate(text: string, values: TemplateValues): string {
+    return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+        const value = values[name]?.trim();
+        return value ? value : placeholder;
+    });
+}
+
+function splitRow(line: string, delimiter: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted) {
+            if (ch === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"' && cell.trim() === '') {
+            quoted = true;
+            cell = '';
+        } else if (ch === delimiter) {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+}
+
+/**
+ * Parses pasted batch input into one set of values per row.
+ *
+ * A template with a single variable takes one value per line. Otherwise rows are
+ * comma or tab separated (spreadsheet pastes), matched to the variables by a header
+ * row when the first row names them, or by position when it does not.
+ */
+export function parseBatchValues(input: string, variables: string[]): TemplateValues[] {
+    const lines = input.split(/\r?\n/).filter(l => l.trim() !== '');
+    if (lines.length === 0 || variables.length === 0) return [];
+
+    if (variables.length === 1) {
+        return lines.map(l => ({ [variables[0]]: l.trim() }));
+    }
+
+    const delimiter = lines[0].includes('\t') ? '\t' : ',';
+    const rows = lines.map(l => splitRow(l, delimiter));
+
+    let columns = variables;
+    const header = rows[0].map(c => c.toLowerCase());
+    if (variables.some(v => header.includes(v.toLowerCase()))) {
+        columns = header.map(c => variables.find(v => v.toLowerCase() === c) || '');
+        rows.shift();
+    }
+
+    return rows.map(cells => {
+        const values: TemplateValues = {};
+        columns.forEach((name, i) => {
+            if (name && cells[i]) values[name] = cells[i];
+        });
+        return values;
+    });
+}
+
+/**
+ * Variables a set of values leaves empty.
+ */
+export function getMissingVariables(variables: string[], values: TemplateValues): string[] {
+    return variables.filter(v => !values[v]?.trim());
+}
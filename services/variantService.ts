@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { deleteMessagesWithCleanup } from './cleanupService';
+import { getLatestLeaf, getSubtreeIds } from './messageTree';
+
+/**
+ * Marks a variant as the winner of its group and continues the conversation from it.
+ */
+export async function pickVariant(messageId: string) {
+    await db.transaction('rw', db.chats, db.messages, async () => {
+        const msg = await db.messages.get(messageId);
+        if (!msg || !msg.variantGroupId || msg.error) return;
+
+        const chatMessages = await db.messages.where('chatId').equals(msg.chatId).toArray();
+        const siblings = chatMessages.filter(m => m.variantGroupId === msg.variantGroupId);
+
+        for (const s of siblings) {
+            const picked = s.id === messageId;
+            if (!!s.variantPicked !== picked) {
+                await db.messages.update(s.id, { variantPicked: picked });
+            }
+        }
+
+        await db.chats.update(msg.chatId, { activeLeafId: getLatestLeaf(chatMessages, messageId) });
+    });
+}
+
+/**
+ * Deletes the unpicked variants of a group, including any replies branched
+ * off them, and their orphaned images. Groups without a picked winner are left untouched.
+ */
+export async function discardUnpickedVariants(chatId: string, variantGroupId: string) {
+    const chatMessages = await db.messages.where('chatId').equals(chatId).toArray();
+    const siblings = chatMessages.filter(m => m.variantGroupId === variantGroupId);
+
+    if (!siblings.some(m => m.variantPicked)) return;
+
+    const toDelete = siblings
+        .filter(m => !m.variantPicked)
+        .flatMap(m => getSubtreeIds(chatMessages, m.id));
+
+    await deleteMessagesWithCleanup(toDelete);
+}
@@ -4,21 +4,41 @@ export interface Chat {
   id: string;
   title: string;
   pinned: boolean;
-  orderIndex: number;
+  pinnedKey?: 0 | 1; // `pinned` as a number so it can be indexed, kept in sync by db hooks
+  orderIndex: number; // Manual position within its folder, 0 until the project is dragged
+  folderId?: string | null; // Sidebar folder, top level when unset
+  archived?: 0 | 1; // A number rather than a boolean so it can be indexed
+  messageCount?: number; // Kept current by db hooks, finds empty projects without scanning
   createdAt: number;
   updatedAt: number;
+  modelId?: string; // Image model for this project, defaults to DEFAULT_IMAGE_MODEL_ID
+  activeLeafId?: string; // Last message of the branch currently shown
+  referenceImageIds?: string[]; // Pinned reference images, always sent ahead of the history
+  genConfig?: GenConfig; // Generation settings for this project, DEFAULT_GEN_CONFIG when unset
+  systemInstruction?: string; // Free-form project instruction, e.g. a house style
+  searchWords?: string[]; // Words of the title for search, kept in sync by db hooks
 }
 
 export interface Message {
   id: string;
   chatId: string;
+  parentId?: string | null; // Previous turn in the branch tree, null for a root. Undefined only on legacy data
   role: 'user' | 'model';
   text: string;
   imageIds?: string[]; // IDs referencing ImageBlob in DB
+  composedPrompt?: string; // Final prompt sent after applying style presets to `text`
+  presets?: { id: string; name: string }[]; // Presets applied when this message was sent
   timestamp: number;
   thoughts?: string; // Chain of thought or reasoning
+  variantGroupId?: string; // Shared by sibling model messages generated from the same prompt
+  variantIndex?: number;
+  variantPicked?: boolean; // Winner of its variant group, the conversation continues from it
+  batchId?: string; // Shared by the root prompts of one batch run, shown together as its results
+  searchWords?: string[]; // Words of `text` for search, kept in sync by db hooks
   meta?: {
-    model: string;
+    model: string; // Display name of the model used
+    modelId?: string; // Registry id of the model used
+    requestedModelId?: string; // Project model that was not registered, so the default ran instead
     modelVersion?: string;
     duration: string;
     tokens?: {
@@ -30,10 +50,74 @@ export interface Message {
     costUsd?: number;
     finishReason?: string;
     safetyBlocked?: boolean;
+    safetyRatings?: SafetyRating[];
+    grounding?: GroundingInfo; // Search sources when searchGrounding was on
+    errorCode?: GenerationErrorCode; // Classified failure, set on error messages
+    attempts?: number; // Requests made including automatic retries
   };
   error?: boolean;
 }
 
+export type GenerationErrorCode =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'invalid_key'
+  | 'payload_too_large'
+  | 'safety'
+  | 'network'
+  | 'timeout'
+  | 'unknown';
+
+export interface ModelCapabilities {
+  imageOutput: boolean;
+  imageSize: boolean; // Accepts imageConfig.imageSize (resolution)
+  thinking: boolean;
+  searchGrounding: boolean;
+}
+
+export interface ModelPricing {
+  inputPerM: number; // USD per 1M input tokens
+  outputPerM: number; // USD per 1M text output tokens
+  imageOutputPerM?: number; // USD per 1M image output tokens
+  imageTokens?: Record<string, number>; // Approx. output tokens per image, keyed by resolution ('default' fallback)
+}
+
+export interface ModelDescriptor {
+  id: string; // API model name
+  label: string;
+  provider: string; // Id of the registered ModelProvider that runs it, e.g. 'google'
+  role: 'image' | 'text';
+  capabilities: ModelCapabilities;
+  aspectRatios: string[]; // Supported ASPECT_RATIOS values
+  resolutions: string[]; // Supported RESOLUTIONS values
+  pricing: ModelPricing;
+}
+
+// An image model added in settings, run like the built-in model it is based on
+export interface CustomModel {
+  id: string; // API model name
+  label: string;
+  baseId: string; // Built-in model whose provider, capabilities and pricing it uses
+}
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+  domain?: string;
+}
+
+export interface GroundingInfo {
+  sources: GroundingSource[];
+  queries: string[];
+  searchEntryPointHtml?: string; // Rendered Google Search suggestions, shown as required by the API terms
+}
+
+export interface SafetyRating {
+  category: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
 export interface ImageBlob {
   id: string;
   blob: Blob;
@@ -42,6 +126,66 @@ export interface ImageBlob {
   createdAt: number;
   isGalleryVisible: boolean;
   galleryTimestamp?: number; // Sparse index field: only set if isGalleryVisible is true
+  fileUri?: string; // Gemini Files API upload, reused until it expires
+  fileName?: string;
+  fileExpiresAt?: number;
+  // Provenance, walked by the lineage view
+  sourceMessageId?: string; // Message the image was generated in or attached to
+  parentImageIds?: string[]; // Images this one was generated or derived from
+  generation?: GenerationSnapshot; // Set on generated images
+  adjustments?: ImageAdjustments; // Set on copies made in the Lightbox's Adjust mode
+  offloadedAt?: number; // Full-resolution blob was exported and replaced by the thumbnail
+  // Gallery organisation
+  collectionIds?: string[];
+  tags?: string[]; // Lowercase, see normalizeTag
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  orderIndex: number;
+  collapsed?: boolean;
+  createdAt: number;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// Parameters an image was generated with, kept even if the project settings change later
+export interface GenerationSnapshot {
+  prompt: string;
+  modelId: string;
+  aspectRatio: string;
+  resolution: string;
+  seed?: number;
+}
+
+export type ImageExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ImageAdjustments {
+  crop: string; // An ASPECT_RATIOS value, "auto" keeps the full frame
+  rotation: 0 | 90 | 180 | 270;
+  flipH: boolean;
+  flipV: boolean;
+  brightness: number; // Percent, 100 = unchanged
+  contrast: number;
+  scale: number; // Upscale factor, 1 = original size
+  format: ImageExportFormat;
+  quality: number; // 0-1, ignored for PNG
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  promptFragment: string; // Appended to the prompt as style guidance
+  negativePrompt?: string; // Things to avoid
+  aspectRatio?: string; // Applied to the project when the preset is switched on
+  resolution?: string;
+  referenceImageIds?: string[]; // Attached to every message sent with the preset
+  createdAt: number;
 }
 
 export interface Prompt {
@@ -49,6 +193,7 @@ export interface Prompt {
   text: string;
   type: 'recent' | 'saved';
   timestamp: number;
+  searchWords?: string[];
 }
 
 export interface Confirmations {
@@ -61,19 +206,34 @@ export interface Confirmations {
   factoryReset: boolean;
 }
 
+export type SafetyCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT';
+
 export interface AppConfig {
   apiKey: string;
   themeAccent: string;
   safetyThreshold: string;
+  safetyOverrides: Partial<Record<SafetyCategory, string>>; // Per-category thresholds, falls back to safetyThreshold
   detailedVerbosity: boolean;
   searchGrounding: boolean;
+  includeThoughts: boolean;
+  thinkingLevel: string; // 'auto' lets the model decide
+  thinkingBudget: number; // Token budget, -1 = automatic. Only used when thinkingLevel is 'auto'
   lightMode: boolean;
+  maxConcurrentJobs: number; // Generations allowed to run at once across projects
+  contextTokenBudget: number; // Estimated tokens of history sent with each generation
+  galleryLimit: number; // Max images saved to the gallery, 0 = no limit
+  customModels: CustomModel[]; // Registered alongside the built-in models
   confirmations: Confirmations;
 }
 
 export interface GenConfig {
   aspectRatio: string;
   resolution: string;
+  variants: number; // Parallel candidates per prompt
 }
 
 export type ModalType = 'alert' | 'confirm' | 'prompt' | 'welcome' | 'shortcuts';